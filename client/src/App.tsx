@@ -4,6 +4,7 @@ import React, {
   useEffect,
   useRef,
   useCallback,
+  useMemo,
 } from 'react';
 import { io, Socket } from 'socket.io-client';
 import toast, { Toaster } from 'react-hot-toast';
@@ -20,15 +21,85 @@ import {
   MicOff,
   Volume2,
   VolumeX,
+  History,
+  Film,
+  LogOut,
+  Lock,
+  LockOpen,
+  MessageSquareOff,
+  PenOff,
+  UserX,
+  Ban,
+  FlaskConical,
+  X,
+  ScrollText,
+  Globe,
+  Database,
+  TextSelect,
+  CornerUpLeft,
 } from 'lucide-react';
 import { useEditor } from './context/EditorContext';
-import Editor from '@monaco-editor/react';
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
 import { motion, AnimatePresence } from 'framer-motion';
 // import Avatar from './components/Avatar';
-
-// Pick backend URL based on env (dev vs prod)
-const API_BASE_URL =
-  import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000';
+import { TextOperation, type OpComponent } from './lib/textOperation';
+import { OTClient } from './lib/otClient';
+import {
+  operationFromMonacoChanges,
+  applyOperationToModel,
+} from './lib/monacoOperations';
+import {
+  RemoteCursorManager,
+  cursorPositionFromEditor,
+  type RemoteCursor,
+} from './lib/remoteCursors';
+import { colorForUser } from './lib/userColor';
+import FileExplorer from './components/FileExplorer';
+import HistoryPanel from './components/HistoryPanel';
+import PlaybackView from './components/PlaybackView';
+import AuthPanel from './components/AuthPanel';
+import AccessPanel from './components/AccessPanel';
+import RunInputPanel from './components/RunInputPanel';
+import TestsPanel from './components/TestsPanel';
+import RunHistoryPanel from './components/RunHistoryPanel';
+import PreviewPane, { type PreviewConsoleLevel } from './components/PreviewPane';
+import SqlResultView from './components/SqlResultView';
+import RunOutputView from './components/RunOutputView';
+import ChatMessageItem from './components/ChatMessageItem';
+import MentionInput from './components/MentionInput';
+import NotificationCenter from './components/NotificationCenter';
+import {
+  locateDiagnostics,
+  parseCompileErrors,
+  type CompileDiagnostic,
+} from './lib/compileErrors';
+import SqlSeedPanel from './components/SqlSeedPanel';
+import RunTerminal, {
+  type RunTerminalHandle,
+  type TerminalChunk,
+} from './components/RunTerminal';
+import type {
+  AppNotification,
+  AuthSession,
+  ChatMessage,
+  ChatPage,
+  KnockRequest,
+  RoomBan,
+  RoomRole,
+  RoomUser,
+  RunInput,
+  LanguageInfo,
+  RunExit,
+  RunJob,
+  RunLimitsPolicy,
+  SqlRunResult,
+  TestRunSummary,
+  WorkspaceFile,
+} from './types';
+import { API_BASE_URL, apiRequest } from './lib/api';
+import { loadSession, saveSession, clearSession } from './lib/session';
+import { loadFingerprint } from './lib/fingerprint';
 
 const AVATAR_OPTIONS = [
   '/avatars/avatar1.png',
@@ -43,21 +114,55 @@ const AVATAR_OPTIONS = [
   '/avatars/avatar10.png',
 ];
 
-const ALL_LANGUAGES = [
-  { value: 'javascript', label: 'JavaScript' },
-  { value: 'typescript', label: 'TypeScript' },
-  { value: 'python', label: 'Python' },
-  { value: 'java', label: 'Java' },
-  { value: 'cpp', label: 'C++' },
-  { value: 'csharp', label: 'C#' },
-  { value: 'php', label: 'PHP' },
-  { value: 'ruby', label: 'Ruby' },
-  { value: 'go', label: 'Go' },
-  { value: 'rust', label: 'Rust' },
-  { value: 'html', label: 'HTML' },
-  { value: 'css', label: 'CSS' },
-  { value: 'sql', label: 'SQL' },
-];
+// Cursor moves are sent at most this often
+const CURSOR_THROTTLE_MS = 80;
+
+type OutputStream = 'stdout' | 'stderr' | 'compile';
+type OutputView = 'terminal' | OutputStream | 'results';
+const EMPTY_RUN_OUTPUT: Record<OutputStream, string> = { stdout: '', stderr: '', compile: '' };
+// Judge0's "Accepted"
+const ACCEPTED_STATUS = 3;
+// The server turns away anything longer
+const MAX_CHAT_MESSAGE_LENGTH = 10000;
+// While we keep typing we say so this often; someone else's "typing" lapses
+// after this long without hearing from them again
+const TYPING_REFRESH_MS = 3000;
+const TYPING_TIMEOUT_MS = 5000;
+// The notification center forgets the oldest beyond this
+const MAX_NOTIFICATIONS = 100;
+const ROLE_RANK: Record<RoomRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+// "Alice is typing…", "Alice and Bob are typing…", "Several people are typing…"
+const typingLabel = (names: string[]): string => {
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return 'Several people are typing…';
+};
+
+// Peak memory comes in kilobytes
+const formatMemory = (kb: number): string =>
+  kb >= 1024 ? `${(kb / 1024).toFixed(1)} MB` : `${kb} KB`;
+
+// Slash-separated path from the workspace root, as the server names files in runs
+const pathOf = (files: WorkspaceFile[], fileId: string): string => {
+  const byId = new Map(files.map((f) => [f.id, f]));
+  const parts: string[] = [];
+  for (let f = byId.get(fileId); f; f = f.parentId ? byId.get(f.parentId) : undefined) {
+    parts.unshift(f.name);
+  }
+  return parts.join('/');
+};
+
+const revealPosition = (
+  ed: editor.IStandaloneCodeEditor | null,
+  line: number,
+  column: number,
+) => {
+  if (!ed) return;
+  ed.revealLineInCenter(line);
+  ed.setPosition({ lineNumber: line, column });
+  ed.focus();
+};
 
 // STUN server for WebRTC (for demo / dev)
 const rtcConfig: RTCConfiguration = {
@@ -115,22 +220,165 @@ function App() {
     setAvatar,
     messages,
     addMessage,
+    setChatHistory,
+    prependMessages,
+    updateMessage,
   } = useEditor();
 
   const socketRef = useRef<Socket | null>(null);
 
-  const [userName, setUserName] = useState('');
+  // Account (or guest) session; the socket only connects once we have one
+  const [session, setSession] = useState<AuthSession | null>(loadSession);
+  const userName = session?.user.username ?? '';
   const [inputMessage, setInputMessage] = useState('');
+  // Whether older chat is waiting on the server, and whether it's being fetched
+  const [chatHasMore, setChatHasMore] = useState(false);
+  const [chatCursor, setChatCursor] = useState<string | null>(null);
+  const [loadingOlderChat, setLoadingOlderChat] = useState(false);
+  // The message our next one answers, if any
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  // Mentions and room events, newest last
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  // Who was in the room at the last users-update, to spot arrivals and role
+  // changes
+  const knownUsersRef = useRef(new Map<string, RoomUser>());
+  // Who else is typing in chat (userId -> name); each entry lapses on its own
+  // unless it's refreshed, in case the "stopped" event never comes
+  const [typists, setTypists] = useState<Record<string, string>>({});
+  const typistTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  // When we last told the room we're typing
+  const typingSentAtRef = useRef(0);
   const [isJoined, setIsJoined] = useState(false);
-  const [language, setLanguage] = useState('javascript');
+
+  // Workspace: the room's file tree and the file this user has open
+  const [files, setFiles] = useState<WorkspaceFile[]>([]);
+  const [activeFileId, setActiveFileId] = useState<string | null>(null);
+  const activeFile = files.find((f) => f.id === activeFileId);
+  const language = activeFile?.language || 'plaintext';
+  // Languages the server knows, with how (and whether) each one runs
+  const [languages, setLanguages] = useState<LanguageInfo[]>([]);
+  const languageInfo = languages.find((l) => l.id === language);
+  const cannotRun = !!languageInfo && !languageInfo.runnable;
+
+  // Whether the server has written the room to the database yet
+  const [saveStatus, setSaveStatus] = useState<{
+    status: 'saved' | 'unsaved' | 'saving';
+    savedAt: string | null;
+  }>({ status: 'saved', savedAt: null });
+
+  // Who owns the room, what newcomers get and whether it's locked; our own
+  // role and mutes come with the user list
+  const [roomAccess, setRoomAccess] = useState<{
+    ownerId: string | null;
+    defaultRole: 'editor' | 'viewer';
+    locked: boolean;
+  }>({ ownerId: null, defaultRole: 'editor', locked: false });
+  const me = (users as RoomUser[]).find(
+    (u) => u.socketId === socketRef.current?.id,
+  );
+  const myRole = me?.role;
+  const canEdit = (myRole === 'owner' || myRole === 'editor') && !me?.muted?.edit;
+  const chatMuted = !!me?.muted?.chat;
+  const isOwner = myRole === 'owner';
+  // Who the chat input offers after an "@"
+  const mentionNames = [
+    ...new Set(
+      (users as RoomUser[]).filter((u) => u.userId !== me?.userId).map((u) => u.userName),
+    ),
+  ];
+  // Owner side: who is banned from the room
+  const [bans, setBans] = useState<RoomBan[]>([]);
 
   const [view, setView] = useState<'join' | 'create'>('create');
   const [roomIdToJoin, setRoomIdToJoin] = useState('');
+  // Private rooms: invite token from the link, password once the server asks
+  // for one, and whether we're waiting for the owner to let us in
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+  const [roomPassword, setRoomPassword] = useState('');
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [knocking, setKnocking] = useState(false);
+  // Owner side: people waiting in the knock queue
+  const [knockRequests, setKnockRequests] = useState<KnockRequest[]>([]);
+  const [showAccess, setShowAccess] = useState(false);
   const [roomNameForCreation, setRoomNameForCreation] = useState('');
 
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTests, setShowTests] = useState(false);
+  const [showRunHistory, setShowRunHistory] = useState(false);
+  // Bumped each time the room records a finished run
+  const [runHistoryVersion, setRunHistoryVersion] = useState(0);
+  // Latest test run in the room, whoever started it
+  const [testResults, setTestResults] = useState<TestRunSummary | null>(null);
+  const [showPlayback, setShowPlayback] = useState(false);
+
   // Judge0 runner
-  const [output, setOutput] = useState<string>('');
-  const [isRunning, setIsRunning] = useState(false);
+  // The run streaming into the terminal, if any (one per room)
+  const [activeRun, setActiveRun] = useState<{ runId: string; startedBy: string } | null>(null);
+  const isRunning = !!activeRun;
+  // Runs and test runs holding or waiting for the room's execution slot
+  const [runQueue, setRunQueue] = useState<RunJob[]>([]);
+  // The room's shared web preview: an HTML file with its CSS/JS inlined
+  const [preview, setPreview] = useState<{ fileId: string; path: string; html: string } | null>(
+    null,
+  );
+  // SQL rooms: the owner's seed script and the latest result set
+  const [sqlSeed, setSqlSeed] = useState('');
+  const [sqlResult, setSqlResult] = useState<SqlRunResult | null>(null);
+  const [showSqlSeed, setShowSqlSeed] = useState(false);
+  // The output panel shows the terminal, one stream of the last run, or the
+  // last SQL result as a table
+  const [outputView, setOutputView] = useState<OutputView>('terminal');
+  // The last run's output split by stream, for the output tabs
+  const [runOutput, setRunOutput] = useState<Record<OutputStream, string>>(EMPTY_RUN_OUTPUT);
+  const [lastExit, setLastExit] = useState<RunExit | null>(null);
+  // Errors from the last compile, as printed, and the path of the file that
+  // ran; they're placed on workspace files when rendering
+  const [compileErrors, setCompileErrors] = useState<{
+    entry: string;
+    diagnostics: CompileDiagnostic[];
+  } | null>(null);
+  const runningJob = runQueue.find((job) => job.status === 'running');
+  const queuedJobs = runQueue.filter((job) => job.status === 'queued');
+  const myQueuedRun = queuedJobs.find((job) => job.kind === 'run' && job.userId === me?.userId);
+  const terminalRef = useRef<RunTerminalHandle | null>(null);
+  // Everything printed by the current (or last) run, so the terminal can be
+  // rebuilt when it mounts
+  const terminalLogRef = useRef<TerminalChunk[]>([]);
+  // Path of the file the live run came from, for compile errors that don't
+  // name a file we have
+  const runEntryRef = useRef('');
+  // Whose run of what is live, for the notification if it fails
+  const runLabelRef = useRef('');
+  // A compile error in another file: where to go once that file has loaded
+  const pendingRevealRef = useRef<{ fileId: string; line: number; column: number } | null>(null);
+
+  const writeTerminal = useCallback((chunk: TerminalChunk) => {
+    terminalLogRef.current.push(chunk);
+    terminalRef.current?.write(chunk);
+    const { stream, data } = chunk;
+    if (stream === 'stdout' || stream === 'stderr' || stream === 'compile') {
+      setRunOutput((prev) => ({ ...prev, [stream]: prev[stream] + data }));
+    }
+  }, []);
+
+  const clearTerminal = useCallback(() => {
+    terminalLogRef.current = [];
+    terminalRef.current?.clear();
+    setRunOutput(EMPTY_RUN_OUTPUT);
+  }, []);
+  // Stdin/args/env shared with the room; the key remounts the input panel
+  // whenever someone else changes them
+  // Replaced by the room's own input as soon as we join
+  const [runInput, setRunInput] = useState<RunInput>({
+    stdin: '',
+    args: [],
+    env: {},
+    limits: { cpuTime: 2, wallTime: 5, memoryMb: 128 },
+    commands: {},
+  });
+  const [runLimitsPolicy, setRunLimitsPolicy] = useState<RunLimitsPolicy | null>(null);
+  const [runInputKey, setRunInputKey] = useState(0);
+  const runInputTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Video call state
   const [inCall, setInCall] = useState(false);
@@ -159,17 +407,194 @@ const safeSetCode = (newCode: any) => {
   }
 };
 
+  // Collaborative editing (OT) state
+  const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const otClientRef = useRef<OTClient | null>(null);
+  const applyingRemoteRef = useRef(false);
+  const roomIdRef = useRef(roomId);
+  // What we last sent to get into a room, sent again when the socket
+  // reconnects (the server only knows the new socket id once we rejoin)
+  const rejoinRef = useRef<{ roomId?: string; avatar: string; password?: string; invite?: string } | null>(null);
+  const rejoiningRef = useRef(false);
+  // File the current OTClient belongs to
+  const activeFileIdRef = useRef<string | null>(null);
+
+  // Remote cursors: latest known position per socket, drawn once the editor exists
+  const remoteCursorsRef = useRef<Map<string, RemoteCursor>>(new Map());
+  const cursorManagerRef = useRef<RemoteCursorManager | null>(null);
+  const cursorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    roomIdRef.current = roomId;
+  }, [roomId]);
+
+  // The editor's "Send selection to chat" action is registered once, at
+  // mount, so it calls whatever the latest version of this is
+  const shareSelectionRef = useRef<() => void>(() => undefined);
+
+  // Applies an operation coming from the server to the editor (or to the
+  // plain string if the editor isn't mounted yet)
+  const applyRemoteOperation = useCallback((operation: TextOperation) => {
+    const model = editorRef.current?.getModel();
+    if (!model) {
+      setCode((prev) => operation.apply(prev));
+      return;
+    }
+    applyingRemoteRef.current = true;
+    try {
+      applyOperationToModel(model, operation);
+    } finally {
+      applyingRemoteRef.current = false;
+    }
+    setCode(model.getValue());
+  }, []);
+
+  const sendOperation = useCallback(
+    (fileId: string, revision: number, operation: TextOperation) => {
+      const s = socketRef.current;
+      // Offline edits aren't queued: rejoining hands us a fresh snapshot
+      if (!s?.connected || !roomIdRef.current) return;
+      s.emit('code-operation', {
+        roomId: roomIdRef.current,
+        fileId,
+        revision,
+        operation: operation.toJSON(),
+      });
+    },
+    [],
+  );
+
+  // Shows only the cursors of people in the same file as us
+  const redrawCursors = useCallback(() => {
+    const manager = cursorManagerRef.current;
+    if (!manager) return;
+    manager.dispose();
+    remoteCursorsRef.current.forEach((cursor) => {
+      if (cursor.fileId === activeFileIdRef.current) manager.update(cursor);
+    });
+  }, []);
+
+  const handleEditorMount: OnMount = (ed, monaco) => {
+    editorRef.current = ed;
+    monacoRef.current = monaco;
+    // Offsets are exchanged with the server, so keep line endings predictable
+    ed.getModel()?.setEOL(monaco.editor.EndOfLineSequence.LF);
+
+    cursorManagerRef.current = new RemoteCursorManager(ed, monaco);
+    redrawCursors();
+
+    ed.addAction({
+      id: 'send-selection-to-chat',
+      label: 'Send Selection to Chat',
+      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyM],
+      contextMenuGroupId: '9_cutcopypaste',
+      run: () => shareSelectionRef.current(),
+    });
+
+    // Throttled: send the latest cursor state at most every CURSOR_THROTTLE_MS
+    ed.onDidChangeCursorSelection(() => {
+      if (cursorTimerRef.current) return;
+      cursorTimerRef.current = setTimeout(() => {
+        cursorTimerRef.current = null;
+        const s = socketRef.current;
+        const position = cursorPositionFromEditor(ed);
+        if (!s || !roomIdRef.current || !position) return;
+        s.emit('cursor-position', { roomId: roomIdRef.current, position });
+      }, CURSOR_THROTTLE_MS);
+    });
+  };
+
   // ---------- URL Room handling ----------
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const rid = params.get('room');
     if (rid) setRoomIdToJoin(rid.toUpperCase());
+    const invite = params.get('invite');
+    if (invite) {
+      setInviteToken(invite);
+      setView('join');
+    }
+  }, []);
+
+  // ---------- Session ----------
+  const handleAuthenticated = (next: AuthSession) => {
+    saveSession(next);
+    setSession(next);
+  };
+
+  const signOut = useCallback(async () => {
+    try {
+      await apiRequest('/api/auth/logout', { method: 'POST' });
+    } catch {
+      // The token is dropped locally either way
+    }
+    clearSession();
+    socketRef.current?.disconnect();
+    socketRef.current = null;
+    setSession(null);
+  }, []);
+
+  // A stored session may have expired or been logged out elsewhere
+  useEffect(() => {
+    if (!loadSession()) return;
+    apiRequest('/api/auth/me').catch(() => {
+      clearSession();
+      socketRef.current?.disconnect();
+      socketRef.current = null;
+      setSession(null);
+    });
+  }, []);
+
+  // The language registry: the picker, the editor's mode and what Run does
+  useEffect(() => {
+    apiRequest<LanguageInfo[]>('/api/languages')
+      .then(setLanguages)
+      .catch((err: Error) => toast.error(`Couldn't load languages: ${err.message}`));
+  }, []);
+
+  // The server's default and maximum run limits, for the input panel; without
+  // them it just can't show the maximums
+  useEffect(() => {
+    apiRequest<RunLimitsPolicy>('/api/run/limits')
+      .then(setRunLimitsPolicy)
+      .catch(() => undefined);
   }, []);
 
+  // ---------- Notifications ----------
+  // Also pops up a browser notification while the tab is in the background
+  const notify = useCallback(
+    (kind: AppNotification['kind'], text: string, detail?: string) => {
+      setNotifications((prev) =>
+        [
+          ...prev,
+          { id: crypto.randomUUID(), kind, text, detail, at: new Date().toISOString(), read: false },
+        ].slice(-MAX_NOTIFICATIONS),
+      );
+      if (document.hidden && 'Notification' in window && Notification.permission === 'granted') {
+        new Notification(`Room ${roomIdRef.current ?? ''}`.trim(), { body: detail ? `${text}: ${detail}` : text });
+      }
+    },
+    [],
+  );
+
+  // Browsers only ask for permission in answer to a click, so we ask the
+  // first time the bell is opened
+  const openNotifications = () => {
+    setNotifications((prev) => prev.map((n) => (n.read ? n : { ...n, read: true })));
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => undefined);
+    }
+  };
+
   // ---------- Core Socket.IO setup ----------
+  const sessionToken = session?.token;
+  const myUserId = session?.user.id;
   useEffect(() => {
+    if (!sessionToken) return;
     if (!socketRef.current) {
       const s = io(API_BASE_URL, {
+        auth: { token: sessionToken, fingerprint: loadFingerprint() },
         transports: ['polling', 'websocket'],
         withCredentials: true,
         reconnection: true,
@@ -182,38 +607,299 @@ const safeSetCode = (newCode: any) => {
     const s = socketRef.current;
     if (!s) return;
 
-    const onConnect = () =>
+    // The join response resets the editor (and its OTClient) from a snapshot
+    const rejoin = () => {
+      const payload = rejoinRef.current;
+      if (!payload?.roomId || rejoiningRef.current) return;
+      rejoiningRef.current = true;
+      s.emit('join-room', payload);
+    };
+
+    const onConnect = () => {
       console.log('✅ Connected to server, socket id:', s.id);
+      rejoin();
+    };
     const onConnectError = (err: any) => {
       console.error('❌ Socket connect_error:', err?.message || err);
+      // Rejected by the handshake: the token is no good any more
+      if (err?.message === 'Invalid or expired session' || err?.message === 'Authentication required') {
+        toast.error('Your session has expired, please sign in again');
+        clearSession();
+        s.disconnect();
+        socketRef.current = null;
+        setSession(null);
+        return;
+      }
       toast.error('Failed to connect to server');
     };
 
+    // Full snapshot of one file: sent on join, when opening a file and
+    // whenever we fall out of sync
     const onCodeUpdate = (data: {
-      roomId: string;
+      fileId: string | null;
       code: string;
-      userId: string;
+      revision: number;
     }) => {
-      const isSelf = data.userId === s.id;
-      if (!isSelf && typeof data.code === 'string') {
+      if (typeof data.code !== 'string') {
         safeSetCode(data.code);
+        return;
+      }
+      const { fileId } = data;
+      // Anything still buffered for the previous file is dropped here; the
+      // in-flight operation (if any) has already reached the server.
+      otClientRef.current = fileId
+        ? new OTClient(
+            data.revision,
+            (revision, operation) => sendOperation(fileId, revision, operation),
+            applyRemoteOperation,
+          )
+        : null;
+      activeFileIdRef.current = fileId;
+      setActiveFileId(fileId);
+      redrawCursors();
+
+      const model = editorRef.current?.getModel();
+      if (model && model.getValue() !== data.code) {
+        applyingRemoteRef.current = true;
+        try {
+          model.setValue(data.code);
+        } finally {
+          applyingRemoteRef.current = false;
+        }
+      }
+      safeSetCode(data.code);
+
+      const reveal = pendingRevealRef.current;
+      if (reveal && reveal.fileId === fileId) {
+        pendingRevealRef.current = null;
+        revealPosition(editorRef.current, reveal.line, reveal.column);
+      }
+    };
+
+    const onCodeOperation = (data: {
+      fileId: string;
+      revision: number;
+      operation: OpComponent[];
+    }) => {
+      if (data.fileId !== activeFileIdRef.current) return;
+      otClientRef.current?.applyServer(
+        data.revision,
+        TextOperation.fromJSON(data.operation),
+      );
+    };
+
+    const onCodeAck = (data: { fileId: string; revision: number }) => {
+      if (data.fileId !== activeFileIdRef.current) return;
+      otClientRef.current?.serverAck(data.revision);
+    };
+
+    const onCursorUpdate = (cursor: RemoteCursor) => {
+      if (cursor.userId === s.id || !cursor.position) return;
+      remoteCursorsRef.current.set(cursor.userId, cursor);
+      if (cursor.fileId === activeFileIdRef.current) {
+        cursorManagerRef.current?.update(cursor);
+      }
+    };
+
+    const onFilesUpdate = (list: WorkspaceFile[]) => setFiles(list);
+
+    const onFileError = (message: string) => toast.error(message);
+
+    const onSaveStatus = (data: {
+      status: 'saved' | 'unsaved' | 'saving';
+      savedAt: string | null;
+    }) => setSaveStatus(data);
+
+    const onRoomAccess = (data: {
+      ownerId: string | null;
+      defaultRole: 'editor' | 'viewer';
+      locked: boolean;
+    }) => setRoomAccess(data);
+
+    const onBansUpdate = (list: RoomBan[]) => setBans(list);
+
+    const onRunInput = (data: RunInput) => {
+      setRunInput(data);
+      setRunInputKey((k) => k + 1);
+    };
+
+    const onRunInputError = (message: string) => toast.error(message);
+
+    // Output of the last finished run, for people who weren't watching
+    const onRunOutput = (data: { output: string; language: string }) => {
+      clearTerminal();
+      writeTerminal({ stream: 'stdout', data: data.output });
+    };
+
+    const onRunStarted = (run: {
+      runId: string;
+      language: string;
+      fileName: string;
+      entry: string;
+      startedBy: string;
+    }) => {
+      clearTerminal();
+      setOutputView('terminal');
+      setLastExit(null);
+      setCompileErrors(null);
+      setActiveRun({ runId: run.runId, startedBy: run.startedBy });
+      runEntryRef.current = run.entry;
+      runLabelRef.current = `${run.startedBy}'s run of ${run.fileName}`;
+      writeTerminal({
+        stream: 'info',
+        data: `$ ${run.startedBy} ran ${run.fileName} (${run.language})\n`,
+      });
+    };
+
+    const onRunData = (chunk: {
+      runId: string;
+      stream: 'stdout' | 'stderr' | 'stdin' | 'compile';
+      data: string;
+    }) => writeTerminal({ stream: chunk.stream, data: chunk.data });
+
+    const onRunExit = (data: RunExit) => {
+      setActiveRun(null);
+      setLastExit(data);
+      const compileOutput = terminalLogRef.current
+        .filter((chunk) => chunk.stream === 'compile')
+        .map((chunk) => chunk.data)
+        .join('');
+      const diagnostics = parseCompileErrors(compileOutput);
+      if (diagnostics.length) {
+        setCompileErrors({ entry: runEntryRef.current, diagnostics });
+        setOutputView('compile');
+      }
+      if (!data.stoppedBy && data.status && data.status.id !== ACCEPTED_STATUS) {
+        notify('run-failed', `${runLabelRef.current} failed: ${data.status.description}`);
+      }
+      const how = data.stoppedBy
+        ? `Stopped by ${data.stoppedBy}`
+        : (data.status?.description ?? 'Finished');
+      const time = data.time !== null ? ` in ${data.time.toFixed(2)}s` : '';
+      writeTerminal({ stream: 'info', data: `\n[${how}${time}]\n` });
+    };
+
+    const onRunError = (message: string) => toast.error(message);
+
+    const onRunQueue = (jobs: RunJob[]) => setRunQueue(jobs);
+
+    const onPreviewUpdate = (data: { fileId: string; path: string; html: string } | null) =>
+      setPreview(data);
+
+    const onRunHistoryUpdate = () => setRunHistoryVersion((v) => v + 1);
+
+    const onSqlResult = (result: SqlRunResult) => {
+      setSqlResult(result);
+      setOutputView('results');
+    };
+
+    const onSqlSeed = (seed: string) => setSqlSeed(seed);
+
+    const onSqlReset = (data: { resetBy: string }) => {
+      setSqlResult(null);
+      setOutputView('terminal');
+      toast(`${data.resetBy} reset the database to the seed`);
+    };
+
+    // Live runs report stops in the terminal; this covers the rest
+    const onRunJob = (job: RunJob) => {
+      const what = job.kind === 'tests' ? 'test run' : 'run';
+      if (job.status === 'timed-out' && job.kind === 'tests') {
+        toast.error(`${job.userName}'s ${what} timed out`);
+      } else if (job.status === 'cancelled' && !job.startedAt && job.cancelledBy !== job.userName) {
+        toast(`${job.cancelledBy} cancelled ${job.userName}'s queued ${what}`);
       }
     };
 
-    const onLanguageUpdate = (newLanguage: string) => {
-      setLanguage(newLanguage);
+    const onTestResults = (summary: TestRunSummary) => {
+      setTestResults(summary);
+      const text = `${summary.ranBy}'s test run: ${summary.passed}/${summary.total} passed`;
+      if (summary.passed === summary.total) toast.success(text);
+      else toast.error(text);
     };
 
-    const onUsersUpdate = (usersList: any[]) => {
+    // Kicked or banned by the owner: back to the lobby
+    const onKicked = (message: string) => {
+      toast.error(message);
+      rejoinRef.current = null;
+      setIsJoined(false);
+      setKnockRequests([]);
+      setBans([]);
+      knownUsersRef.current = new Map();
+    };
+
+    const onPermissionError = (message: string) => toast.error(message);
+
+    const onUsersUpdate = (usersList: RoomUser[]) => {
       setUsers(usersList);
+
+      // Arrivals and changes to our own role; nothing for the list we join to
+      const known = knownUsersRef.current;
+      const mine = usersList.find((u) => u.socketId === s.id);
+      if (known.size && mine) {
+        usersList.forEach((u) => {
+          if (!known.has(u.userId)) notify('join', `${u.userName} joined the room`);
+        });
+        const before = known.get(mine.userId);
+        if (before && before.role !== mine.role) {
+          const how = ROLE_RANK[mine.role] > ROLE_RANK[before.role] ? 'promoted' : 'moved';
+          notify('role', `You were ${how} to ${mine.role}`);
+        }
+      }
+      knownUsersRef.current = new Map(usersList.map((u) => [u.userId, u]));
+
+      // Forget cursors of people who left or switched to another file
+      const activeFiles = new Map(
+        usersList.map((u) => [u.socketId, u.activeFileId ?? null]),
+      );
+      remoteCursorsRef.current.forEach((cursor, id) => {
+        if (activeFiles.get(id) !== cursor.fileId) {
+          remoteCursorsRef.current.delete(id);
+        }
+      });
+      cursorManagerRef.current?.retainOnly(
+        new Set(remoteCursorsRef.current.keys()),
+      );
+
       if (usersList.some((u) => u.socketId === s.id)) {
         setIsJoined(true);
       }
     };
 
-    const onNewMessage = (msg: any) => addMessage(msg);
+    const onNewMessage = (msg: ChatMessage) => {
+      addMessage(msg);
+      if (myUserId && msg.mentions.includes(myUserId)) {
+        notify('mention', `${msg.userName} mentioned you`, msg.message);
+      }
+    };
+
+    const onChatHistory = (page: ChatPage) => {
+      setChatHistory(page.messages);
+      setChatHasMore(page.hasMore);
+      setChatCursor(page.cursor);
+    };
+
+    const onMessageUpdate = (msg: ChatMessage) => updateMessage(msg);
+
+    const onChatError = (message: string) => toast.error(message);
+
+    const typistTimers = typistTimersRef.current;
+    const onChatTyping = (data: { userId: string; userName: string; typing: boolean }) => {
+      clearTimeout(typistTimers.get(data.userId));
+      typistTimers.delete(data.userId);
+      const stop = () =>
+        setTypists((prev) => {
+          const next = { ...prev };
+          delete next[data.userId];
+          return next;
+        });
+      if (!data.typing) return stop();
+      setTypists((prev) => ({ ...prev, [data.userId]: data.userName }));
+      typistTimers.set(data.userId, setTimeout(stop, TYPING_TIMEOUT_MS));
+    };
 
     const onRoomCreated = (data: { roomId: string; users: any[] }) => {
+      rejoinRef.current = { avatar: '', ...rejoinRef.current, roomId: data.roomId };
       setRoomId(data.roomId);
       setUsers(data.users);
       setCurrentUser((prev) => prev || userName);
@@ -232,43 +918,136 @@ const safeSetCode = (newCode: any) => {
 
     const onJoinError = (message: string) => {
       toast.error(message);
+      rejoinRef.current = null;
+      rejoiningRef.current = false;
       setIsJoined(false);
+      setKnocking(false);
     };
 
     const onJoinSuccess = () => {
+      rejoiningRef.current = false;
       setIsJoined(true);
+      setKnocking(false);
+      setNeedsPassword(false);
       toast.success(`Joined room ${roomIdToJoin}!`);
     };
 
+    const onPasswordRequired = (message: string) => {
+      setNeedsPassword(true);
+      toast.error(message);
+    };
+
+    const onKnockPending = () => setKnocking(true);
+
+    const onKnockRequest = (request: KnockRequest) => {
+      setKnockRequests((prev) => [
+        ...prev.filter((r) => r.socketId !== request.socketId),
+        request,
+      ]);
+      toast(`${request.userName} is asking to join`);
+    };
+
+    const onKnockResolved = ({ socketId }: { socketId: string }) =>
+      setKnockRequests((prev) => prev.filter((r) => r.socketId !== socketId));
+
     const onDisconnect = () => {
       console.log('🔌 Disconnected from server');
-      // We keep editor state; the user can refresh to reconnect.
+      // We keep editor state; the room is rejoined once Socket.IO reconnects
+      rejoiningRef.current = false;
     };
 
     s.on('connect', onConnect);
+    s.on('rejoin-required', rejoin);
     s.on('connect_error', onConnectError);
     s.on('code-update', onCodeUpdate);
-    s.on('language-update', onLanguageUpdate);
+    s.on('code-operation', onCodeOperation);
+    s.on('code-ack', onCodeAck);
+    s.on('cursor-update', onCursorUpdate);
+    s.on('files-update', onFilesUpdate);
+    s.on('file-error', onFileError);
+    s.on('save-status', onSaveStatus);
+    s.on('room-access', onRoomAccess);
+    s.on('bans-update', onBansUpdate);
+    s.on('run-input', onRunInput);
+    s.on('run-input-error', onRunInputError);
+    s.on('test-results', onTestResults);
+    s.on('run-output', onRunOutput);
+    s.on('run-started', onRunStarted);
+    s.on('run-data', onRunData);
+    s.on('run-exit', onRunExit);
+    s.on('run-error', onRunError);
+    s.on('run-queue', onRunQueue);
+    s.on('run-job', onRunJob);
+    s.on('run-history-update', onRunHistoryUpdate);
+    s.on('preview-update', onPreviewUpdate);
+    s.on('sql-result', onSqlResult);
+    s.on('sql-seed', onSqlSeed);
+    s.on('sql-reset', onSqlReset);
+    s.on('kicked', onKicked);
+    s.on('permission-error', onPermissionError);
     s.on('users-update', onUsersUpdate);
     s.on('new-message', onNewMessage);
+    s.on('chat-history', onChatHistory);
+    s.on('message-update', onMessageUpdate);
+    s.on('chat-error', onChatError);
+    s.on('chat-typing', onChatTyping);
     s.on('room-created', onRoomCreated);
     s.on('join-error', onJoinError);
     s.on('join-success', onJoinSuccess);
+    s.on('join-password-required', onPasswordRequired);
+    s.on('knock-pending', onKnockPending);
+    s.on('knock-request', onKnockRequest);
+    s.on('knock-resolved', onKnockResolved);
     s.on('disconnect', onDisconnect);
 
     return () => {
       s.off('connect', onConnect);
+      s.off('rejoin-required', rejoin);
       s.off('connect_error', onConnectError);
       s.off('code-update', onCodeUpdate);
-      s.off('language-update', onLanguageUpdate);
+      s.off('code-operation', onCodeOperation);
+      s.off('code-ack', onCodeAck);
+      s.off('cursor-update', onCursorUpdate);
+      s.off('files-update', onFilesUpdate);
+      s.off('file-error', onFileError);
+      s.off('save-status', onSaveStatus);
+      s.off('room-access', onRoomAccess);
+      s.off('bans-update', onBansUpdate);
+      s.off('run-input', onRunInput);
+      s.off('run-input-error', onRunInputError);
+      s.off('test-results', onTestResults);
+      s.off('run-output', onRunOutput);
+      s.off('run-started', onRunStarted);
+      s.off('run-data', onRunData);
+      s.off('run-exit', onRunExit);
+      s.off('run-error', onRunError);
+      s.off('run-queue', onRunQueue);
+      s.off('run-job', onRunJob);
+      s.off('run-history-update', onRunHistoryUpdate);
+      s.off('preview-update', onPreviewUpdate);
+      s.off('sql-result', onSqlResult);
+      s.off('sql-seed', onSqlSeed);
+      s.off('sql-reset', onSqlReset);
+      s.off('kicked', onKicked);
+      s.off('permission-error', onPermissionError);
       s.off('users-update', onUsersUpdate);
       s.off('new-message', onNewMessage);
+      s.off('chat-history', onChatHistory);
+      s.off('message-update', onMessageUpdate);
+      s.off('chat-error', onChatError);
+      s.off('chat-typing', onChatTyping);
+      typistTimers.forEach((timer) => clearTimeout(timer));
+      typistTimers.clear();
       s.off('room-created', onRoomCreated);
       s.off('join-error', onJoinError);
       s.off('join-success', onJoinSuccess);
+      s.off('join-password-required', onPasswordRequired);
+      s.off('knock-pending', onKnockPending);
+      s.off('knock-request', onKnockRequest);
+      s.off('knock-resolved', onKnockResolved);
       s.off('disconnect', onDisconnect);
     };
-  }, [addMessage, roomIdToJoin, safeSetCode, setUsers, setCurrentUser, setRoomId, userName]);
+  }, [sessionToken, myUserId, notify, addMessage, setChatHistory, updateMessage, roomIdToJoin, safeSetCode, setUsers, setCurrentUser, setRoomId, userName, sendOperation, applyRemoteOperation, redrawCursors, clearTerminal, writeTerminal]);
 
   // ---------- WebRTC helper ----------
   const createPeerConnection = useCallback(
@@ -412,20 +1191,12 @@ s.on('call-peers-list', onCallPeersList);
       });
     };
 
-    const onRunOutput = (data: { output: string; language: string }) => {
-  console.log('Received run-output payload:', data);
-  setOutput(data.output);
-  setLanguage(data.language);
-  // optional: sync language if you want:
-  // setLanguage(data.language);
-};
 
     s.on('user-joined-call', onUserJoinedCall);
     s.on('webrtc-offer', onWebrtcOffer);
     s.on('webrtc-answer', onWebrtcAnswer);
     s.on('webrtc-ice-candidate', onWebrtcIceCandidate);
     s.on('user-left-call', onUserLeftCall);
-    s.on('run-output', onRunOutput);
 
     return () => {
       s.off('user-joined-call', onUserJoinedCall);
@@ -434,7 +1205,6 @@ s.on('call-peers-list', onCallPeersList);
       s.off('webrtc-ice-candidate', onWebrtcIceCandidate);
       s.off('user-left-call', onUserLeftCall);
       s.off('call-peers-list', onCallPeersList);
-      s.off('run-output', onRunOutput);
     };
   }, [localStream, roomId, createPeerConnection]);
 
@@ -524,7 +1294,6 @@ s.on('call-peers-list', onCallPeersList);
   // ---------- Room join/create ----------
   const joinRoom = () => {
     const s = socketRef.current;
-    if (!userName.trim()) return toast.error('Enter your name!');
     if (!roomIdToJoin.trim()) return toast.error('Room ID is required!');
     if (!avatar) return toast.error('Please choose an avatar!');
     if (!s || !s.connected) return toast.error('Not connected to server yet');
@@ -533,33 +1302,156 @@ s.on('call-peers-list', onCallPeersList);
     setRoomId(rid);
     setCurrentUser(userName);
 
-    s.emit('join-room', { roomId: rid, userName, avatar });
+    rejoinRef.current = {
+      roomId: rid,
+      avatar,
+      password: roomPassword || undefined,
+      invite: inviteToken || undefined,
+    };
+    s.emit('join-room', rejoinRef.current);
+  };
+
+  const cancelKnock = () => {
+    socketRef.current?.emit('knock-cancel');
+    setKnocking(false);
+  };
+
+  const answerKnock = (socketId: string, admit: boolean) => {
+    socketRef.current?.emit('knock-response', { roomId, socketId, admit });
+    setKnockRequests((prev) => prev.filter((r) => r.socketId !== socketId));
+  };
+
+  // ---------- Moderation (owner only) ----------
+  const moderate = (event: string, payload: Record<string, unknown>) => {
+    socketRef.current?.emit(event, { roomId, ...payload });
+  };
+
+  const kickUser = (user: RoomUser) => {
+    if (window.confirm(`Remove ${user.userName} from the room?`)) {
+      moderate('moderate-kick', { userId: user.userId });
+    }
+  };
+
+  const banUser = (user: RoomUser) => {
+    if (window.confirm(`Ban ${user.userName}? They won't be able to rejoin this room.`)) {
+      moderate('moderate-ban', { userId: user.userId });
+    }
   };
 
   const handleCreateRoom = () => {
     const s = socketRef.current;
-    if (!userName.trim()) return toast.error('Enter your name!');
     if (!roomNameForCreation.trim())
       return toast.error('Enter a room name!');
     if (!avatar) return toast.error('Please choose an avatar!');
     if (!s || !s.connected) return toast.error('Not connected to server yet');
 
     setCurrentUser(userName);
-    s.emit('create-room', { roomName: roomNameForCreation, userName, avatar });
+    rejoinRef.current = { avatar };
+    s.emit('create-room', { roomName: roomNameForCreation, avatar });
   };
 
   // ---------- Chat ----------
   const sendMessage = () => {
     const s = socketRef.current;
-    if (!inputMessage.trim() || !s || !roomId) return;
+    if (!inputMessage.trim() || !s || !roomId || chatMuted) return;
 
     s.emit('chat-message', {
       roomId,
       message: inputMessage,
-      userName: currentUser || userName || 'Anonymous',
       avatar,
+      replyTo: replyingTo?.id,
     });
     setInputMessage('');
+    setReplyingTo(null);
+    // The server tells the room we've stopped typing
+    typingSentAtRef.current = 0;
+  };
+
+  const changeChatInput = (value: string) => {
+    setInputMessage(value);
+    const s = socketRef.current;
+    if (!s || !roomId) return;
+    if (!value) {
+      if (typingSentAtRef.current) s.emit('chat-typing', { roomId, typing: false });
+      typingSentAtRef.current = 0;
+    } else if (Date.now() - typingSentAtRef.current > TYPING_REFRESH_MS) {
+      s.emit('chat-typing', { roomId, typing: true });
+      typingSentAtRef.current = Date.now();
+    }
+  };
+
+  const reactToMessage = (messageId: string, emoji: string) =>
+    socketRef.current?.emit('chat-react', { roomId, messageId, emoji });
+
+  const editMessage = (messageId: string, message: string) =>
+    socketRef.current?.emit('chat-edit', { roomId, messageId, message });
+
+  const deleteMessage = (messageId: string) =>
+    socketRef.current?.emit('chat-delete', { roomId, messageId });
+
+  // Posts the selected code as a fenced block headed by its file and lines
+  const shareSelection = () => {
+    const ed = editorRef.current;
+    const selection = ed?.getSelection();
+    const model = ed?.getModel();
+    if (!ed || !selection || !model || selection.isEmpty()) {
+      return toast.error('Select some code to send first');
+    }
+    if (chatMuted) return toast.error('You have been muted in chat');
+
+    const text = model.getValueInRange(selection).replace(/\n$/, '');
+    const { startLineNumber: from, endLineNumber: to } = selection;
+    const where = `${activeFilePath ?? 'untitled'}:${from === to ? from : `${from}-${to}`}`;
+    // Longer than any run of backticks in the code, so it can't close early
+    const fence = '`'.repeat(Math.max(3, ...(text.match(/`+/g) ?? []).map((run) => run.length + 1)));
+    const message = `**${where}**\n${fence}${language}\n${text}\n${fence}`;
+    if (message.length > MAX_CHAT_MESSAGE_LENGTH) {
+      return toast.error('That selection is too long to send to chat');
+    }
+    socketRef.current?.emit('chat-message', { roomId, message, avatar });
+  };
+
+  useEffect(() => {
+    shareSelectionRef.current = shareSelection;
+  });
+
+  // A code block from chat, in place of the selection, as an ordinary edit
+  // that syncs like typing
+  const insertIntoEditor = (text: string) => {
+    const ed = editorRef.current;
+    const selection = ed?.getSelection();
+    if (!ed || !selection) return;
+    ed.executeEdits('chat', [{ range: selection, text, forceMoveMarkers: true }]);
+    ed.pushUndoStop();
+    ed.focus();
+  };
+
+  const loadOlderMessages = async () => {
+    if (!roomId || !chatCursor) return;
+    setLoadingOlderChat(true);
+    try {
+      const page = await apiRequest<ChatPage>(
+        `/api/rooms/${roomId}/messages?before=${encodeURIComponent(chatCursor)}`,
+      );
+      prependMessages(page.messages);
+      setChatHasMore(page.hasMore);
+      setChatCursor(page.cursor);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setLoadingOlderChat(false);
+    }
+  };
+
+  // ---------- Workspace files ----------
+  const emitFileEvent = (event: string, payload: Record<string, unknown>) => {
+    const s = socketRef.current;
+    if (!s || !roomId) return;
+    s.emit(event, { roomId, ...payload });
+  };
+
+  const openFile = (fileId: string) => {
+    if (fileId !== activeFileId) emitFileEvent('file-open', { fileId });
   };
 
   // ---------- Share ----------
@@ -570,55 +1462,109 @@ s.on('call-peers-list', onCallPeersList);
     toast.success('Room link copied!');
   };
 
-  // ---------- Run code via Judge0 ----------
-  const runCode = async (codeToRun: string, lang: string) => {
-  if (!codeToRun.trim()) {
-    toast.error('Nothing to run');
-    return;
-  }
+  // ---------- Run input ----------
+  const changeRunInput = (next: RunInput) => {
+    setRunInput(next);
+    if (runInputTimerRef.current) clearTimeout(runInputTimerRef.current);
+    runInputTimerRef.current = setTimeout(() => {
+      socketRef.current?.emit('run-input-change', { roomId, runInput: next });
+    }, 400);
+  };
 
-  setIsRunning(true);
-  setOutput('');
+  // ---------- Live runs ----------
+  const startRun = () => {
+    const s = socketRef.current;
+    if (!s || !roomId) return toast.error('No room to run code in');
+    // Web pages "run" in the preview pane instead
+    if (languageInfo?.runner === 'preview') {
+      return s.emit('preview-set', { roomId, fileId: activeFileId });
+    }
+    if (cannotRun) return toast.error(`${languageInfo.label} can't be run`);
+    if (!code.trim()) return toast.error('Nothing to run');
+    s.emit('run-start', { roomId });
+  };
 
-  try {
-    const res = await fetch(`${API_BASE_URL}/api/run`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ code: codeToRun, language: lang }),
+  const stopRun = () => socketRef.current?.emit('run-stop', { roomId });
+
+  // ---------- Web preview ----------
+  const togglePreview = () =>
+    socketRef.current?.emit('preview-set', { roomId, fileId: preview ? null : activeFileId });
+
+  const previewConsole = (level: PreviewConsoleLevel, text: string) =>
+    writeTerminal({
+      stream: level === 'error' || level === 'warn' ? 'stderr' : 'stdout',
+      data: `[preview] ${text}\n`,
     });
 
-    const data = await res.json();
+  // ---------- SQL playground ----------
+  const saveSqlSeed = (seed: string) => socketRef.current?.emit('sql-seed-set', { roomId, seed });
+
+  const resetSqlDatabase = () => socketRef.current?.emit('sql-reset', { roomId });
 
-    if (!res.ok) {
-      throw new Error(data.error || 'Execution failed');
+  // Each compile error belongs to the workspace file it names, if we have it
+  const filePaths = useMemo(
+    () => new Map(files.filter((f) => f.type === 'file').map((f) => [pathOf(files, f.id), f.id])),
+    [files],
+  );
+  const compileDiagnostics = useMemo(
+    () =>
+      compileErrors
+        ? locateDiagnostics(compileErrors.diagnostics, [...filePaths.keys()], compileErrors.entry)
+        : [],
+    [compileErrors, filePaths],
+  );
+
+  // Compile errors show as squiggles in whichever file they're in
+  const activeFilePath = activeFileId ? pathOf(files, activeFileId) : null;
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+    monaco.editor.setModelMarkers(
+      model,
+      'compile',
+      compileDiagnostics.filter((d) => d.file === activeFilePath).map((d) => {
+        const line = Math.min(d.line, model.getLineCount());
+        return {
+          startLineNumber: line,
+          startColumn: d.column,
+          endLineNumber: line,
+          endColumn: model.getLineMaxColumn(line),
+          message: d.message,
+          severity:
+            d.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+        };
+      }),
+    );
+  }, [compileDiagnostics, activeFilePath]);
+
+  // Compiler output and SQL results only get tabs when there's something in them
+  const outputViews: { view: OutputView; label: string }[] = [
+    { view: 'terminal', label: `Terminal (${language})` },
+    { view: 'stdout', label: 'stdout' },
+    { view: 'stderr', label: 'stderr' },
+    ...(runOutput.compile ? [{ view: 'compile' as const, label: 'Compile' }] : []),
+    ...(sqlResult ? [{ view: 'results' as const, label: 'Results' }] : []),
+  ];
+
+  // Errors in other files open them first, then jump once they've loaded
+  const jumpToDiagnostic = (d: CompileDiagnostic) => {
+    const fileId = d.file ? filePaths.get(d.file) : undefined;
+    if (!fileId || fileId === activeFileId) {
+      revealPosition(editorRef.current, d.line, d.column);
+      return;
     }
+    pendingRevealRef.current = { fileId, line: d.line, column: d.column };
+    openFile(fileId);
+  };
 
-    let out = '';
-    if (data.stdout) out += data.stdout;
-    if (data.stderr) out += (out ? '\n' : '') + data.stderr;
-    if (data.compile_output)
-      out += (out ? '\n' : '') + data.compile_output;
+  const rerun = (runId: string) => socketRef.current?.emit('run-rerun', { roomId, runId });
 
-    const finalOutput = out || '(no output)';
-    setOutput(finalOutput);
+  const cancelJob = (jobId: string) => socketRef.current?.emit('run-cancel', { roomId, jobId });
+
+  const sendRunStdin = (data: string) =>
+    socketRef.current?.emit('run-stdin', { roomId, data });
 
-    // 🔥 Broadcast this output to everyone in the room
-    const s = socketRef.current;
-    if (s && roomId) {
-      s.emit('run-output', {
-        roomId,
-        output: finalOutput,
-        language: lang,
-      });
-    }
-  } catch (err: any) {
-    console.error(err);
-    setOutput(`Error: ${err.message || 'Run failed'}`);
-    toast.error(err.message || 'Run failed');
-  } finally {
-    setIsRunning(false);
-  }
-};
   // ---------------- LOGIN / ROOM SELECTION ----------------
   if (!isJoined) {
     return (
@@ -634,8 +1580,26 @@ s.on('call-peers-list', onCallPeersList);
             Code With Bandhu
           </h1>
 
+          {session && (
+            <div className="mb-6 flex items-center justify-between rounded-lg bg-slate-800/50 px-3 py-2 text-sm">
+              <span className="text-slate-300">
+                Signed in as{' '}
+                <span className="font-semibold text-white">{session.user.username}</span>
+                {session.user.guest && <span className="text-slate-500"> (guest)</span>}
+              </span>
+              <button
+                onClick={signOut}
+                className="flex items-center gap-1 text-xs text-purple-400 hover:text-purple-300"
+              >
+                <LogOut size={14} /> Sign out
+              </button>
+            </div>
+          )}
+
           <AnimatePresence mode="wait">
-            {view === 'join' ? (
+            {!session ? (
+              <AuthPanel onAuthenticated={handleAuthenticated} />
+            ) : view === 'join' ? (
               <motion.div
                 key="join"
                 initial={{ opacity: 0, x: -20 }}
@@ -646,14 +1610,6 @@ s.on('call-peers-list', onCallPeersList);
                   Join a Room
                 </h2>
                 <div className="space-y-4">
-                  <input
-                    type="text"
-                    value={userName}
-                    onChange={(e) => setUserName(e.target.value)}
-                    placeholder="Your Name"
-                    className="w-full p-3 bg-slate-800/50 border border-purple-500/30 rounded-lg focus:ring-purple-500 text-white"
-                  />
-
                   <div>
                     <p className="text-xs text-slate-400 mb-2">
                       Choose an avatar:
@@ -690,12 +1646,39 @@ s.on('call-peers-list', onCallPeersList);
                     placeholder="Room ID"
                     className="w-full p-3 bg-slate-800/50 border border-purple-500/30 rounded-lg font-mono text-center text-lg focus:ring-purple-500 text-white"
                   />
-                  <button
-                    onClick={joinRoom}
-                    className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 py-3 rounded-lg font-semibold flex items-center justify-center gap-2"
-                  >
-                    <LogIn size={18} /> Join Room
-                  </button>
+                  {inviteToken && (
+                    <p className="text-xs text-emerald-300">
+                      You're joining with an invite link.
+                    </p>
+                  )}
+                  {needsPassword && (
+                    <input
+                      type="password"
+                      value={roomPassword}
+                      onChange={(e) => setRoomPassword(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && joinRoom()}
+                      placeholder="Room password"
+                      className="w-full p-3 bg-slate-800/50 border border-purple-500/30 rounded-lg focus:ring-purple-500 text-white"
+                    />
+                  )}
+                  {knocking ? (
+                    <div className="flex items-center justify-between rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-3 text-sm text-amber-200">
+                      <span>Waiting for the owner to let you in…</span>
+                      <button
+                        onClick={cancelKnock}
+                        className="text-xs font-semibold text-amber-300 hover:text-amber-100"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={joinRoom}
+                      className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 py-3 rounded-lg font-semibold flex items-center justify-center gap-2"
+                    >
+                      <LogIn size={18} /> Join Room
+                    </button>
+                  )}
                 </div>
               </motion.div>
             ) : (
@@ -709,14 +1692,6 @@ s.on('call-peers-list', onCallPeersList);
                   Create a Room
                 </h2>
                 <div className="space-y-4">
-                  <input
-                    type="text"
-                    value={userName}
-                    onChange={(e) => setUserName(e.target.value)}
-                    placeholder="Your Name"
-                    className="w-full p-3 bg-slate-800/50 border border-purple-500/30 rounded-lg focus:ring-purple-500 text-white"
-                  />
-
                   <div>
                     <p className="text-xs text-slate-400 mb-2">
                       Choose an avatar:
@@ -764,7 +1739,7 @@ s.on('call-peers-list', onCallPeersList);
             )}
           </AnimatePresence>
 
-          <div className="mt-8 text-center">
+          <div className={`mt-8 text-center ${session ? '' : 'hidden'}`}>
             <p className="text-sm text-slate-400">
               {view === 'join'
                 ? "Don't have a room?"
@@ -789,6 +1764,55 @@ s.on('call-peers-list', onCallPeersList);
     <div className="relative flex min-h-screen flex-col bg-[#050816] text-white overflow-y-auto">
       <Toaster position="top-right" />
 
+      {showHistory && (
+        <HistoryPanel
+          roomId={roomId}
+          canEdit={canEdit}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showRunHistory && (
+        <RunHistoryPanel
+          roomId={roomId}
+          canEdit={canEdit}
+          currentCode={code}
+          refreshKey={runHistoryVersion}
+          onRerun={rerun}
+          onClose={() => setShowRunHistory(false)}
+        />
+      )}
+
+      {showSqlSeed && (
+        <SqlSeedPanel
+          seed={sqlSeed}
+          isOwner={isOwner}
+          canEdit={canEdit}
+          onSave={saveSqlSeed}
+          onReset={resetSqlDatabase}
+          onClose={() => setShowSqlSeed(false)}
+        />
+      )}
+
+      {showTests && (
+        <TestsPanel
+          roomId={roomId}
+          canEdit={canEdit}
+          isOwner={isOwner}
+          code={code}
+          language={language}
+          runInput={runInput}
+          results={testResults}
+          onClose={() => setShowTests(false)}
+        />
+      )}
+
+      {showAccess && <AccessPanel roomId={roomId} onClose={() => setShowAccess(false)} />}
+
+      {showPlayback && (
+        <PlaybackView roomId={roomId} onClose={() => setShowPlayback(false)} />
+      )}
+
       <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(circle_at_20%_20%,rgba(129,140,248,0.12),transparent_55%),radial-gradient(circle_at_80%_80%,rgba(244,114,182,0.1),transparent_55%)] opacity-80" />
 
       <header className="relative z-20 flex items-center justify-between border-b border-purple-500/30 bg-black/60 px-6 py-3 backdrop-blur-xl">
@@ -807,23 +1831,47 @@ s.on('call-peers-list', onCallPeersList);
             <p className="text-[11px] text-slate-400">
               Room{' '}
               <span className="font-mono text-purple-300">{roomId}</span>
+              <span
+                className={`ml-2 ${
+                  saveStatus.status === 'saved'
+                    ? 'text-emerald-400/80'
+                    : 'text-amber-300/90'
+                }`}
+                title={
+                  saveStatus.savedAt
+                    ? `Last saved ${new Date(saveStatus.savedAt).toLocaleString()}`
+                    : undefined
+                }
+              >
+                •{' '}
+                {saveStatus.status === 'saving'
+                  ? 'Saving…'
+                  : saveStatus.status === 'unsaved'
+                    ? 'Unsaved changes'
+                    : 'All changes saved'}
+              </span>
             </p>
           </div>
 
           <select
             value={language}
+            disabled={!activeFileId || !canEdit}
             onChange={(e) => {
-              const newLang = e.target.value;
-              setLanguage(newLang);
               const s = socketRef.current;
-              if (s && roomId) {
-                s.emit('language-change', { roomId, language: newLang });
+              if (s && roomId && activeFileId) {
+                s.emit('language-change', {
+                  roomId,
+                  fileId: activeFileId,
+                  language: e.target.value,
+                });
               }
             }}
             className="ml-4 rounded-full border border-purple-500/40 bg-slate-950/80 px-4 py-1.5 text-xs text-slate-100 focus:outline-none focus:ring-2 focus:ring-purple-500/70"
           >
-            {ALL_LANGUAGES.map((lang) => (
-              <option key={lang.value} value={lang.value}>
+            {/* Until the list loads, at least show what the file is */}
+            {!languageInfo && <option value={language}>{language}</option>}
+            {languages.map((lang) => (
+              <option key={lang.id} value={lang.id}>
                 {lang.label}
               </option>
             ))}
@@ -852,36 +1900,125 @@ s.on('call-peers-list', onCallPeersList);
             </motion.button>
           )}
 
-          {/* Run Button */}
+          {/* Run Button: queued runs can be taken back, a live run stopped */}
           <motion.button
-  onClick={() => {
-    if (!roomId) {
-      toast.error('No room to run code in');
-      return;
-    }
+            onClick={myQueuedRun ? () => cancelJob(myQueuedRun.jobId) : isRunning ? stopRun : startRun}
+            whileHover={{ scale: canEdit ? 1.05 : 1 }}
+            disabled={!canEdit || (cannotRun && !isRunning && !myQueuedRun)}
+            title={cannotRun ? `${languageInfo.label} can't be run on this server` : undefined}
+            className={`flex items-center gap-2 rounded-full px-4 py-1.5 text-xs font-semibold shadow-md disabled:cursor-not-allowed disabled:opacity-50 ${
+              myQueuedRun
+                ? 'bg-gradient-to-r from-amber-600 to-yellow-500 shadow-amber-500/40'
+                : isRunning
+                  ? 'bg-gradient-to-r from-red-600 to-rose-500 shadow-red-500/40'
+                  : 'bg-gradient-to-r from-emerald-500 to-lime-500 shadow-emerald-500/40'
+            }`}
+          >
+            <span>
+              {myQueuedRun ? `Queued #${myQueuedRun.position} · Cancel` : isRunning ? 'Stop' : 'Run'}
+            </span>
+          </motion.button>
+          {runningJob && (
+            <span className="text-[11px] text-amber-200">
+              {runningJob.kind === 'tests'
+                ? `${runningJob.userName} is running tests`
+                : `Run in progress by ${runningJob.userName}`}
+              {queuedJobs.length > 0 && ` · ${queuedJobs.length} queued`}
+            </span>
+          )}
 
-    const codeToRun = code;
-    const langToRun = language;
+          {/* Web preview: shared by the room, for HTML files */}
+          {(preview || languageInfo?.runner === 'preview') && (
+            <motion.button
+              onClick={togglePreview}
+              whileHover={{ scale: canEdit ? 1.05 : 1 }}
+              disabled={!canEdit}
+              className="flex items-center gap-1 rounded-full border border-purple-500/40 bg-slate-900/80 px-3 py-1.5 text-xs font-semibold disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <Globe className="h-3 w-3" />
+              <span>{preview ? 'Close preview' : 'Preview'}</span>
+            </motion.button>
+          )}
 
-    if (!codeToRun.trim()) {
-      toast.error('Nothing to run');
-      return;
-    }
+          {/* SQL rooms: the seed script and reset */}
+          {languageInfo?.runner === 'sql' && (
+            <motion.button
+              onClick={() => setShowSqlSeed(true)}
+              whileHover={{ scale: 1.05 }}
+              className="flex items-center gap-1 rounded-full border border-purple-500/40 bg-slate-900/80 px-3 py-1.5 text-xs font-semibold"
+            >
+              <Database className="h-3 w-3" />
+              <span>Database</span>
+            </motion.button>
+          )}
 
-    // Run locally; runCode will broadcast output to others
-    runCode(codeToRun, langToRun);
-  }}
-            whileHover={{ scale: isRunning ? 1 : 1.05 }}
-            disabled={isRunning}
-            className={`flex items-center gap-2 rounded-full px-4 py-1.5 text-xs font-semibold shadow-md ${
-              isRunning
-                ? 'bg-gray-600 cursor-not-allowed'
-                : 'bg-gradient-to-r from-emerald-500 to-lime-500 shadow-emerald-500/40'
-            }`}
+          {/* Test cases */}
+          <motion.button
+            onClick={() => setShowTests(true)}
+            whileHover={{ scale: 1.05 }}
+            className="flex items-center gap-1 rounded-full border border-purple-500/40 bg-slate-900/80 px-3 py-1.5 text-xs font-semibold"
+          >
+            <FlaskConical className="h-3 w-3" />
+            <span>Tests</span>
+            {testResults && (
+              <span
+                className={
+                  testResults.passed === testResults.total ? 'text-emerald-300' : 'text-red-300'
+                }
+              >
+                {testResults.passed}/{testResults.total}
+              </span>
+            )}
+          </motion.button>
+
+          {/* Version history */}
+          <motion.button
+            onClick={() => setShowHistory(true)}
+            whileHover={{ scale: 1.05 }}
+            className="flex items-center gap-1 rounded-full border border-purple-500/40 bg-slate-900/80 px-3 py-1.5 text-xs font-semibold"
           >
-            <span>{isRunning ? 'Running…' : 'Run'}</span>
+            <History className="h-3 w-3" />
+            <span>History</span>
           </motion.button>
 
+          {/* Past runs */}
+          <motion.button
+            onClick={() => setShowRunHistory(true)}
+            whileHover={{ scale: 1.05 }}
+            className="flex items-center gap-1 rounded-full border border-purple-500/40 bg-slate-900/80 px-3 py-1.5 text-xs font-semibold"
+          >
+            <ScrollText className="h-3 w-3" />
+            <span>Runs</span>
+          </motion.button>
+
+          {/* Session replay */}
+          <motion.button
+            onClick={() => setShowPlayback(true)}
+            whileHover={{ scale: 1.05 }}
+            className="flex items-center gap-1 rounded-full border border-purple-500/40 bg-slate-900/80 px-3 py-1.5 text-xs font-semibold"
+          >
+            <Film className="h-3 w-3" />
+            <span>Replay</span>
+          </motion.button>
+
+          {/* Password, knock-to-join and invite links */}
+          {isOwner && (
+            <motion.button
+              onClick={() => setShowAccess(true)}
+              whileHover={{ scale: 1.05 }}
+              className="flex items-center gap-1 rounded-full border border-purple-500/40 bg-slate-900/80 px-3 py-1.5 text-xs font-semibold"
+            >
+              <Lock className="h-3 w-3" />
+              <span>Access</span>
+            </motion.button>
+          )}
+
+          <NotificationCenter
+            notifications={notifications}
+            onOpen={openNotifications}
+            onClear={() => setNotifications([])}
+          />
+
           {/* Share Button */}
           <motion.button
             onClick={copyLink}
@@ -898,6 +2035,34 @@ s.on('call-peers-list', onCallPeersList);
       </header>
 
       <div className="relative z-10 flex flex-1 overflow-hidden">
+        {/* File Explorer */}
+        <div className="w-56 p-3 pr-0">
+          <motion.div
+            initial={{ x: -200 }}
+            animate={{ x: 0 }}
+            transition={{ type: 'spring', stiffness: 90, damping: 16 }}
+            className="h-full rounded-2xl border border-purple-500/30 bg-black/70 backdrop-blur-2xl overflow-hidden"
+          >
+            <FileExplorer
+              files={files}
+              activeFileId={activeFileId}
+              users={users}
+              onOpen={openFile}
+              onCreate={(parentId, name, type) =>
+                emitFileEvent('file-create', { parentId, name, type })
+              }
+              onRename={(fileId, name) =>
+                emitFileEvent('file-rename', { fileId, name })
+              }
+              onMove={(fileId, parentId) =>
+                emitFileEvent('file-move', { fileId, parentId })
+              }
+              onDelete={(fileId) => emitFileEvent('file-delete', { fileId })}
+              readOnly={!canEdit}
+            />
+          </motion.div>
+        </div>
+
         {/* Editor Area */}
         <div className="relative flex-1 p-3">
           <motion.div
@@ -905,54 +2070,141 @@ s.on('call-peers-list', onCallPeersList);
             animate={{ opacity: 1, y: 0 }}
             className="h-full overflow-hidden rounded-2xl border border-purple-500/30 bg-black/60 shadow-[0_0_40px_rgba(129,140,248,0.25)] flex flex-col"
           >
-            {/* Editor */}
-            <div className="flex-1 min-h-0">
-              <Editor
-                height="100%"
-                width="100%"
-                language={language}
-                value={code}
-                onChange={(value) => {
-                  const s = socketRef.current;
-                  if (value !== undefined) {
+            {/* Editor, with the web preview beside it when open */}
+            <div className="flex flex-1 min-h-0">
+              <div className="min-w-0 flex-1">
+                <Editor
+                  height="100%"
+                  width="100%"
+                  language={languageInfo?.monaco ?? language}
+                  defaultValue={code}
+                  onMount={handleEditorMount}
+                  onChange={(value, event) => {
+                    if (value === undefined) return;
                     safeSetCode(value);
-                    if (s && roomId && s.connected) {
-                      s.emit('code-change', {
-                        roomId,
-                        code: value,
-                        userId: s.id,
-                      });
-                    }
-                  }
-                }}
-                theme="vs-dark"
-                options={{
-                  fontSize: 15,
-                  minimap: { enabled: true },
-                  wordWrap: 'on',
-                  automaticLayout: true,
-                  fontFamily: 'JetBrains Mono, monospace',
-                }}
-              />
+                    // Edits we applied on behalf of others are already on the server
+                    if (applyingRemoteRef.current) return;
+                    otClientRef.current?.applyClient(
+                      operationFromMonacoChanges(event.changes, value.length),
+                    );
+                  }}
+                  theme="vs-dark"
+                  options={{
+                    fontSize: 15,
+                    minimap: { enabled: true },
+                    wordWrap: 'on',
+                    automaticLayout: true,
+                    fontFamily: 'JetBrains Mono, monospace',
+                    readOnly: !activeFileId || !canEdit,
+                  }}
+                />
+              </div>
+              {preview && (
+                <div className="w-1/2 border-l border-purple-500/30">
+                  <PreviewPane
+                    path={preview.path}
+                    html={preview.html}
+                    onClose={canEdit ? togglePreview : undefined}
+                    onConsole={previewConsole}
+                  />
+                </div>
+              )}
             </div>
 
-            {/* Output */}
-            <div className="h-32 border-t border-purple-500/30 bg-black/90 px-3 py-2 text-xs font-mono overflow-auto">
-              <div className="text-[10px] text-slate-400 mb-1">
-                Output (via Judge0, language: {language})
-              </div>
-              {output ? (
-                output.split('\n').map((line, idx) => (
-                  <div
-                    key={idx}
-                    className="text-slate-100 whitespace-pre-wrap"
+            <RunInputPanel
+              key={runInputKey}
+              value={runInput}
+              readOnly={!canEdit}
+              policy={runLimitsPolicy}
+              language={languageInfo}
+              onChange={changeRunInput}
+            />
+
+            {/* Terminal */}
+            <div className="flex h-48 flex-col border-t border-purple-500/30 bg-[#020617]">
+              <div className="flex items-center gap-2 px-3 py-1 text-[10px] text-slate-400">
+                {outputViews.map(({ view, label }) => (
+                  <button
+                    key={view}
+                    onClick={() => setOutputView(view)}
+                    className={outputView === view ? 'text-white' : 'hover:text-white'}
                   >
-                    {line}
-                  </div>
-                ))
+                    {label}
+                  </button>
+                ))}
+                {lastExit && !activeRun && (
+                  <span>
+                    ·{' '}
+                    <span
+                      className={
+                        lastExit.status?.id === ACCEPTED_STATUS ? 'text-emerald-300' : 'text-red-300'
+                      }
+                    >
+                      {lastExit.stoppedBy
+                        ? `Stopped by ${lastExit.stoppedBy}`
+                        : (lastExit.status?.description ?? 'Finished')}
+                    </span>
+                    {lastExit.exitCode !== null && ` · exit ${lastExit.exitCode}`}
+                    {lastExit.time !== null && ` · ${lastExit.time.toFixed(2)}s`}
+                    {lastExit.memory !== null && ` · ${formatMemory(lastExit.memory)}`}
+                  </span>
+                )}
+                {activeRun && (
+                  <span className="text-emerald-300">· running, started by {activeRun.startedBy}</span>
+                )}
+                {queuedJobs.map((job) => (
+                  <span
+                    key={job.jobId}
+                    className="flex items-center gap-1 rounded bg-slate-800 px-1.5 text-slate-300"
+                  >
+                    #{job.position} {job.userName}
+                    {job.kind === 'tests' ? ' (tests)' : ''}
+                    {(job.userId === me?.userId || myRole === 'owner') && (
+                      <button title="Cancel" onClick={() => cancelJob(job.jobId)}>
+                        <X className="h-3 w-3 hover:text-red-400" />
+                      </button>
+                    )}
+                  </span>
+                ))}
+                {activeRun && canEdit && (
+                  <button
+                    onClick={stopRun}
+                    className="ml-auto rounded bg-red-600/80 px-2 py-0.5 font-semibold text-white"
+                  >
+                    Stop
+                  </button>
+                )}
+              </div>
+              {outputView === 'results' && sqlResult ? (
+                <div className="min-h-0 flex-1 px-3 pb-1">
+                  <SqlResultView result={sqlResult} />
+                </div>
+              ) : outputView === 'stdout' || outputView === 'stderr' || outputView === 'compile' ? (
+                <div className="min-h-0 flex-1 px-3 pb-1 text-slate-200">
+                  <RunOutputView
+                    text={runOutput[outputView]}
+                    diagnostics={outputView === 'compile' ? compileDiagnostics : undefined}
+                    showFiles={filePaths.size > 1}
+                    onJump={jumpToDiagnostic}
+                    className={
+                      outputView === 'stderr'
+                        ? 'text-red-300'
+                        : outputView === 'compile'
+                          ? 'text-amber-300'
+                          : ''
+                    }
+                    empty={`Nothing on ${outputView === 'compile' ? 'the compiler output' : outputView}.`}
+                  />
+                </div>
               ) : (
-                <div className="text-slate-600">
-                  Press Run to execute code…
+                <div className="min-h-0 flex-1 px-2 pb-1">
+                  <RunTerminal
+                    ref={terminalRef}
+                    getBacklog={() => terminalLogRef.current}
+                    acceptsInput={isRunning && canEdit}
+                    onInput={sendRunStdin}
+                    onInterrupt={() => isRunning && canEdit && stopRun()}
+                  />
                 </div>
               )}
             </div>
@@ -972,7 +2224,71 @@ s.on('call-peers-list', onCallPeersList);
               <h3 className="mb-2 flex items-center gap-2 text-sm font-semibold text-purple-200">
                 <Users className="h-4 w-4 text-green-400" />
                 Online ({users.length})
+                {isOwner && (
+                  <button
+                    onClick={() => moderate('moderate-lock', { locked: !roomAccess.locked })}
+                    title={roomAccess.locked ? 'Unlock the room' : 'Lock the room: nobody new can join'}
+                    className={`ml-auto rounded p-1 ${
+                      roomAccess.locked ? 'bg-red-500/20 text-red-300' : 'text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    {roomAccess.locked ? <Lock className="h-3 w-3" /> : <LockOpen className="h-3 w-3" />}
+                  </button>
+                )}
+                {!isOwner && roomAccess.locked && (
+                  <span className="ml-auto flex items-center gap-1 text-[10px] font-normal text-red-300">
+                    <Lock className="h-3 w-3" /> Locked
+                  </span>
+                )}
+                {isOwner && (
+                  <label className="flex items-center gap-1 text-[10px] font-normal text-slate-400">
+                    New joiners
+                    <select
+                      value={roomAccess.defaultRole}
+                      onChange={(e) =>
+                        socketRef.current?.emit('set-default-role', {
+                          roomId,
+                          role: e.target.value,
+                        })
+                      }
+                      className="rounded border border-purple-500/40 bg-slate-950 px-1 py-0.5 text-slate-200"
+                    >
+                      <option value="editor">can edit</option>
+                      <option value="viewer">view only</option>
+                    </select>
+                  </label>
+                )}
               </h3>
+              {isOwner && knockRequests.length > 0 && (
+                <div className="mb-2 space-y-1 rounded-lg border border-amber-500/40 bg-amber-500/10 p-2 text-xs">
+                  <p className="font-semibold text-amber-200">Waiting to join</p>
+                  {knockRequests.map((request) => (
+                    <div key={request.socketId} className="flex items-center gap-2">
+                      <img
+                        src={request.avatar || '/avatars/avatar1.png'}
+                        alt={request.userName}
+                        className="h-5 w-5 rounded-full object-cover"
+                      />
+                      <span className="flex-1 truncate text-slate-100">
+                        {request.userName}
+                        {request.guest ? ' (guest)' : ''}
+                      </span>
+                      <button
+                        onClick={() => answerKnock(request.socketId, true)}
+                        className="rounded bg-emerald-600 px-2 py-0.5 text-[10px] font-semibold"
+                      >
+                        Admit
+                      </button>
+                      <button
+                        onClick={() => answerKnock(request.socketId, false)}
+                        className="rounded bg-slate-700 px-2 py-0.5 text-[10px] font-semibold"
+                      >
+                        Deny
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="max-h-40 space-y-2 overflow-y-auto">
                 {users.map((user: any) => (
                   <motion.div
@@ -984,17 +2300,91 @@ s.on('call-peers-list', onCallPeersList);
                     <img
                       src={user.avatar || '/avatars/avatar1.png'}
                       alt={user.userName}
-                      className="h-8 w-8 rounded-full object-cover flex-shrink-0"
+                      className="h-8 w-8 rounded-full object-cover flex-shrink-0 border-2"
+                      // Same colour as their cursor in the editor
+                      style={{ borderColor: colorForUser(user) }}
                     />
-                    <span className="text-slate-100 truncate">
+                    <span className="flex-1 text-slate-100 truncate">
                       {user.userName}{' '}
                       {user.socketId === socketRef.current?.id
                         ? '(You)'
                         : ''}
                     </span>
+                    {user.muted?.chat && (
+                      <MessageSquareOff className="h-3 w-3 flex-shrink-0 text-amber-400" aria-label="Muted in chat" />
+                    )}
+                    {user.muted?.edit && (
+                      <PenOff className="h-3 w-3 flex-shrink-0 text-amber-400" aria-label="Muted from editing" />
+                    )}
+                    {isOwner && user.role !== 'owner' ? (
+                      <select
+                        value={user.role}
+                        onChange={(e) =>
+                          socketRef.current?.emit('set-role', {
+                            roomId,
+                            userId: user.userId,
+                            role: e.target.value,
+                          })
+                        }
+                        className="rounded border border-purple-500/40 bg-slate-950 px-1 py-0.5 text-[10px] text-slate-200"
+                      >
+                        <option value="editor">editor</option>
+                        <option value="viewer">viewer</option>
+                      </select>
+                    ) : (
+                      <span className="rounded-full bg-slate-800 px-2 py-0.5 text-[10px] text-slate-400">
+                        {user.role}
+                      </span>
+                    )}
+                    {isOwner && user.role !== 'owner' && (
+                      <div className="flex items-center gap-1">
+                        <button
+                          title={user.muted?.chat ? 'Unmute in chat' : 'Mute in chat'}
+                          onClick={() => moderate('moderate-mute', { userId: user.userId, chat: !user.muted?.chat })}
+                        >
+                          <MessageSquareOff
+                            className={`h-3 w-3 ${user.muted?.chat ? 'text-amber-400' : 'text-slate-500 hover:text-white'}`}
+                          />
+                        </button>
+                        <button
+                          title={user.muted?.edit ? 'Allow editing' : 'Mute from editing'}
+                          onClick={() => moderate('moderate-mute', { userId: user.userId, edit: !user.muted?.edit })}
+                        >
+                          <PenOff
+                            className={`h-3 w-3 ${user.muted?.edit ? 'text-amber-400' : 'text-slate-500 hover:text-white'}`}
+                          />
+                        </button>
+                        <button title="Kick" onClick={() => kickUser(user)}>
+                          <UserX className="h-3 w-3 text-slate-500 hover:text-red-400" />
+                        </button>
+                        <button title="Ban" onClick={() => banUser(user)}>
+                          <Ban className="h-3 w-3 text-slate-500 hover:text-red-400" />
+                        </button>
+                      </div>
+                    )}
                   </motion.div>
                 ))}
               </div>
+              {isOwner && bans.length > 0 && (
+                <details className="mt-2 text-xs text-slate-400">
+                  <summary className="cursor-pointer">Banned ({bans.length})</summary>
+                  <div className="mt-1 space-y-1">
+                    {bans.map((ban) => (
+                      <div key={ban.userId} className="flex items-center gap-2">
+                        <span className="flex-1 truncate">
+                          {ban.userName} · by {ban.bannedBy}
+                        </span>
+                        <button
+                          onClick={() => moderate('moderate-unban', { userId: ban.userId })}
+                          className="rounded bg-slate-700 px-2 py-0.5 text-[10px] font-semibold text-slate-100"
+                        >
+                          Unban
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              )}
             </div>
 
             {/* Chat + Video */}
@@ -1004,58 +2394,91 @@ s.on('call-peers-list', onCallPeersList);
                 <div className="flex items-center gap-2 border-b border-purple-500/30 px-3 py-2 text-xs font-semibold text-blue-200 flex-shrink-0">
                   <MessageSquare className="h-4 w-4 text-blue-400" />
                   Room Chat
+                  <button
+                    onClick={shareSelection}
+                    disabled={chatMuted}
+                    title="Send the editor's selection to chat (Ctrl+Shift+M)"
+                    className="ml-auto text-slate-400 hover:text-white disabled:opacity-50"
+                  >
+                    <TextSelect className="h-4 w-4" />
+                  </button>
                 </div>
 
                 <div className="flex-1 space-y-2 overflow-y-auto px-4 py-3 text-xs">
-                  {messages.map((msg: any) => (
-                    <motion.div
-                      key={msg.id}
-                      initial={{ opacity: 0, y: 10 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      className="flex items-start gap-2 my-1 pr-1"
+                  {chatHasMore && (
+                    <button
+                      onClick={loadOlderMessages}
+                      disabled={loadingOlderChat}
+                      className="mx-auto block rounded-full bg-slate-800/80 px-3 py-1 text-[10px] text-slate-300 hover:text-white disabled:opacity-50"
                     >
-                      <img
-                        src={msg.avatar || '/avatars/avatar1.png'}
-                        alt={msg.userName}
-                        className="h-6 w-6 rounded-full object-cover flex-shrink-0"
-                      />
-                      <div
-                        className={`rounded-lg border px-3 py-2 text-left ${
-                          msg.userId === socketRef.current?.id
-                            ? 'border-blue-500/40 bg-blue-600/70'
-                            : 'border-slate-600/60 bg-slate-800/80'
-                        }`}
-                        style={{
-                          maxWidth: 'calc(100% - 60px)',
-                          wordWrap: 'break-word',
-                        }}
+                      {loadingOlderChat ? 'Loading…' : 'Load earlier messages'}
+                    </button>
+                  )}
+                  {messages.map((msg: any) =>
+                    msg.system ? (
+                      <p
+                        key={msg.id}
+                        className="my-1 text-center text-[10px] italic text-slate-500"
                       >
-                        <p className="mb-0.5 text-[10px] font-bold opacity-80">
-                          {msg.userName}
-                        </p>
-                        <p className="text-[11px] break-words">
-                          {msg.message}
-                        </p>
-                      </div>
-                    </motion.div>
-                  ))}
+                        {msg.message}
+                      </p>
+                    ) : (
+                      <ChatMessageItem
+                        key={msg.id}
+                        message={msg}
+                        myUserId={session?.user.id}
+                        isOwner={isOwner}
+                        canChat={!chatMuted}
+                        languages={languages}
+                        onInsert={canEdit && activeFileId ? insertIntoEditor : undefined}
+                        onReply={setReplyingTo}
+                        onReact={reactToMessage}
+                        onEdit={editMessage}
+                        onDelete={deleteMessage}
+                      />
+                    ),
+                  )}
                 </div>
 
+                {Object.keys(typists).length > 0 && (
+                  <p className="px-4 pb-1 text-[10px] italic text-slate-400">
+                    {typingLabel(Object.values(typists))}
+                  </p>
+                )}
+
+                {replyingTo && (
+                  <div className="flex items-center gap-2 border-t border-purple-500/30 px-3 py-1 text-[10px] text-slate-300">
+                    <CornerUpLeft className="h-3 w-3 flex-shrink-0 text-blue-400" />
+                    <span className="truncate">
+                      Replying to <span className="font-semibold">{replyingTo.userName}</span>:{' '}
+                      <span className="italic">{replyingTo.message}</span>
+                    </span>
+                    <button
+                      onClick={() => setReplyingTo(null)}
+                      title="Cancel reply"
+                      className="ml-auto text-slate-400 hover:text-white"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                )}
+
                 <div className="flex gap-2 border-t border-purple-500/30 px-2 py-2 flex-shrink-0">
-                  <input
-                    type="text"
+                  <MentionInput
                     value={inputMessage}
-                    onChange={(e) => setInputMessage(e.target.value)}
-                    onKeyDown={(e) =>
-                      e.key === 'Enter' && sendMessage()
-                    }
-                    placeholder="Type a message…"
-                    className="flex-1 rounded-lg border border-blue-500/40 bg-slate-950/70 px-3 py-2 text-[11px] text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500/60"
+                    onChange={changeChatInput}
+                    onSubmit={sendMessage}
+                    onEscape={() => setReplyingTo(null)}
+                    people={mentionNames}
+                    disabled={chatMuted}
+                    placeholder={chatMuted ? 'You have been muted in chat' : 'Type a message… (@ to mention)'}
+                    className="w-full rounded-lg border border-blue-500/40 bg-slate-950/70 px-3 py-2 text-[11px] text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500/60"
                   />
                   <motion.button
                     onClick={sendMessage}
+                    disabled={chatMuted}
                     whileHover={{ scale: 1.05 }}
-                    className="rounded-lg bg-gradient-to-r from-blue-600 to-indigo-600 px-3 py-2 text-[11px] font-semibold shadow shadow-blue-500/40"
+                    className="disabled:opacity-50 rounded-lg bg-gradient-to-r from-blue-600 to-indigo-600 px-3 py-2 text-[11px] font-semibold shadow shadow-blue-500/40"
                   >
                     Send
                   </motion.button>
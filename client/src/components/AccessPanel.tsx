@@ -0,0 +1,251 @@
+// src/components/AccessPanel.tsx
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Copy, Link2, Lock, Trash2, X } from 'lucide-react';
+import { apiRequest } from '../lib/api';
+import type { RoomInvite } from '../types';
+
+interface AccessPanelProps {
+  roomId: string;
+  onClose: () => void;
+}
+
+interface AccessSettings {
+  hasPassword: boolean;
+  knockToJoin: boolean;
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 7 * 24, label: '7 days' },
+  { hours: 30 * 24, label: '30 days' },
+];
+
+const inviteUrl = (roomId: string, token: string) => {
+  const params = new URLSearchParams({ room: roomId, invite: token });
+  return `${window.location.origin}${window.location.pathname}?${params}`;
+};
+
+const AccessPanel = ({ roomId, onClose }: AccessPanelProps) => {
+  const [settings, setSettings] = useState<AccessSettings | null>(null);
+  const [password, setPassword] = useState('');
+  const [invites, setInvites] = useState<RoomInvite[]>([]);
+  const [expiresInHours, setExpiresInHours] = useState(24);
+  const [maxUses, setMaxUses] = useState('');
+  const [role, setRole] = useState<'editor' | 'viewer'>('editor');
+  const [lastLink, setLastLink] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadInvites = useCallback(async () => {
+    try {
+      setInvites(await apiRequest<RoomInvite[]>(`/api/rooms/${roomId}/invites`));
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    apiRequest<AccessSettings>(`/api/rooms/${roomId}/access`)
+      .then(setSettings)
+      .catch((err: Error) => toast.error(err.message));
+    apiRequest<RoomInvite[]>(`/api/rooms/${roomId}/invites`)
+      .then(setInvites)
+      .catch((err: Error) => toast.error(err.message));
+  }, [roomId]);
+
+  const updateAccess = async (body: { password?: string | null; knockToJoin?: boolean }) => {
+    setBusy(true);
+    try {
+      setSettings(
+        await apiRequest<AccessSettings>(`/api/rooms/${roomId}/access`, {
+          method: 'PUT',
+          body,
+        }),
+      );
+      setPassword('');
+      toast.success('Room access updated');
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createInvite = async () => {
+    setBusy(true);
+    try {
+      const { token } = await apiRequest<{ invite: RoomInvite; token: string }>(
+        `/api/rooms/${roomId}/invites`,
+        {
+          method: 'POST',
+          body: { expiresInHours, maxUses: maxUses ? Number(maxUses) : null, role },
+        },
+      );
+      const link = inviteUrl(roomId, token);
+      setLastLink(link);
+      await navigator.clipboard.writeText(link).catch(() => undefined);
+      toast.success('Invite link created and copied');
+      loadInvites();
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revokeInvite = async (invite: RoomInvite) => {
+    try {
+      await apiRequest(`/api/rooms/${roomId}/invites/${invite._id}`, { method: 'DELETE' });
+      toast.success('Invite revoked');
+      loadInvites();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6 backdrop-blur-sm">
+      <div className="flex max-h-full w-full max-w-lg flex-col overflow-hidden rounded-2xl border border-purple-500/30 bg-slate-950/95">
+        <div className="flex items-center justify-between border-b border-purple-500/30 px-4 py-3">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-purple-200">
+            <Lock className="h-4 w-4" /> Room access
+          </h2>
+          <button onClick={onClose} title="Close">
+            <X className="h-4 w-4 text-slate-400 hover:text-white" />
+          </button>
+        </div>
+
+        <div className="space-y-5 overflow-y-auto p-4 text-xs text-slate-300">
+          {/* Password */}
+          <section className="space-y-2">
+            <h3 className="font-semibold text-slate-100">Password</h3>
+            <p className="text-slate-500">
+              {settings?.hasPassword
+                ? 'Anyone without an invite must enter the password.'
+                : 'No password: anyone with the room ID can join.'}
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={settings?.hasPassword ? 'New password' : 'Set a password'}
+                className="flex-1 rounded-lg border border-purple-500/40 bg-slate-900 px-2 py-1.5 text-slate-100 placeholder-slate-500 focus:outline-none"
+              />
+              <button
+                onClick={() => updateAccess({ password })}
+                disabled={busy || !password}
+                className="rounded-lg bg-purple-600 px-3 font-semibold disabled:opacity-50"
+              >
+                Save
+              </button>
+              {settings?.hasPassword && (
+                <button
+                  onClick={() => updateAccess({ password: null })}
+                  disabled={busy}
+                  className="rounded-lg border border-slate-600 px-3 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          </section>
+
+          {/* Knock to join */}
+          <section>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={!!settings?.knockToJoin}
+                disabled={busy || !settings}
+                onChange={(e) => updateAccess({ knockToJoin: e.target.checked })}
+                className="accent-purple-500"
+              />
+              <span>
+                <span className="font-semibold text-slate-100">Knock to join</span>
+                <span className="block text-slate-500">
+                  Newcomers wait until you let them in. Members and invitees skip the queue.
+                </span>
+              </span>
+            </label>
+          </section>
+
+          {/* Invites */}
+          <section className="space-y-2">
+            <h3 className="font-semibold text-slate-100">Invite links</h3>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={expiresInHours}
+                onChange={(e) => setExpiresInHours(Number(e.target.value))}
+                className="rounded border border-purple-500/40 bg-slate-900 px-2 py-1 text-slate-100"
+              >
+                {EXPIRY_OPTIONS.map((o) => (
+                  <option key={o.hours} value={o.hours}>
+                    Expires in {o.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                value={maxUses}
+                onChange={(e) => setMaxUses(e.target.value)}
+                placeholder="Max uses (∞)"
+                className="w-28 rounded border border-purple-500/40 bg-slate-900 px-2 py-1 text-slate-100 placeholder-slate-500"
+              />
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as 'editor' | 'viewer')}
+                className="rounded border border-purple-500/40 bg-slate-900 px-2 py-1 text-slate-100"
+              >
+                <option value="editor">as editor</option>
+                <option value="viewer">as viewer</option>
+              </select>
+              <button
+                onClick={createInvite}
+                disabled={busy}
+                className="flex items-center gap-1 rounded-lg bg-purple-600 px-3 py-1 font-semibold disabled:opacity-50"
+              >
+                <Link2 className="h-3 w-3" /> Create link
+              </button>
+            </div>
+
+            {lastLink && (
+              <div className="flex items-center gap-2 rounded-lg bg-slate-900 px-2 py-1.5">
+                <span className="flex-1 truncate font-mono text-[10px] text-slate-400">{lastLink}</span>
+                <button
+                  title="Copy"
+                  onClick={() => navigator.clipboard.writeText(lastLink).then(() => toast.success('Copied'))}
+                >
+                  <Copy className="h-3 w-3 text-slate-400 hover:text-white" />
+                </button>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              {invites.length === 0 && <p className="text-slate-500">No active invites.</p>}
+              {invites.map((invite) => (
+                <div
+                  key={invite._id}
+                  className="flex items-center justify-between rounded-lg border border-purple-500/20 px-2 py-1.5"
+                >
+                  <span>
+                    {invite.role} · {invite.uses}
+                    {invite.maxUses ? `/${invite.maxUses}` : ''} used · expires{' '}
+                    {new Date(invite.expiresAt).toLocaleString()}
+                  </span>
+                  <button title="Revoke" onClick={() => revokeInvite(invite)}>
+                    <Trash2 className="h-3 w-3 text-slate-400 hover:text-red-400" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccessPanel;
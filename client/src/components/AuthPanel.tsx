@@ -0,0 +1,161 @@
+// src/components/AuthPanel.tsx
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { LogIn, UserPlus, UserRound } from 'lucide-react';
+import { apiRequest } from '../lib/api';
+import type { AuthSession } from '../types';
+
+interface AuthPanelProps {
+  onAuthenticated: (session: AuthSession) => void;
+}
+
+type Mode = 'login' | 'register' | 'guest';
+
+const MODES: { id: Mode; label: string }[] = [
+  { id: 'login', label: 'Sign in' },
+  { id: 'register', label: 'Register' },
+  { id: 'guest', label: 'Guest' },
+];
+
+const inputClass =
+  'w-full p-3 bg-slate-800/50 border border-purple-500/30 rounded-lg focus:ring-purple-500 text-white';
+
+const AuthPanel = ({ onAuthenticated }: AuthPanelProps) => {
+  const [mode, setMode] = useState<Mode>('login');
+  const [login, setLogin] = useState('');
+  const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const submit = async () => {
+    setBusy(true);
+    try {
+      const session =
+        mode === 'login'
+          ? await apiRequest<AuthSession>('/api/auth/login', {
+              method: 'POST',
+              body: { login, password },
+            })
+          : mode === 'register'
+            ? await apiRequest<AuthSession>('/api/auth/register', {
+                method: 'POST',
+                body: { username, email, password },
+              })
+            : await apiRequest<AuthSession>('/api/auth/guest', {
+                method: 'POST',
+                body: { username },
+              });
+      onAuthenticated(session);
+      toast.success(`Welcome, ${session.user.username}!`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <motion.div
+      key="auth"
+      initial={{ opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 20 }}
+    >
+      <div className="mb-4 flex rounded-lg bg-slate-800/50 p-1 text-sm">
+        {MODES.map((m) => (
+          <button
+            key={m.id}
+            onClick={() => setMode(m.id)}
+            className={`flex-1 rounded-md py-1.5 font-semibold ${
+              mode === m.id ? 'bg-purple-600 text-white' : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        {mode === 'login' ? (
+          <input
+            type="text"
+            value={login}
+            onChange={(e) => setLogin(e.target.value)}
+            placeholder="Username or email"
+            autoComplete="username"
+            className={inputClass}
+          />
+        ) : (
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder={mode === 'guest' ? 'Display name' : 'Username'}
+            autoComplete="username"
+            className={inputClass}
+          />
+        )}
+
+        {mode === 'register' && (
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            autoComplete="email"
+            className={inputClass}
+          />
+        )}
+
+        {mode !== 'guest' && (
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+            className={inputClass}
+          />
+        )}
+
+        {mode === 'guest' && (
+          <p className="text-xs text-slate-400">
+            Guests can join and edit, but nothing ties your work to an account.
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={busy}
+          className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 py-3 rounded-lg font-semibold flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {mode === 'login' && (
+            <>
+              <LogIn size={18} /> Sign in
+            </>
+          )}
+          {mode === 'register' && (
+            <>
+              <UserPlus size={18} /> Create account
+            </>
+          )}
+          {mode === 'guest' && (
+            <>
+              <UserRound size={18} /> Continue as guest
+            </>
+          )}
+        </button>
+      </form>
+    </motion.div>
+  );
+};
+
+export default AuthPanel;
@@ -0,0 +1,113 @@
+// src/components/ChatMessageBody.tsx
+import { isValidElement, useEffect, useState, type ReactNode } from 'react';
+import Markdown from 'react-markdown';
+import { useMonaco } from '@monaco-editor/react';
+import toast from 'react-hot-toast';
+import { ClipboardCopy, CornerDownLeft } from 'lucide-react';
+import type { LanguageInfo } from '../types';
+
+interface ChatMessageBodyProps {
+  text: string;
+  languages: LanguageInfo[];
+  // Puts a code block into the open file; left out when we can't edit it
+  onInsert?: (code: string) => void;
+}
+
+// A fence's info string ("cpp", "py", "javascript") as a Monaco language id
+const monacoLanguage = (info: string, languages: LanguageInfo[]): string => {
+  const name = info.toLowerCase();
+  const known = languages.find((l) => l.id === name || l.extensions.includes(name));
+  return known?.monaco ?? (name || 'plaintext');
+};
+
+interface CodeBlockProps {
+  code: string;
+  language: string;
+  onInsert?: (code: string) => void;
+}
+
+// Highlighted by Monaco's own tokenizer, so it looks the way it does in the editor
+const CodeBlock = ({ code, language, onInsert }: CodeBlockProps) => {
+  const monaco = useMonaco();
+  const [html, setHtml] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!monaco) return;
+    let current = true;
+    monaco.editor
+      .colorize(code, language, { tabSize: 4 })
+      .then((colored) => current && setHtml(colored))
+      .catch(() => undefined);
+    return () => {
+      current = false;
+    };
+  }, [monaco, code, language]);
+
+  const copy = () =>
+    navigator.clipboard.writeText(code).then(
+      () => toast.success('Copied'),
+      () => toast.error('Could not copy'),
+    );
+
+  return (
+    <div className="group relative my-1 overflow-hidden rounded border border-slate-700 bg-[#1e1e1e]">
+      <div className="absolute right-1 top-1 flex gap-1 opacity-0 transition group-hover:opacity-100">
+        <button onClick={copy} title="Copy" className="rounded bg-slate-800 p-1 hover:bg-slate-700">
+          <ClipboardCopy className="h-3 w-3" />
+        </button>
+        {onInsert && (
+          <button
+            onClick={() => onInsert(code)}
+            title="Insert into the editor (replaces the selection)"
+            className="rounded bg-slate-800 p-1 hover:bg-slate-700"
+          >
+            <CornerDownLeft className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      {/* colorize() escapes the code itself; the markup is only its spans */}
+      {html !== null ? (
+        <pre
+          className="overflow-x-auto p-2 font-mono text-[11px]"
+          dangerouslySetInnerHTML={{ __html: html }}
+        />
+      ) : (
+        <pre className="overflow-x-auto p-2 font-mono text-[11px]">{code}</pre>
+      )}
+    </div>
+  );
+};
+
+/**
+ * A chat message as markdown. Raw HTML in it is shown as text; fenced code
+ * blocks are highlighted and can be copied or inserted into the editor.
+ */
+const ChatMessageBody = ({ text, languages, onInsert }: ChatMessageBodyProps) => (
+  <div className="space-y-1 text-[11px] break-words [&_ol]:list-decimal [&_ol]:pl-4 [&_ul]:list-disc [&_ul]:pl-4">
+    <Markdown
+      components={{
+        pre: ({ children }) => {
+          // A fenced block: <pre><code class="language-x">…</code></pre>
+          const child = isValidElement<{ className?: string; children?: ReactNode }>(children)
+            ? children
+            : null;
+          const code = String(child?.props.children ?? '').replace(/\n$/, '');
+          const info = /language-(\S+)/.exec(child?.props.className ?? '')?.[1] ?? '';
+          return <CodeBlock code={code} language={monacoLanguage(info, languages)} onInsert={onInsert} />;
+        },
+        code: ({ children }) => (
+          <code className="rounded bg-slate-900/80 px-1 font-mono text-[10px]">{children}</code>
+        ),
+        a: ({ href, children }) => (
+          <a href={href} target="_blank" rel="noopener noreferrer" className="text-sky-300 underline">
+            {children}
+          </a>
+        ),
+      }}
+    >
+      {text}
+    </Markdown>
+  </div>
+);
+
+export default ChatMessageBody;
@@ -0,0 +1,200 @@
+// src/components/ChatMessageItem.tsx
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { CornerUpLeft, Pencil, SmilePlus, Trash2 } from 'lucide-react';
+import ChatMessageBody from './ChatMessageBody';
+import type { ChatMessage, LanguageInfo } from '../types';
+
+// The reactions offered in the picker
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '🎉', '😮', '👀', '🚀', '🙏'];
+
+interface ChatMessageItemProps {
+  message: ChatMessage;
+  // Our account id, to spot our own messages and reactions
+  myUserId: string | undefined;
+  // Owners can delete anyone's messages
+  isOwner: boolean;
+  // False while we're muted in chat
+  canChat: boolean;
+  languages: LanguageInfo[];
+  onInsert?: (code: string) => void;
+  onReply: (message: ChatMessage) => void;
+  onReact: (messageId: string, emoji: string) => void;
+  onEdit: (messageId: string, text: string) => void;
+  onDelete: (messageId: string) => void;
+}
+
+/**
+ * One message someone typed: the parent it replies to, its text (or an
+ * editor for it, while its author is rewording it), reactions grouped by
+ * emoji, and actions that show on hover.
+ */
+const ChatMessageItem = ({
+  message,
+  myUserId,
+  isOwner,
+  canChat,
+  languages,
+  onInsert,
+  onReply,
+  onReact,
+  onEdit,
+  onDelete,
+}: ChatMessageItemProps) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [picking, setPicking] = useState(false);
+  const mine = message.userId === myUserId;
+  const mentionsMe = !!myUserId && message.mentions.includes(myUserId);
+
+  const reactions = new Map<string, { names: string[]; mine: boolean }>();
+  message.reactions.forEach((r) => {
+    const entry = reactions.get(r.emoji) ?? { names: [], mine: false };
+    entry.names.push(r.userName);
+    entry.mine ||= r.userId === myUserId;
+    reactions.set(r.emoji, entry);
+  });
+
+  const saveEdit = () => {
+    if (draft === null) return;
+    if (draft.trim() && draft !== message.message) onEdit(message.id, draft);
+    setDraft(null);
+  };
+
+  const react = (emoji: string) => {
+    setPicking(false);
+    onReact(message.id, emoji);
+  };
+
+  const remove = () => {
+    if (window.confirm(mine ? 'Delete your message?' : `Delete ${message.userName}'s message?`)) {
+      onDelete(message.id);
+    }
+  };
+
+  const actionClass = 'rounded p-0.5 text-slate-400 hover:bg-slate-700 hover:text-white';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="group/message my-1 flex items-start gap-2 pr-1"
+    >
+      <img
+        src={message.avatar || '/avatars/avatar1.png'}
+        alt={message.userName}
+        className="h-6 w-6 flex-shrink-0 rounded-full object-cover"
+      />
+      <div className="min-w-0 flex-1">
+        <div
+          className={`relative inline-block max-w-full rounded-lg border px-3 py-2 text-left ${
+            mine
+              ? 'border-blue-500/40 bg-blue-600/70'
+              : mentionsMe
+                ? 'border-amber-400/70 bg-amber-500/20'
+                : 'border-slate-600/60 bg-slate-800/80'
+          }`}
+          style={{ wordWrap: 'break-word' }}
+        >
+          <p className="mb-0.5 text-[10px] font-bold opacity-80">
+            {message.userName}
+            {message.editedAt && !message.deleted && (
+              <span className="ml-1 font-normal italic opacity-70">(edited)</span>
+            )}
+          </p>
+
+          {message.replyTo && (
+            <div className="mb-1 border-l-2 border-slate-400/60 pl-2 text-[10px] opacity-80">
+              <span className="font-semibold">{message.replyTo.userName}</span>{' '}
+              <span className="italic">{message.replyTo.excerpt || 'Deleted message'}</span>
+            </div>
+          )}
+
+          {message.deleted ? (
+            <p className="text-[11px] italic opacity-70">This message was deleted</p>
+          ) : draft !== null ? (
+            <div className="space-y-1">
+              <textarea
+                autoFocus
+                rows={3}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    saveEdit();
+                  }
+                  if (e.key === 'Escape') setDraft(null);
+                }}
+                className="w-64 max-w-full rounded border border-slate-500 bg-slate-950/80 px-2 py-1 text-[11px] text-slate-100 focus:outline-none"
+              />
+              <div className="flex gap-2 text-[10px]">
+                <button onClick={saveEdit} className="font-semibold text-sky-200">
+                  Save
+                </button>
+                <button onClick={() => setDraft(null)} className="text-slate-300">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <ChatMessageBody text={message.message} languages={languages} onInsert={onInsert} />
+          )}
+
+          {!message.deleted && draft === null && (
+            <div className="absolute -top-3 right-1 hidden gap-0.5 rounded border border-slate-600 bg-slate-900 px-0.5 group-hover/message:flex">
+              {canChat && (
+                <>
+                  <button onClick={() => setPicking((p) => !p)} title="React" className={actionClass}>
+                    <SmilePlus className="h-3 w-3" />
+                  </button>
+                  <button onClick={() => onReply(message)} title="Reply" className={actionClass}>
+                    <CornerUpLeft className="h-3 w-3" />
+                  </button>
+                </>
+              )}
+              {mine && canChat && (
+                <button onClick={() => setDraft(message.message)} title="Edit" className={actionClass}>
+                  <Pencil className="h-3 w-3" />
+                </button>
+              )}
+              {(mine || isOwner) && (
+                <button onClick={remove} title="Delete" className={actionClass}>
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {picking && (
+          <div className="mt-1 flex gap-1">
+            {REACTION_EMOJIS.map((emoji) => (
+              <button key={emoji} onClick={() => react(emoji)} className="rounded px-0.5 hover:bg-slate-700">
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {reactions.size > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {Array.from(reactions, ([emoji, { names, mine: reacted }]) => (
+              <button
+                key={emoji}
+                onClick={() => canChat && react(emoji)}
+                title={names.join(', ')}
+                className={`rounded-full border px-1.5 text-[10px] ${
+                  reacted ? 'border-sky-400/70 bg-sky-500/20' : 'border-slate-600 bg-slate-800/80'
+                }`}
+              >
+                {emoji} {names.length}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default ChatMessageItem;
@@ -0,0 +1,303 @@
+// src/components/FileExplorer.tsx
+import { useMemo, useState, type DragEvent, type ReactNode } from 'react';
+import {
+  ChevronDown,
+  ChevronRight,
+  FileCode,
+  FilePlus,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Pencil,
+  Trash2,
+} from 'lucide-react';
+import type { RoomUser, WorkspaceFile } from '../types';
+
+interface FileExplorerProps {
+  files: WorkspaceFile[];
+  activeFileId: string | null;
+  users: RoomUser[];
+  onOpen: (fileId: string) => void;
+  onCreate: (parentId: string | null, name: string, type: 'file' | 'folder') => void;
+  onRename: (fileId: string, name: string) => void;
+  onMove: (fileId: string, parentId: string | null) => void;
+  onDelete: (fileId: string) => void;
+  // Viewers can browse and open files, nothing else
+  readOnly?: boolean;
+}
+
+type Draft =
+  | { mode: 'create'; parentId: string | null; type: 'file' | 'folder' }
+  | { mode: 'rename'; fileId: string };
+
+// Folders first, then alphabetical
+const byTypeThenName = (a: WorkspaceFile, b: WorkspaceFile) =>
+  a.type !== b.type
+    ? a.type === 'folder'
+      ? -1
+      : 1
+    : a.name.localeCompare(b.name);
+
+const FileExplorer = ({
+  files,
+  activeFileId,
+  users,
+  onOpen,
+  onCreate,
+  onRename,
+  onMove,
+  onDelete,
+  readOnly = false,
+}: FileExplorerProps) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null | undefined>(undefined);
+
+  const childrenOf = useMemo(() => {
+    const map = new Map<string | null, WorkspaceFile[]>();
+    files.forEach((file) => {
+      const siblings = map.get(file.parentId) || [];
+      siblings.push(file);
+      map.set(file.parentId, siblings);
+    });
+    map.forEach((siblings) => siblings.sort(byTypeThenName));
+    return map;
+  }, [files]);
+
+  // New entries go into the folder of whatever is selected
+  const selectedFolderId = () => {
+    const active = files.find((f) => f.id === activeFileId);
+    return active ? active.parentId : null;
+  };
+
+  const startCreate = (type: 'file' | 'folder', parentId = selectedFolderId()) => {
+    if (parentId) {
+      setCollapsed((prev) => {
+        const next = new Set(prev);
+        next.delete(parentId);
+        return next;
+      });
+    }
+    setDraft({ mode: 'create', parentId, type });
+    setDraftName('');
+  };
+
+  const commitDraft = () => {
+    const name = draftName.trim();
+    if (draft && name) {
+      if (draft.mode === 'create') onCreate(draft.parentId, name, draft.type);
+      else onRename(draft.fileId, name);
+    }
+    setDraft(null);
+    setDraftName('');
+  };
+
+  const toggleFolder = (id: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDrop = (e: DragEvent, parentId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(undefined);
+    const fileId = e.dataTransfer.getData('text/plain');
+    if (fileId && fileId !== parentId) onMove(fileId, parentId);
+  };
+
+  const draftInput = (depth: number) => (
+    <input
+      autoFocus
+      value={draftName}
+      onChange={(e) => setDraftName(e.target.value)}
+      onBlur={commitDraft}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commitDraft();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      placeholder={
+        draft?.mode === 'create' && draft.type === 'folder'
+          ? 'folder name'
+          : 'file name'
+      }
+      className="my-0.5 w-full rounded border border-purple-500/50 bg-slate-950/80 px-2 py-0.5 text-[11px] text-slate-100 focus:outline-none"
+      style={{ marginLeft: depth * 12 }}
+    />
+  );
+
+  const renderEntries = (parentId: string | null, depth: number): ReactNode => {
+    const entries = childrenOf.get(parentId) || [];
+    return (
+      <>
+        {entries.map((entry) => {
+          const isFolder = entry.type === 'folder';
+          const isOpen = isFolder && !collapsed.has(entry.id);
+          const isRenaming = draft?.mode === 'rename' && draft.fileId === entry.id;
+          const viewers = users.filter((u) => u.activeFileId === entry.id);
+
+          return (
+            <div key={entry.id}>
+              {isRenaming ? (
+                draftInput(depth)
+              ) : (
+                <div
+                  draggable={!readOnly}
+                  onDragStart={(e) => e.dataTransfer.setData('text/plain', entry.id)}
+                  onDragOver={(e) => {
+                    if (!isFolder || readOnly) return;
+                    e.preventDefault();
+                    e.stopPropagation();
+                    setDropTarget(entry.id);
+                  }}
+                  onDragLeave={() => isFolder && setDropTarget(undefined)}
+                  onDrop={(e) => isFolder && handleDrop(e, entry.id)}
+                  onClick={() => (isFolder ? toggleFolder(entry.id) : onOpen(entry.id))}
+                  className={`group flex cursor-pointer items-center gap-1 rounded px-1 py-0.5 text-[11px] ${
+                    entry.id === activeFileId
+                      ? 'bg-purple-600/40 text-white'
+                      : dropTarget === entry.id
+                        ? 'bg-indigo-600/30 text-slate-100'
+                        : 'text-slate-300 hover:bg-slate-800/80'
+                  }`}
+                  style={{ paddingLeft: depth * 12 + 4 }}
+                >
+                  {isFolder ? (
+                    <>
+                      {isOpen ? (
+                        <ChevronDown className="h-3 w-3 flex-shrink-0" />
+                      ) : (
+                        <ChevronRight className="h-3 w-3 flex-shrink-0" />
+                      )}
+                      {isOpen ? (
+                        <FolderOpen className="h-3.5 w-3.5 flex-shrink-0 text-amber-300" />
+                      ) : (
+                        <Folder className="h-3.5 w-3.5 flex-shrink-0 text-amber-300" />
+                      )}
+                    </>
+                  ) : (
+                    <FileCode className="ml-3 h-3.5 w-3.5 flex-shrink-0 text-sky-300" />
+                  )}
+                  <span className="flex-1 truncate">{entry.name}</span>
+
+                  {/* Who has this file open */}
+                  <div className="flex -space-x-1">
+                    {viewers.slice(0, 3).map((u) => (
+                      <img
+                        key={u.socketId}
+                        src={u.avatar || '/avatars/avatar1.png'}
+                        alt={u.userName}
+                        title={u.userName}
+                        className="h-4 w-4 rounded-full border border-slate-900 object-cover"
+                      />
+                    ))}
+                  </div>
+
+                  <div
+                    className={`hidden items-center gap-0.5 ${readOnly ? '' : 'group-hover:flex'}`}
+                  >
+                    {isFolder && (
+                      <>
+                        <button
+                          title="New file"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            startCreate('file', entry.id);
+                          }}
+                        >
+                          <FilePlus className="h-3 w-3 text-slate-400 hover:text-white" />
+                        </button>
+                        <button
+                          title="New folder"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            startCreate('folder', entry.id);
+                          }}
+                        >
+                          <FolderPlus className="h-3 w-3 text-slate-400 hover:text-white" />
+                        </button>
+                      </>
+                    )}
+                    <button
+                      title="Rename"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setDraft({ mode: 'rename', fileId: entry.id });
+                        setDraftName(entry.name);
+                      }}
+                    >
+                      <Pencil className="h-3 w-3 text-slate-400 hover:text-white" />
+                    </button>
+                    <button
+                      title="Delete"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        const what = isFolder ? `folder "${entry.name}" and its contents` : `"${entry.name}"`;
+                        if (window.confirm(`Delete ${what}?`)) onDelete(entry.id);
+                      }}
+                    >
+                      <Trash2 className="h-3 w-3 text-slate-400 hover:text-red-400" />
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {isOpen && (
+                <>
+                  {renderEntries(entry.id, depth + 1)}
+                  {draft?.mode === 'create' &&
+                    draft.parentId === entry.id &&
+                    draftInput(depth + 1)}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </>
+    );
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between border-b border-purple-500/30 px-3 py-2 text-xs font-semibold text-purple-200">
+        <span>Files</span>
+        <div className={`flex items-center gap-1 ${readOnly ? 'hidden' : ''}`}>
+          <button title="New file" onClick={() => startCreate('file')}>
+            <FilePlus className="h-4 w-4 text-slate-400 hover:text-white" />
+          </button>
+          <button title="New folder" onClick={() => startCreate('folder')}>
+            <FolderPlus className="h-4 w-4 text-slate-400 hover:text-white" />
+          </button>
+        </div>
+      </div>
+
+      {/* Dropping onto empty space moves things back to the root */}
+      <div
+        className={`flex-1 overflow-y-auto px-1 py-2 ${
+          dropTarget === null ? 'bg-indigo-600/10' : ''
+        }`}
+        onDragOver={(e) => {
+          if (readOnly) return;
+          e.preventDefault();
+          setDropTarget(null);
+        }}
+        onDragLeave={() => setDropTarget(undefined)}
+        onDrop={(e) => handleDrop(e, null)}
+      >
+        {renderEntries(null, 0)}
+        {draft?.mode === 'create' && draft.parentId === null && draftInput(0)}
+        {files.length === 0 && !draft && (
+          <p className="px-2 text-[11px] text-slate-500">
+            No files yet — create one to start coding.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FileExplorer;
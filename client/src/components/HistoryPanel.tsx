@@ -0,0 +1,260 @@
+// src/components/HistoryPanel.tsx
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import toast from 'react-hot-toast';
+import { Bookmark, Clock, History, RotateCcw, X } from 'lucide-react';
+import { apiRequest } from '../lib/api';
+import type { RoomRevision, StoredFile } from '../types';
+
+interface HistoryPanelProps {
+  roomId: string;
+  // Viewers can browse history but not checkpoint or restore
+  canEdit: boolean;
+  onClose: () => void;
+}
+
+const pathOf = (files: StoredFile[], fileId: string): string => {
+  const byId = new Map(files.map((f) => [f.fileId, f]));
+  const parts: string[] = [];
+  for (let f = byId.get(fileId); f; f = f.parentId ? byId.get(f.parentId) : undefined) {
+    parts.unshift(f.name);
+  }
+  return parts.join('/');
+};
+
+const HistoryPanel = ({ roomId, canEdit, onClose }: HistoryPanelProps) => {
+  const [revisions, setRevisions] = useState<RoomRevision[]>([]);
+  const [selected, setSelected] = useState<RoomRevision | null>(null);
+  const [current, setCurrent] = useState<StoredFile[]>([]);
+  const [fileId, setFileId] = useState<string | null>(null);
+  const [checkpointName, setCheckpointName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setRevisions(await apiRequest<RoomRevision[]>(`/api/rooms/${roomId}/revisions`));
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  }, [roomId]);
+
+  const loadCurrent = useCallback(async () => {
+    try {
+      setCurrent(await apiRequest<StoredFile[]>(`/api/rooms/${roomId}/files`));
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    loadRevisions();
+    loadCurrent();
+  }, [loadRevisions, loadCurrent]);
+
+  const selectRevision = async (revision: RoomRevision) => {
+    try {
+      const full = await apiRequest<RoomRevision>(
+        `/api/rooms/${roomId}/revisions/${revision._id}`,
+      );
+      setSelected(full);
+      loadCurrent();
+      const firstFile = full.files?.find((f) => f.type === 'file');
+      setFileId((prev) =>
+        prev && full.files?.some((f) => f.fileId === prev)
+          ? prev
+          : firstFile?.fileId ?? null,
+      );
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const createCheckpoint = async () => {
+    const name = checkpointName.trim();
+    if (!name) return toast.error('Give the checkpoint a name');
+    setBusy(true);
+    try {
+      await apiRequest(`/api/rooms/${roomId}/revisions`, {
+        method: 'POST',
+        body: { name },
+      });
+      setCheckpointName('');
+      toast.success(`Checkpoint "${name}" saved`);
+      loadRevisions();
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restore = async () => {
+    if (!selected) return;
+    const label = selected.name || new Date(selected.createdAt).toLocaleString();
+    if (!window.confirm(`Restore "${label}" for everyone in the room?`)) return;
+    setBusy(true);
+    try {
+      await apiRequest(`/api/rooms/${roomId}/revisions/${selected._id}/restore`, {
+        method: 'POST',
+      });
+      toast.success('Revision restored');
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Every file that exists in the revision, now, or both
+  const comparableFiles = useMemo(() => {
+    if (!selected?.files) return [];
+    const seen = new Map<string, { fileId: string; path: string; status: string }>();
+    selected.files
+      .filter((f) => f.type === 'file')
+      .forEach((f) => {
+        const now = current.find((c) => c.fileId === f.fileId);
+        seen.set(f.fileId, {
+          fileId: f.fileId,
+          path: pathOf(selected.files!, f.fileId),
+          status: !now ? 'deleted since' : now.content !== f.content ? 'changed' : '',
+        });
+      });
+    current
+      .filter((f) => f.type === 'file' && !seen.has(f.fileId))
+      .forEach((f) =>
+        seen.set(f.fileId, {
+          fileId: f.fileId,
+          path: pathOf(current, f.fileId),
+          status: 'added since',
+        }),
+      );
+    return Array.from(seen.values()).sort((a, b) => a.path.localeCompare(b.path));
+  }, [selected, current]);
+
+  const original = selected?.files?.find((f) => f.fileId === fileId);
+  const modified = current.find((f) => f.fileId === fileId);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6 backdrop-blur-sm">
+      <div className="flex h-full w-full max-w-6xl flex-col overflow-hidden rounded-2xl border border-purple-500/30 bg-slate-950/95">
+        <div className="flex items-center justify-between border-b border-purple-500/30 px-4 py-3">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-purple-200">
+            <History className="h-4 w-4" /> Version history
+          </h2>
+          <button onClick={onClose} title="Close">
+            <X className="h-4 w-4 text-slate-400 hover:text-white" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Revision list */}
+          <div className="flex w-72 flex-col border-r border-purple-500/30">
+            <div
+              className={`flex gap-2 border-b border-purple-500/20 p-3 ${canEdit ? '' : 'hidden'}`}
+            >
+              <input
+                value={checkpointName}
+                onChange={(e) => setCheckpointName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && createCheckpoint()}
+                placeholder="Checkpoint name, e.g. before refactor"
+                className="flex-1 rounded-lg border border-purple-500/40 bg-slate-900 px-2 py-1.5 text-[11px] text-slate-100 placeholder-slate-500 focus:outline-none"
+              />
+              <button
+                onClick={createCheckpoint}
+                disabled={busy}
+                className="rounded-lg bg-purple-600 px-2 text-[11px] font-semibold disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+            <div className="flex-1 space-y-1 overflow-y-auto p-2">
+              {revisions.length === 0 && (
+                <p className="px-2 text-[11px] text-slate-500">No history yet.</p>
+              )}
+              {revisions.map((rev) => (
+                <button
+                  key={rev._id}
+                  onClick={() => selectRevision(rev)}
+                  className={`flex w-full items-start gap-2 rounded-lg px-2 py-1.5 text-left text-[11px] ${
+                    selected?._id === rev._id
+                      ? 'bg-purple-600/40 text-white'
+                      : 'text-slate-300 hover:bg-slate-800/80'
+                  }`}
+                >
+                  {rev.kind === 'checkpoint' ? (
+                    <Bookmark className="mt-0.5 h-3 w-3 flex-shrink-0 text-amber-300" />
+                  ) : (
+                    <Clock className="mt-0.5 h-3 w-3 flex-shrink-0 text-slate-500" />
+                  )}
+                  <span className="min-w-0">
+                    <span className="block truncate font-semibold">
+                      {rev.name || 'Automatic snapshot'}
+                    </span>
+                    <span className="block text-[10px] text-slate-500">
+                      {new Date(rev.createdAt).toLocaleString()}
+                      {rev.kind === 'checkpoint' ? ` · ${rev.createdBy}` : ''}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Diff */}
+          <div className="flex flex-1 flex-col">
+            {selected ? (
+              <>
+                <div className="flex items-center gap-2 border-b border-purple-500/20 px-3 py-2 text-[11px]">
+                  <select
+                    value={fileId ?? ''}
+                    onChange={(e) => setFileId(e.target.value)}
+                    className="rounded border border-purple-500/40 bg-slate-900 px-2 py-1 text-slate-100"
+                  >
+                    {comparableFiles.map((f) => (
+                      <option key={f.fileId} value={f.fileId}>
+                        {f.path}
+                        {f.status ? ` (${f.status})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-slate-500">revision ← → current</span>
+                  <button
+                    onClick={restore}
+                    disabled={busy || !canEdit}
+                    title={canEdit ? undefined : 'Only editors can restore'}
+                    className="ml-auto flex items-center gap-1 rounded-full bg-gradient-to-r from-amber-500 to-orange-600 px-3 py-1 font-semibold disabled:opacity-50"
+                  >
+                    <RotateCcw className="h-3 w-3" /> Restore this revision
+                  </button>
+                </div>
+                <div className="flex-1">
+                  <DiffEditor
+                    height="100%"
+                    theme="vs-dark"
+                    original={original?.content ?? ''}
+                    modified={modified?.content ?? ''}
+                    language={original?.language || modified?.language || 'plaintext'}
+                    options={{
+                      readOnly: true,
+                      renderSideBySide: true,
+                      minimap: { enabled: false },
+                      fontSize: 13,
+                      automaticLayout: true,
+                    }}
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="flex flex-1 items-center justify-center text-xs text-slate-500">
+                Pick a revision to compare it with the current code.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
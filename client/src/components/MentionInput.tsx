@@ -0,0 +1,116 @@
+// src/components/MentionInput.tsx
+import { useState, type KeyboardEvent } from 'react';
+
+// How many names the dropdown lists at once
+const MAX_SUGGESTIONS = 6;
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  onEscape: () => void;
+  // Names of the other people in the room
+  people: string[];
+  disabled?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+// The "@…" being typed right before the caret, if any
+const mentionAt = (value: string, caret: number) => {
+  const match = /(?:^|\s)@([^@\n]{0,30})$/.exec(value.slice(0, caret));
+  return match ? { start: caret - match[1].length - 1, query: match[1] } : null;
+};
+
+/**
+ * The chat input, with a dropdown of people in the room while an @mention
+ * is being typed. Arrow keys move through it, Enter or Tab picks a name.
+ */
+const MentionInput = ({
+  value,
+  onChange,
+  onSubmit,
+  onEscape,
+  people,
+  disabled,
+  placeholder,
+  className,
+}: MentionInputProps) => {
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = mention
+    ? people
+        .filter((name) => name.toLowerCase().startsWith(mention.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const change = (next: string, caret: number) => {
+    onChange(next);
+    setMention(mentionAt(next, caret));
+    setHighlighted(0);
+  };
+
+  const pick = (name: string) => {
+    if (!mention) return;
+    const end = mention.start + 1 + mention.query.length;
+    onChange(`${value.slice(0, mention.start)}@${name} ${value.slice(end)}`);
+    setMention(null);
+  };
+
+  const keyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : suggestions.length - 1;
+        setHighlighted((highlighted + step) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pick(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMention(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter') onSubmit();
+    if (e.key === 'Escape') onEscape();
+  };
+
+  return (
+    <div className="relative flex-1">
+      {suggestions.length > 0 && (
+        <div className="absolute bottom-full left-0 mb-1 w-48 overflow-hidden rounded-lg border border-blue-500/40 bg-slate-950/95 text-[11px] shadow-lg">
+          {suggestions.map((name, i) => (
+            <button
+              key={name}
+              // Keep focus in the input
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(name)}
+              className={`block w-full truncate px-3 py-1 text-left ${
+                i === highlighted ? 'bg-blue-600/60 text-white' : 'text-slate-200 hover:bg-slate-800'
+              }`}
+            >
+              @{name}
+            </button>
+          ))}
+        </div>
+      )}
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => change(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+        onKeyDown={keyDown}
+        onBlur={() => setMention(null)}
+        disabled={disabled}
+        placeholder={placeholder}
+        className={className}
+      />
+    </div>
+  );
+};
+
+export default MentionInput;
@@ -0,0 +1,98 @@
+// src/components/NotificationCenter.tsx
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { AtSign, Bell, ShieldCheck, TriangleAlert, UserPlus } from 'lucide-react';
+import type { AppNotification } from '../types';
+
+interface NotificationCenterProps {
+  // Newest last, as they arrived
+  notifications: AppNotification[];
+  onOpen: () => void;
+  onClear: () => void;
+}
+
+const ICONS: Record<AppNotification['kind'], typeof Bell> = {
+  mention: AtSign,
+  join: UserPlus,
+  'run-failed': TriangleAlert,
+  role: ShieldCheck,
+};
+
+/**
+ * The bell in the header: how many notifications we haven't seen, and a
+ * list of them (newest first) that marks them all read when it opens.
+ */
+const NotificationCenter = ({ notifications, onOpen, onClear }: NotificationCenterProps) => {
+  const [open, setOpen] = useState(false);
+  const unread = notifications.filter((n) => !n.read).length;
+
+  const toggle = () => {
+    if (!open) onOpen();
+    setOpen(!open);
+  };
+
+  return (
+    <div className="relative">
+      <motion.button
+        onClick={toggle}
+        whileHover={{ scale: 1.05 }}
+        title="Notifications"
+        className="relative flex items-center rounded-full border border-purple-500/40 bg-slate-900/80 px-2 py-1.5 text-xs font-semibold"
+      >
+        <Bell className="h-3 w-3" />
+        {unread > 0 && (
+          <span className="absolute -right-1 -top-1 min-w-[1rem] rounded-full bg-red-500 px-1 text-center text-[9px] leading-4">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </motion.button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 top-full z-50 mt-2 w-72 rounded-xl border border-purple-500/40 bg-slate-950/95 text-xs shadow-lg shadow-purple-900/40">
+            <div className="flex items-center border-b border-purple-500/30 px-3 py-2 font-semibold text-blue-200">
+              Notifications
+              {notifications.length > 0 && (
+                <button
+                  onClick={onClear}
+                  className="ml-auto text-[10px] font-normal text-slate-400 hover:text-white"
+                >
+                  Clear all
+                </button>
+              )}
+            </div>
+            <div className="max-h-80 overflow-y-auto">
+              {notifications.length === 0 ? (
+                <p className="px-3 py-4 text-center text-[11px] text-slate-500">Nothing yet</p>
+              ) : (
+                [...notifications].reverse().map((n) => {
+                  const Icon = ICONS[n.kind];
+                  return (
+                    <div
+                      key={n.id}
+                      className={`flex gap-2 border-b border-slate-800 px-3 py-2 last:border-0 ${
+                        n.read ? '' : 'bg-blue-500/10'
+                      }`}
+                    >
+                      <Icon className="mt-0.5 h-3 w-3 flex-shrink-0 text-blue-300" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-slate-100">{n.text}</p>
+                        {n.detail && <p className="truncate text-[10px] text-slate-400">{n.detail}</p>}
+                        <p className="text-[9px] text-slate-500">
+                          {new Date(n.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NotificationCenter;
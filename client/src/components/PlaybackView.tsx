@@ -0,0 +1,265 @@
+// src/components/PlaybackView.tsx
+import { useEffect, useMemo, useState } from 'react';
+import Editor from '@monaco-editor/react';
+import toast from 'react-hot-toast';
+import { Film, MessageSquare, Pause, Play, Terminal, X } from 'lucide-react';
+import { apiRequest } from '../lib/api';
+import { RecordingPlayer } from '../lib/playback';
+import type { SessionRecording, StoredFile } from '../types';
+
+interface PlaybackViewProps {
+  roomId: string;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+const TICK_MS = 50;
+
+const formatTime = (ms: number): string => {
+  const total = Math.floor(ms / 1000);
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const pathOf = (files: Map<string, StoredFile>, fileId: string): string => {
+  const parts: string[] = [];
+  for (let f = files.get(fileId); f; f = f.parentId ? files.get(f.parentId) : undefined) {
+    parts.unshift(f.name);
+  }
+  return parts.join('/');
+};
+
+const PlaybackView = ({ roomId, onClose }: PlaybackViewProps) => {
+  const [recordings, setRecordings] = useState<SessionRecording[]>([]);
+  const [selected, setSelected] = useState<SessionRecording | null>(null);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [fileId, setFileId] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiRequest<SessionRecording[]>(`/api/rooms/${roomId}/recordings`)
+      .then(setRecordings)
+      .catch((err: Error) => toast.error(err.message));
+  }, [roomId]);
+
+  const selectRecording = async (recording: SessionRecording) => {
+    try {
+      const full = await apiRequest<SessionRecording>(
+        `/api/rooms/${roomId}/recordings/${recording._id}`,
+      );
+      setSelected(full);
+      setTime(0);
+      setPlaying(false);
+      setFileId(full.initialFiles?.find((f) => f.type === 'file')?.fileId ?? null);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const events = useMemo(() => selected?.events ?? [], [selected]);
+  const duration = Math.max(selected?.durationMs ?? 0, events.at(-1)?.t ?? 0);
+
+  const player = useMemo(
+    () => (selected ? new RecordingPlayer(selected.initialFiles ?? [], events) : null),
+    [selected, events],
+  );
+  const state = useMemo(() => player?.stateAt(time) ?? null, [player, time]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      setTime((prev) => {
+        const next = prev + TICK_MS * speed;
+        if (next >= duration) {
+          setPlaying(false);
+          return duration;
+        }
+        return next;
+      });
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [playing, speed, duration]);
+
+  const togglePlaying = () => {
+    if (!playing && time >= duration) setTime(0);
+    setPlaying((prev) => !prev);
+  };
+
+  // Runs and chat messages are shown as jump-to markers on the timeline
+  const markers = useMemo(
+    () => events.filter((e) => e.k === 'run' || e.k === 'chat'),
+    [events],
+  );
+  const chatSoFar = useMemo(
+    () => events.filter((e) => e.k === 'chat' && e.t <= time),
+    [events, time],
+  );
+
+  const files = state
+    ? Array.from(state.files.values())
+        .filter((f) => f.type === 'file')
+        .map((f) => ({ fileId: f.fileId, path: pathOf(state.files, f.fileId) }))
+        .sort((a, b) => a.path.localeCompare(b.path))
+    : [];
+  // Follow the file if it was renamed away; fall back to the first one if deleted
+  const shownFile =
+    (fileId && state?.files.get(fileId)) ||
+    (files[0] ? state?.files.get(files[0].fileId) : undefined);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6 backdrop-blur-sm">
+      <div className="flex h-full w-full max-w-6xl flex-col overflow-hidden rounded-2xl border border-purple-500/30 bg-slate-950/95">
+        <div className="flex items-center justify-between border-b border-purple-500/30 px-4 py-3">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-purple-200">
+            <Film className="h-4 w-4" /> Session replay
+          </h2>
+          <button onClick={onClose} title="Close">
+            <X className="h-4 w-4 text-slate-400 hover:text-white" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Recording list */}
+          <div className="flex w-64 flex-col border-r border-purple-500/30">
+            <div className="flex-1 space-y-1 overflow-y-auto p-2">
+              {recordings.length === 0 && (
+                <p className="px-2 text-[11px] text-slate-500">No recorded sessions yet.</p>
+              )}
+              {recordings.map((rec) => (
+                <button
+                  key={rec._id}
+                  onClick={() => selectRecording(rec)}
+                  className={`w-full rounded-lg px-2 py-1.5 text-left text-[11px] ${
+                    selected?._id === rec._id
+                      ? 'bg-purple-600/40 text-white'
+                      : 'text-slate-300 hover:bg-slate-800/80'
+                  }`}
+                >
+                  <span className="block font-semibold">
+                    {new Date(rec.startedAt).toLocaleString()}
+                  </span>
+                  <span className="block truncate text-[10px] text-slate-500">
+                    {formatTime(rec.durationMs)}
+                    {rec.endedAt ? '' : ' · live'} · {rec.participants.join(', ')}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Player */}
+          {selected && state ? (
+            <div className="flex flex-1 flex-col overflow-hidden">
+              <div className="flex items-center gap-3 border-b border-purple-500/20 px-3 py-2 text-[11px]">
+                <button
+                  onClick={togglePlaying}
+                  className="flex h-7 w-7 items-center justify-center rounded-full bg-purple-600"
+                  title={playing ? 'Pause' : 'Play'}
+                >
+                  {playing ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+                </button>
+                <span className="w-20 font-mono text-slate-400">
+                  {formatTime(time)} / {formatTime(duration)}
+                </span>
+                <div className="relative flex-1">
+                  <input
+                    type="range"
+                    min={0}
+                    max={duration}
+                    value={time}
+                    onChange={(e) => setTime(Number(e.target.value))}
+                    className="w-full accent-purple-500"
+                  />
+                  {markers.map((e, i) => (
+                    <button
+                      key={i}
+                      onClick={() => setTime(e.t)}
+                      title={
+                        e.k === 'run'
+                          ? `Run (${e.l}) at ${formatTime(e.t)}`
+                          : `${e.u}: ${e.m}`
+                      }
+                      style={{ left: `${duration ? (e.t / duration) * 100 : 0}%` }}
+                      className={`absolute -bottom-1.5 h-2 w-1 -translate-x-1/2 rounded-sm ${
+                        e.k === 'run' ? 'bg-emerald-400' : 'bg-sky-400'
+                      }`}
+                    />
+                  ))}
+                </div>
+                <select
+                  value={speed}
+                  onChange={(e) => setSpeed(Number(e.target.value))}
+                  className="rounded border border-purple-500/40 bg-slate-900 px-2 py-1 text-slate-100"
+                >
+                  {SPEEDS.map((s) => (
+                    <option key={s} value={s}>
+                      {s}x
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={shownFile?.fileId ?? ''}
+                  onChange={(e) => setFileId(e.target.value)}
+                  className="max-w-48 rounded border border-purple-500/40 bg-slate-900 px-2 py-1 text-slate-100"
+                >
+                  {files.map((f) => (
+                    <option key={f.fileId} value={f.fileId}>
+                      {f.path}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex flex-1 overflow-hidden">
+                <div className="flex-1">
+                  <Editor
+                    height="100%"
+                    theme="vs-dark"
+                    path={`playback/${shownFile?.fileId ?? 'none'}`}
+                    language={shownFile?.language || 'plaintext'}
+                    value={shownFile?.content ?? ''}
+                    options={{
+                      readOnly: true,
+                      minimap: { enabled: false },
+                      fontSize: 13,
+                      automaticLayout: true,
+                    }}
+                  />
+                </div>
+
+                <div className="flex w-64 flex-col border-l border-purple-500/30 text-[11px]">
+                  <div className="flex items-center gap-1 border-b border-purple-500/20 px-3 py-2 font-semibold text-purple-200">
+                    <MessageSquare className="h-3 w-3" /> Chat
+                  </div>
+                  <div className="flex-1 space-y-1 overflow-y-auto p-2">
+                    {chatSoFar.length === 0 && <p className="text-slate-500">No messages yet.</p>}
+                    {chatSoFar.map((e, i) => (
+                      <p key={i} className="text-slate-300">
+                        <span className="font-semibold text-sky-300">{e.u}</span> {e.m}
+                      </p>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-1 border-y border-purple-500/20 px-3 py-2 font-semibold text-purple-200">
+                    <Terminal className="h-3 w-3" /> Last run
+                    {state.lastRun?.language ? ` (${state.lastRun.language})` : ''}
+                  </div>
+                  <pre className="h-40 overflow-auto whitespace-pre-wrap p-2 font-mono text-[10px] text-emerald-200">
+                    {state.lastRun?.output ?? 'Nothing run yet.'}
+                  </pre>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-1 items-center justify-center text-xs text-slate-500">
+              Pick a recorded session to replay it.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackView;
@@ -0,0 +1,111 @@
+// src/components/PreviewPane.tsx
+import { useEffect, useMemo, useRef } from 'react';
+import { Globe, X } from 'lucide-react';
+
+export type PreviewConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+interface PreviewPaneProps {
+  // Workspace path of the HTML file being shown
+  path: string;
+  // The page with its stylesheets and scripts already inlined by the server
+  html: string;
+  // Closes the preview for the whole room
+  onClose?: () => void;
+  onConsole: (level: PreviewConsoleLevel, text: string) => void;
+}
+
+const MESSAGE_SOURCE = 'cwb-preview';
+
+// Runs before anything on the page: forwards console.* calls and uncaught
+// errors to us, since the sandboxed frame can't be inspected directly
+const CONSOLE_BRIDGE = `<script>(function () {
+  var format = function (value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || String(value);
+    try {
+      var json = JSON.stringify(value);
+      return json === undefined ? String(value) : json;
+    } catch (e) {
+      return String(value);
+    }
+  };
+  var send = function (level, args) {
+    parent.postMessage(
+      { source: '${MESSAGE_SOURCE}', level: level, text: Array.prototype.map.call(args, format).join(' ') },
+      '*'
+    );
+  };
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      send(level, arguments);
+      return original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (e) {
+    send('error', [e.message + (e.lineno ? ' (line ' + e.lineno + ')' : '')]);
+  });
+  window.addEventListener('unhandledrejection', function (e) {
+    send('error', ['Unhandled promise rejection: ' + format(e.reason)]);
+  });
+})();</script>`;
+
+// As early in the document as possible without knocking it out of
+// standards mode (nothing may come before the doctype)
+const withBridge = (html: string): string => {
+  const head = /<head\b[^>]*>/i.exec(html);
+  if (head) return html.replace(head[0], (tag) => tag + CONSOLE_BRIDGE);
+  const doctype = /^\s*<!doctype[^>]*>/i.exec(html);
+  if (doctype) return html.replace(doctype[0], (tag) => tag + CONSOLE_BRIDGE);
+  return CONSOLE_BRIDGE + html;
+};
+
+/**
+ * Renders the room's web preview in a sandboxed iframe: scripts run, but
+ * the page gets an opaque origin, so it can't reach our cookies, storage or
+ * DOM. Every new `html` reloads the frame.
+ */
+const PreviewPane = ({ path, html, onClose, onConsole }: PreviewPaneProps) => {
+  const frameRef = useRef<HTMLIFrameElement | null>(null);
+  const onConsoleRef = useRef(onConsole);
+
+  useEffect(() => {
+    onConsoleRef.current = onConsole;
+  });
+
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== frameRef.current?.contentWindow) return;
+      const data = event.data as { source?: string; level?: PreviewConsoleLevel; text?: string };
+      if (data?.source !== MESSAGE_SOURCE || typeof data.text !== 'string') return;
+      onConsoleRef.current(data.level ?? 'log', data.text);
+    };
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, []);
+
+  const srcDoc = useMemo(() => withBridge(html), [html]);
+
+  return (
+    <div className="flex h-full flex-col bg-white">
+      <div className="flex items-center gap-2 border-b border-purple-500/30 bg-slate-950 px-3 py-1 text-[10px] text-slate-400">
+        <Globe className="h-3 w-3" />
+        <span className="truncate">Preview · {path}</span>
+        {onClose && (
+          <button onClick={onClose} title="Close preview for everyone" className="ml-auto">
+            <X className="h-3 w-3 hover:text-white" />
+          </button>
+        )}
+      </div>
+      <iframe
+        ref={frameRef}
+        title={`Preview of ${path}`}
+        srcDoc={srcDoc}
+        sandbox="allow-scripts allow-modals allow-forms"
+        className="min-h-0 w-full flex-1 border-0"
+      />
+    </div>
+  );
+};
+
+export default PreviewPane;
@@ -0,0 +1,239 @@
+// src/components/RunHistoryPanel.tsx
+import { useEffect, useState } from 'react';
+import Editor, { DiffEditor } from '@monaco-editor/react';
+import toast from 'react-hot-toast';
+import { CheckCircle2, CircleSlash, RotateCw, ScrollText, X, XCircle } from 'lucide-react';
+import { apiRequest } from '../lib/api';
+import type { RunRecord } from '../types';
+
+interface RunHistoryPanelProps {
+  roomId: string;
+  // Viewers can look through past runs but not re-run them
+  canEdit: boolean;
+  // What the open file holds now, for the diff
+  currentCode: string;
+  // Bumped whenever the room records a run, so the list stays fresh
+  refreshKey: number;
+  onRerun: (runId: string) => void;
+  onClose: () => void;
+}
+
+type View = 'output' | 'code' | 'diff';
+
+const ACCEPTED = 3;
+
+const StatusIcon = ({ run }: { run: RunRecord }) => {
+  if (!run.status) return <CircleSlash className="mt-0.5 h-3 w-3 flex-shrink-0 text-slate-500" />;
+  if (run.status.id === ACCEPTED) {
+    return <CheckCircle2 className="mt-0.5 h-3 w-3 flex-shrink-0 text-emerald-400" />;
+  }
+  return <XCircle className="mt-0.5 h-3 w-3 flex-shrink-0 text-red-400" />;
+};
+
+interface SectionProps {
+  title: string;
+  text?: string;
+  className?: string;
+}
+
+// Left out when there's nothing to show
+const Section = ({ title, text, className = '' }: SectionProps) =>
+  text ? (
+    <section className="space-y-1">
+      <h3 className="text-[10px] uppercase tracking-wide text-slate-500">{title}</h3>
+      <pre
+        className={`max-h-64 overflow-auto whitespace-pre-wrap rounded bg-slate-900 p-2 font-mono text-[11px] ${className}`}
+      >
+        {text}
+      </pre>
+    </section>
+  ) : null;
+
+const RunHistoryPanel = ({
+  roomId,
+  canEdit,
+  currentCode,
+  refreshKey,
+  onRerun,
+  onClose,
+}: RunHistoryPanelProps) => {
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [selected, setSelected] = useState<RunRecord | null>(null);
+  const [view, setView] = useState<View>('output');
+
+  useEffect(() => {
+    apiRequest<RunRecord[]>(`/api/rooms/${roomId}/runs`)
+      .then(setRuns)
+      .catch((err: Error) => toast.error(err.message));
+  }, [roomId, refreshKey]);
+
+  const selectRun = async (run: RunRecord) => {
+    try {
+      setSelected(await apiRequest<RunRecord>(`/api/rooms/${roomId}/runs/${run.runId}`));
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const rerun = () => {
+    if (!selected) return;
+    onRerun(selected.runId);
+    onClose();
+  };
+
+  const env = Object.entries(selected?.env ?? {})
+    .map(([name, value]) => `${name}=${value}`)
+    .join('\n');
+
+  const limits = selected?.limits
+    ? `CPU ${selected.limits.cpuTime}s · wall ${selected.limits.wallTime}s · ${selected.limits.memoryMb} MB`
+    : '';
+
+  const commands = [
+    selected?.commands?.build && `build: ${selected.commands.build}`,
+    selected?.commands?.run && `run: ${selected.commands.run}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6 backdrop-blur-sm">
+      <div className="flex h-full w-full max-w-6xl flex-col overflow-hidden rounded-2xl border border-purple-500/30 bg-slate-950/95">
+        <div className="flex items-center justify-between border-b border-purple-500/30 px-4 py-3">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-purple-200">
+            <ScrollText className="h-4 w-4" /> Run history
+          </h2>
+          <button onClick={onClose} title="Close">
+            <X className="h-4 w-4 text-slate-400 hover:text-white" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Run list */}
+          <div className="w-72 space-y-1 overflow-y-auto border-r border-purple-500/30 p-2">
+            {runs.length === 0 && <p className="px-2 text-[11px] text-slate-500">No runs yet.</p>}
+            {runs.map((run) => (
+              <button
+                key={run.runId}
+                onClick={() => selectRun(run)}
+                className={`flex w-full items-start gap-2 rounded-lg px-2 py-1.5 text-left text-[11px] ${
+                  selected?.runId === run.runId
+                    ? 'bg-purple-600/40 text-white'
+                    : 'text-slate-300 hover:bg-slate-800/80'
+                }`}
+              >
+                <StatusIcon run={run} />
+                <span className="min-w-0">
+                  <span className="block truncate font-semibold">
+                    {run.fileName || run.language} · {run.startedBy}
+                  </span>
+                  <span className="block text-[10px] text-slate-500">
+                    {new Date(run.startedAt).toLocaleString()}
+                    {run.time !== null ? ` · ${run.time.toFixed(2)}s` : ''}
+                  </span>
+                  <span className="block truncate text-[10px] text-slate-500">
+                    {run.status?.description ?? `Stopped by ${run.stoppedBy ?? 'someone'}`}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {/* Details */}
+          <div className="flex flex-1 flex-col">
+            {selected ? (
+              <>
+                <div className="flex items-center gap-2 border-b border-purple-500/20 px-3 py-2 text-[11px]">
+                  {(['output', 'code', 'diff'] as View[]).map((v) => (
+                    <button
+                      key={v}
+                      onClick={() => setView(v)}
+                      className={`rounded px-2 py-1 ${
+                        view === v ? 'bg-purple-600/60 text-white' : 'text-slate-400 hover:text-white'
+                      }`}
+                    >
+                      {v === 'output' ? 'Output' : v === 'code' ? 'Code' : 'Diff with current'}
+                    </button>
+                  ))}
+                  <span className="text-slate-500">
+                    {selected.language} · {selected.codeHash.slice(0, 8)}
+                    {selected.exitCode !== null && ` · exit ${selected.exitCode}`}
+                    {selected.memory !== null && ` · ${Math.round(selected.memory / 1024)} MB peak`}
+                  </span>
+                  <button
+                    onClick={rerun}
+                    disabled={!canEdit}
+                    title={canEdit ? undefined : 'Only editors can run code'}
+                    className="ml-auto flex items-center gap-1 rounded-full bg-gradient-to-r from-emerald-500 to-lime-500 px-3 py-1 font-semibold disabled:opacity-50"
+                  >
+                    <RotateCw className="h-3 w-3" /> Re-run
+                  </button>
+                </div>
+
+                {view === 'output' && (
+                  <div className="flex-1 space-y-3 overflow-y-auto p-3 text-slate-200">
+                    <Section title="Arguments" text={selected.args.join('\n')} />
+                    <Section title="Environment" text={env} />
+                    <Section title="Limits" text={limits} />
+                    <Section title="Entry point" text={selected.entry ?? ''} />
+                    <Section title="Commands" text={commands} />
+                    <Section title="stdin" text={selected.stdin} />
+                    <Section
+                      title="Compiler output"
+                      text={selected.compileOutput}
+                      className="text-amber-300"
+                    />
+                    <Section title="stdout" text={selected.stdout} />
+                    <Section title="stderr" text={selected.stderr} className="text-red-300" />
+                    {!selected.stdout && !selected.stderr && !selected.compileOutput && (
+                      <p className="text-[11px] text-slate-500">The run printed nothing.</p>
+                    )}
+                  </div>
+                )}
+                {view !== 'output' && (
+                  <div className="flex-1">
+                    {view === 'code' ? (
+                      <Editor
+                        height="100%"
+                        theme="vs-dark"
+                        value={selected.code ?? ''}
+                        language={selected.language}
+                        options={{
+                          readOnly: true,
+                          minimap: { enabled: false },
+                          fontSize: 13,
+                          automaticLayout: true,
+                        }}
+                      />
+                    ) : (
+                      <DiffEditor
+                        height="100%"
+                        theme="vs-dark"
+                        original={selected.code ?? ''}
+                        modified={currentCode}
+                        language={selected.language}
+                        options={{
+                          readOnly: true,
+                          renderSideBySide: true,
+                          minimap: { enabled: false },
+                          fontSize: 13,
+                          automaticLayout: true,
+                        }}
+                      />
+                    )}
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="flex flex-1 items-center justify-center text-xs text-slate-500">
+                Pick a run to see its output and the code that produced it.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunHistoryPanel;
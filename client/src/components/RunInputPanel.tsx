@@ -0,0 +1,229 @@
+// src/components/RunInputPanel.tsx
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Keyboard } from 'lucide-react';
+import type { BuildCommands, LanguageInfo, RunInput, RunLimits, RunLimitsPolicy } from '../types';
+
+interface RunInputPanelProps {
+  // Initial values; the parent remounts the panel (new `key`) when someone
+  // else changes them, so local drafts never fight with remote updates
+  value: RunInput;
+  readOnly: boolean;
+  // The server's defaults and maximums; null until they've loaded
+  policy: RunLimitsPolicy | null;
+  // The open file's language, whose build/run commands are shown
+  language: LanguageInfo | undefined;
+  onChange: (value: RunInput) => void;
+}
+
+const LIMIT_FIELDS: { key: keyof RunLimits; label: string; step: number }[] = [
+  { key: 'cpuTime', label: 'CPU (s)', step: 0.5 },
+  { key: 'wallTime', label: 'Wall (s)', step: 0.5 },
+  { key: 'memoryMb', label: 'Memory (MB)', step: 16 },
+];
+
+type LimitsText = Record<keyof RunLimits, string>;
+
+const limitsToText = (limits: RunLimits): LimitsText => ({
+  cpuTime: String(limits.cpuTime),
+  wallTime: String(limits.wallTime),
+  memoryMb: String(limits.memoryMb),
+});
+
+// Blank or invalid fields fall back to what was there before
+const limitsFromText = (text: LimitsText, previous: RunLimits): RunLimits => {
+  const limits = { ...previous };
+  LIMIT_FIELDS.forEach(({ key }) => {
+    const value = Number(text[key]);
+    if (text[key].trim() && Number.isFinite(value) && value > 0) limits[key] = value;
+  });
+  return limits;
+};
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// One argument per line, so spaces and quotes need no escaping
+const argsFromText = (text: string): string[] =>
+  text ? text.replace(/\n$/, '').split('\n') : [];
+
+// KEY=value per line; lines without a valid name are left out
+const envFromText = (text: string): Record<string, string> => {
+  const env: Record<string, string> = {};
+  text.split('\n').forEach((line) => {
+    const eq = line.indexOf('=');
+    const name = line.slice(0, eq).trim();
+    if (eq > 0 && ENV_NAME.test(name)) env[name] = line.slice(eq + 1);
+  });
+  return env;
+};
+
+const envToText = (env: Record<string, string>): string =>
+  Object.entries(env)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('\n');
+
+// Entries left entirely blank go back to the defaults
+const withCommands = (
+  commands: Record<string, BuildCommands>,
+  language: string,
+  next: BuildCommands,
+): Record<string, BuildCommands> => {
+  const others = Object.fromEntries(Object.entries(commands).filter(([id]) => id !== language));
+  return next.build.trim() || next.run.trim() ? { ...others, [language]: next } : others;
+};
+
+const fieldClass =
+  'w-full resize-y rounded border border-purple-500/30 bg-slate-950/80 px-2 py-1 font-mono text-[11px] text-slate-100 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-purple-500/60 disabled:opacity-60';
+
+const RunInputPanel = ({ value, readOnly, policy, language, onChange }: RunInputPanelProps) => {
+  const [open, setOpen] = useState(
+    () => !!value.stdin || value.args.length > 0 || Object.keys(value.env).length > 0,
+  );
+  const [stdin, setStdin] = useState(value.stdin);
+  const [argsText, setArgsText] = useState(value.args.join('\n'));
+  const [envText, setEnvText] = useState(envToText(value.env));
+  const [limitsText, setLimitsText] = useState(limitsToText(value.limits));
+  const [commands, setCommands] = useState(value.commands);
+
+  const update = (next: {
+    stdin?: string;
+    argsText?: string;
+    envText?: string;
+    limitsText?: LimitsText;
+    commands?: Record<string, BuildCommands>;
+  }) => {
+    const drafts = { stdin, argsText, envText, limitsText, commands, ...next };
+    setStdin(drafts.stdin);
+    setArgsText(drafts.argsText);
+    setEnvText(drafts.envText);
+    setLimitsText(drafts.limitsText);
+    setCommands(drafts.commands);
+    onChange({
+      stdin: drafts.stdin,
+      args: argsFromText(drafts.argsText),
+      env: envFromText(drafts.envText),
+      limits: limitsFromText(drafts.limitsText, value.limits),
+      commands: drafts.commands,
+    });
+  };
+
+  // Only languages the server builds with commands get the fields
+  const defaults = language?.commands;
+  const current = (language && commands[language.id]) || { build: '', run: '' };
+  const setCommand = (field: keyof BuildCommands, text: string) =>
+    language &&
+    update({ commands: withCommands(commands, language.id, { ...current, [field]: text }) });
+
+  const customLimits =
+    !!policy && LIMIT_FIELDS.some(({ key }) => value.limits[key] !== policy.defaults[key]);
+
+  const summary = [
+    value.stdin && 'stdin',
+    value.args.length > 0 && `${value.args.length} arg${value.args.length === 1 ? '' : 's'}`,
+    Object.keys(value.env).length > 0 && `${Object.keys(value.env).length} env`,
+    customLimits && 'custom limits',
+    language && value.commands[language.id] && 'custom commands',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <div className="border-t border-purple-500/30 bg-black/80 text-xs">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="flex w-full items-center gap-1 px-3 py-1 text-[10px] text-slate-400 hover:text-white"
+      >
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Keyboard className="h-3 w-3" />
+        Input
+        {summary && <span className="ml-1 text-slate-500">({summary})</span>}
+      </button>
+
+      {open && (
+        <div className="grid grid-cols-4 gap-2 px-3 pb-2">
+          <label className="space-y-1">
+            <span className="text-[10px] text-slate-500">stdin</span>
+            <textarea
+              rows={3}
+              value={stdin}
+              disabled={readOnly}
+              onChange={(e) => update({ stdin: e.target.value })}
+              placeholder="Fed to the program's standard input"
+              className={fieldClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[10px] text-slate-500">Arguments (one per line)</span>
+            <textarea
+              rows={3}
+              value={argsText}
+              disabled={readOnly}
+              onChange={(e) => update({ argsText: e.target.value })}
+              placeholder={'--verbose\nin.txt'}
+              className={fieldClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[10px] text-slate-500">Environment (KEY=value)</span>
+            <textarea
+              rows={3}
+              value={envText}
+              disabled={readOnly}
+              onChange={(e) => update({ envText: e.target.value })}
+              placeholder="DEBUG=1"
+              className={fieldClass}
+            />
+          </label>
+          <div className="space-y-1">
+            <span className="text-[10px] text-slate-500">Limits</span>
+            {LIMIT_FIELDS.map(({ key, label, step }) => (
+              <label key={key} className="flex items-center gap-2">
+                <span className="w-20 flex-shrink-0 text-[10px] text-slate-500">{label}</span>
+                <input
+                  type="number"
+                  min={step}
+                  max={policy?.max[key]}
+                  step={step}
+                  value={limitsText[key]}
+                  disabled={readOnly}
+                  onChange={(e) => update({ limitsText: { ...limitsText, [key]: e.target.value } })}
+                  title={policy ? `At most ${policy.max[key]}` : undefined}
+                  className={fieldClass}
+                />
+              </label>
+            ))}
+          </div>
+          {defaults && (
+            <div className="col-span-4 grid grid-cols-2 gap-2">
+              <label className="space-y-1">
+                <span className="text-[10px] text-slate-500">
+                  Build command ({language.label}; $ENTRY is the file being run)
+                </span>
+                <input
+                  value={current.build}
+                  disabled={readOnly}
+                  onChange={(e) => setCommand('build', e.target.value)}
+                  placeholder={defaults.build || 'No build step'}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-[10px] text-slate-500">
+                  Run command ({language.label}; arguments are added after it)
+                </span>
+                <input
+                  value={current.run}
+                  disabled={readOnly}
+                  onChange={(e) => setCommand('run', e.target.value)}
+                  placeholder={defaults.run}
+                  className={fieldClass}
+                />
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunInputPanel;
@@ -0,0 +1,60 @@
+// src/components/RunOutputView.tsx
+import { AlertTriangle, XCircle } from 'lucide-react';
+import type { CompileDiagnostic } from '../lib/compileErrors';
+
+interface RunOutputViewProps {
+  text: string;
+  // Compile output: its parsed errors, listed above the raw text
+  diagnostics?: CompileDiagnostic[];
+  // Name each error's file, for workspaces with more than one
+  showFiles?: boolean;
+  onJump?: (diagnostic: CompileDiagnostic) => void;
+  className?: string;
+  empty: string;
+}
+
+/**
+ * One stream of the last run's output as plain text. For compiler output,
+ * each error that names a line links to it in the editor, in its own file.
+ */
+const RunOutputView = ({
+  text,
+  diagnostics = [],
+  showFiles = false,
+  onJump,
+  className = '',
+  empty,
+}: RunOutputViewProps) => {
+  if (!text) return <p className="text-[11px] text-slate-500">{empty}</p>;
+
+  return (
+    <div className="h-full space-y-2 overflow-auto">
+      {diagnostics.length > 0 && (
+        <ul className="space-y-0.5 text-[11px]">
+          {diagnostics.map((d, i) => (
+            <li key={i}>
+              <button
+                onClick={() => onJump?.(d)}
+                className="flex w-full items-start gap-1.5 rounded px-1 text-left hover:bg-slate-800/80"
+              >
+                {d.severity === 'error' ? (
+                  <XCircle className="mt-0.5 h-3 w-3 flex-shrink-0 text-red-400" />
+                ) : (
+                  <AlertTriangle className="mt-0.5 h-3 w-3 flex-shrink-0 text-amber-300" />
+                )}
+                <span className="font-mono text-sky-300">
+                  {showFiles && d.file ? `${d.file}:` : ''}
+                  {d.line}:{d.column}
+                </span>
+                <span className="text-slate-200">{d.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <pre className={`whitespace-pre-wrap font-mono text-[11px] ${className}`}>{text}</pre>
+    </div>
+  );
+};
+
+export default RunOutputView;
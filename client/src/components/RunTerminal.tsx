@@ -0,0 +1,124 @@
+// src/components/RunTerminal.tsx
+import { useEffect, useImperativeHandle, useRef, type Ref } from 'react';
+import { Terminal } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+
+// stdout/stdin print as-is, stderr in red, compiler output in yellow and
+// `info` (run banners) dimmed
+export type TerminalStream = 'stdout' | 'stderr' | 'stdin' | 'compile' | 'info';
+
+export interface TerminalChunk {
+  stream: TerminalStream;
+  data: string;
+}
+
+export interface RunTerminalHandle {
+  write: (chunk: TerminalChunk) => void;
+  clear: () => void;
+}
+
+interface RunTerminalProps {
+  ref?: Ref<RunTerminalHandle>;
+  // Whatever was printed before the terminal mounted
+  getBacklog: () => TerminalChunk[];
+  // Typing goes to the running program only while this is set
+  acceptsInput: boolean;
+  // One line at a time, newline included
+  onInput: (data: string) => void;
+  // Ctrl+C
+  onInterrupt: () => void;
+}
+
+const colored = ({ stream, data }: TerminalChunk): string => {
+  if (stream === 'stderr') return `\x1b[31m${data}\x1b[0m`;
+  if (stream === 'compile') return `\x1b[33m${data}\x1b[0m`;
+  if (stream === 'info') return `\x1b[2m${data}\x1b[0m`;
+  return data;
+};
+
+/**
+ * xterm.js pane for live runs. Programs get stdin line by line: what you type
+ * is echoed locally and sent when you press Enter.
+ */
+const RunTerminal = ({ ref, getBacklog, acceptsInput, onInput, onInterrupt }: RunTerminalProps) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const terminalRef = useRef<Terminal | null>(null);
+  const lineRef = useRef('');
+  const propsRef = useRef({ getBacklog, acceptsInput, onInput, onInterrupt });
+
+  useEffect(() => {
+    propsRef.current = { getBacklog, acceptsInput, onInput, onInterrupt };
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const terminal = new Terminal({
+      convertEol: true,
+      cursorBlink: true,
+      fontSize: 12,
+      fontFamily: 'JetBrains Mono, monospace',
+      scrollback: 5000,
+      theme: { background: '#020617' },
+    });
+    const fit = new FitAddon();
+    terminal.loadAddon(fit);
+    terminal.open(container);
+    fit.fit();
+    propsRef.current.getBacklog().forEach((chunk) => terminal.write(colored(chunk)));
+
+    const observer = new ResizeObserver(() => fit.fit());
+    observer.observe(container);
+
+    const input = terminal.onData((data) => {
+      const { acceptsInput: live, onInput: send, onInterrupt: interrupt } = propsRef.current;
+      if (data === '\x03') {
+        interrupt();
+        return;
+      }
+      if (!live) return;
+
+      for (const ch of data) {
+        if (ch === '\r' || ch === '\n') {
+          terminal.write('\r\n');
+          send(`${lineRef.current}\n`);
+          lineRef.current = '';
+        } else if (ch === '\x7f' || ch === '\b') {
+          if (lineRef.current) {
+            lineRef.current = lineRef.current.slice(0, -1);
+            terminal.write('\b \b');
+          }
+        } else if (ch >= ' ') {
+          lineRef.current += ch;
+          terminal.write(ch);
+        }
+      }
+    });
+
+    terminalRef.current = terminal;
+    return () => {
+      input.dispose();
+      observer.disconnect();
+      terminal.dispose();
+      terminalRef.current = null;
+    };
+  }, []);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      write: (chunk) => terminalRef.current?.write(colored(chunk)),
+      clear: () => {
+        lineRef.current = '';
+        terminalRef.current?.reset();
+      },
+    }),
+    [],
+  );
+
+  return <div ref={containerRef} className="h-full w-full" />;
+};
+
+export default RunTerminal;
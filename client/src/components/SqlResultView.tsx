@@ -0,0 +1,71 @@
+// src/components/SqlResultView.tsx
+import type { SqlCell, SqlRunResult } from '../types';
+
+interface SqlResultViewProps {
+  result: SqlRunResult;
+}
+
+const Cell = ({ value }: { value: SqlCell }) =>
+  value === null ? (
+    <span className="italic text-slate-500">NULL</span>
+  ) : (
+    <span className={typeof value === 'number' ? 'text-sky-300' : undefined}>{value}</span>
+  );
+
+/**
+ * The room's latest SQL run: one table per query, a row count for every
+ * other statement, and the error if a statement failed.
+ */
+const SqlResultView = ({ result }: SqlResultViewProps) => (
+  <div className="h-full space-y-3 overflow-auto font-mono text-[11px] text-slate-200">
+    <p className="text-[10px] text-slate-500">
+      {result.ranBy}'s query · {result.time.toFixed(2)}s
+    </p>
+    {result.statements.map((statement, i) =>
+      statement.columns.length ? (
+        <div key={i} className="space-y-1">
+          <table className="border-collapse">
+            <thead>
+              <tr>
+                {statement.columns.map((column, c) => (
+                  <th
+                    key={c}
+                    className="border border-slate-700 bg-slate-900 px-2 py-0.5 text-left font-semibold text-purple-200"
+                  >
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {statement.rows.map((row, r) => (
+                <tr key={r} className="odd:bg-slate-900/40">
+                  {row.map((value, c) => (
+                    <td key={c} className="whitespace-pre border border-slate-800 px-2 py-0.5">
+                      <Cell value={value} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-slate-500">
+            {statement.truncated
+              ? `First ${statement.rows.length} rows shown`
+              : `${statement.rows.length} row${statement.rows.length === 1 ? '' : 's'}`}
+          </p>
+        </div>
+      ) : (
+        <p key={i} className="text-slate-400">
+          {statement.rowsModified} row{statement.rowsModified === 1 ? '' : 's'} affected
+        </p>
+      ),
+    )}
+    {result.error && <p className="text-red-300">Error: {result.error}</p>}
+    {!result.statements.length && !result.error && (
+      <p className="text-slate-500">The query returned nothing.</p>
+    )}
+  </div>
+);
+
+export default SqlResultView;
@@ -0,0 +1,88 @@
+// src/components/SqlSeedPanel.tsx
+import { useState } from 'react';
+import Editor from '@monaco-editor/react';
+import { Database, RotateCcw, Save, X } from 'lucide-react';
+
+interface SqlSeedPanelProps {
+  // The room's schema/seed script, as last saved
+  seed: string;
+  // Only the owner maintains the seed
+  isOwner: boolean;
+  // Editors can throw the database back to the seed
+  canEdit: boolean;
+  onSave: (seed: string) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const SqlSeedPanel = ({ seed, isOwner, canEdit, onSave, onReset, onClose }: SqlSeedPanelProps) => {
+  const [draft, setDraft] = useState(seed);
+  const unsaved = draft !== seed;
+
+  const reset = () => {
+    const warning = unsaved ? ' Unsaved changes to the seed won’t be used.' : '';
+    if (!window.confirm(`Reset the room's database to the seed for everyone?${warning}`)) return;
+    onReset();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6 backdrop-blur-sm">
+      <div className="flex h-full w-full max-w-4xl flex-col overflow-hidden rounded-2xl border border-purple-500/30 bg-slate-950/95">
+        <div className="flex items-center justify-between border-b border-purple-500/30 px-4 py-3">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-purple-200">
+            <Database className="h-4 w-4" /> Database
+          </h2>
+          <button onClick={onClose} title="Close">
+            <X className="h-4 w-4 text-slate-400 hover:text-white" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 border-b border-purple-500/20 px-4 py-2 text-[11px]">
+          <span className="text-slate-400">
+            {isOwner
+              ? 'The schema and data every query starts from. Saving applies on the next reset.'
+              : 'The schema and data every query starts from. Only the owner can change it.'}
+          </span>
+          {isOwner && (
+            <button
+              onClick={() => onSave(draft)}
+              disabled={!unsaved}
+              className="ml-auto flex items-center gap-1 rounded-full bg-purple-600 px-3 py-1 font-semibold disabled:opacity-50"
+            >
+              <Save className="h-3 w-3" /> Save seed
+            </button>
+          )}
+          <button
+            onClick={reset}
+            disabled={!canEdit}
+            title={canEdit ? undefined : 'Only editors can reset the database'}
+            className={`flex items-center gap-1 rounded-full bg-gradient-to-r from-amber-600 to-yellow-500 px-3 py-1 font-semibold disabled:opacity-50 ${
+              isOwner ? '' : 'ml-auto'
+            }`}
+          >
+            <RotateCcw className="h-3 w-3" /> Reset to seed
+          </button>
+        </div>
+
+        <div className="flex-1">
+          <Editor
+            height="100%"
+            theme="vs-dark"
+            language="sql"
+            value={draft}
+            onChange={(value) => setDraft(value ?? '')}
+            options={{
+              readOnly: !isOwner,
+              minimap: { enabled: false },
+              fontSize: 13,
+              automaticLayout: true,
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SqlSeedPanel;
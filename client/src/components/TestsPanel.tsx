@@ -0,0 +1,334 @@
+// src/components/TestsPanel.tsx
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { CheckCircle2, EyeOff, FlaskConical, Pencil, Play, Trash2, X, XCircle } from 'lucide-react';
+import { apiRequest } from '../lib/api';
+import type { ComparisonMode, RunInput, TestCase, TestRunSummary } from '../types';
+
+interface TestsPanelProps {
+  roomId: string;
+  canEdit: boolean;
+  isOwner: boolean;
+  // What "Run tests" submits: the open file and the room's args/env
+  code: string;
+  language: string;
+  runInput: RunInput;
+  // Latest results, shared with the whole room over the socket
+  results: TestRunSummary | null;
+  onClose: () => void;
+}
+
+interface Draft {
+  name: string;
+  input: string;
+  expectedOutput: string;
+  hidden: boolean;
+  comparison: ComparisonMode;
+  tolerance: string;
+}
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  input: '',
+  expectedOutput: '',
+  hidden: false,
+  comparison: 'trimmed',
+  tolerance: '0.000001',
+};
+
+const COMPARISONS: { id: ComparisonMode; label: string }[] = [
+  { id: 'trimmed', label: 'Ignore trailing whitespace' },
+  { id: 'exact', label: 'Exact match' },
+  { id: 'float', label: 'Numbers within tolerance' },
+];
+
+const fieldClass =
+  'w-full rounded border border-purple-500/30 bg-slate-900 px-2 py-1 font-mono text-[11px] text-slate-100 placeholder-slate-600 focus:outline-none';
+
+const TestsPanel = ({
+  roomId,
+  canEdit,
+  isOwner,
+  code,
+  language,
+  runInput,
+  results,
+  onClose,
+}: TestsPanelProps) => {
+  const [testCases, setTestCases] = useState<TestCase[]>([]);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const loadTestCases = useCallback(async () => {
+    try {
+      setTestCases(await apiRequest<TestCase[]>(`/api/rooms/${roomId}/tests`));
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    apiRequest<TestCase[]>(`/api/rooms/${roomId}/tests`)
+      .then(setTestCases)
+      .catch((err: Error) => toast.error(err.message));
+  }, [roomId]);
+
+  const canManage = (testCase: TestCase) => canEdit && (!testCase.hidden || isOwner);
+
+  const startEditing = (testCase: TestCase) => {
+    setEditingId(testCase._id);
+    setDraft({
+      name: testCase.name,
+      input: testCase.input ?? '',
+      expectedOutput: testCase.expectedOutput ?? '',
+      hidden: testCase.hidden,
+      comparison: testCase.comparison,
+      tolerance: String(testCase.tolerance),
+    });
+  };
+
+  const resetDraft = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const saveDraft = async () => {
+    setBusy(true);
+    try {
+      const body = { ...draft, tolerance: Number(draft.tolerance) || 0 };
+      if (editingId) {
+        await apiRequest(`/api/rooms/${roomId}/tests/${editingId}`, { method: 'PUT', body });
+        toast.success('Test case updated');
+      } else {
+        await apiRequest(`/api/rooms/${roomId}/tests`, { method: 'POST', body });
+        toast.success('Test case added');
+      }
+      resetDraft();
+      loadTestCases();
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteTestCase = async (testCase: TestCase) => {
+    try {
+      await apiRequest(`/api/rooms/${roomId}/tests/${testCase._id}`, { method: 'DELETE' });
+      if (editingId === testCase._id) resetDraft();
+      loadTestCases();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const runTests = async () => {
+    if (!code.trim()) return toast.error('Nothing to run');
+    setRunning(true);
+    try {
+      // The results come back to everyone (us included) over the socket
+      await apiRequest<TestRunSummary>('/api/run/tests', {
+        method: 'POST',
+        body: {
+          roomId,
+          code,
+          language,
+          args: runInput.args,
+          env: runInput.env,
+          limits: runInput.limits,
+          commands: runInput.commands,
+        },
+      });
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6 backdrop-blur-sm">
+      <div className="flex max-h-full w-full max-w-4xl flex-col overflow-hidden rounded-2xl border border-purple-500/30 bg-slate-950/95">
+        <div className="flex items-center justify-between border-b border-purple-500/30 px-4 py-3">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-purple-200">
+            <FlaskConical className="h-4 w-4" /> Test cases
+          </h2>
+          <div className="flex items-center gap-3">
+            {canEdit && (
+              <button
+                onClick={runTests}
+                disabled={running || testCases.length === 0}
+                className="flex items-center gap-1 rounded-lg bg-emerald-600 px-3 py-1 text-xs font-semibold disabled:opacity-50"
+              >
+                <Play className="h-3 w-3" /> {running ? 'Running…' : `Run tests (${language})`}
+              </button>
+            )}
+            <button onClick={onClose} title="Close">
+              <X className="h-4 w-4 text-slate-400 hover:text-white" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid min-h-0 flex-1 grid-cols-2 gap-4 overflow-hidden p-4 text-xs text-slate-300">
+          {/* Cases + editor */}
+          <div className="space-y-3 overflow-y-auto pr-1">
+            {testCases.length === 0 && <p className="text-slate-500">No test cases yet.</p>}
+            {testCases.map((testCase) => (
+              <div
+                key={testCase._id}
+                className={`rounded-lg border px-2 py-1.5 ${
+                  editingId === testCase._id ? 'border-purple-400' : 'border-purple-500/20'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 truncate font-semibold text-slate-100">{testCase.name}</span>
+                  {testCase.hidden && <EyeOff className="h-3 w-3 text-slate-500" aria-label="Hidden" />}
+                  <span className="text-[10px] text-slate-500">{testCase.comparison}</span>
+                  {canManage(testCase) && (
+                    <>
+                      <button title="Edit" onClick={() => startEditing(testCase)}>
+                        <Pencil className="h-3 w-3 text-slate-400 hover:text-white" />
+                      </button>
+                      <button title="Delete" onClick={() => deleteTestCase(testCase)}>
+                        <Trash2 className="h-3 w-3 text-slate-400 hover:text-red-400" />
+                      </button>
+                    </>
+                  )}
+                </div>
+                {testCase.input !== undefined && (
+                  <div className="mt-1 grid grid-cols-2 gap-2 font-mono text-[10px] text-slate-400">
+                    <pre className="max-h-16 overflow-auto whitespace-pre-wrap">{testCase.input || '(no input)'}</pre>
+                    <pre className="max-h-16 overflow-auto whitespace-pre-wrap">{testCase.expectedOutput}</pre>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {canEdit && (
+              <section className="space-y-2 rounded-lg border border-purple-500/30 p-2">
+                <h3 className="font-semibold text-slate-100">
+                  {editingId ? 'Edit test case' : 'New test case'}
+                </h3>
+                <input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Name (optional)"
+                  className={fieldClass}
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <textarea
+                    rows={4}
+                    value={draft.input}
+                    onChange={(e) => setDraft({ ...draft, input: e.target.value })}
+                    placeholder="Input (stdin)"
+                    className={fieldClass}
+                  />
+                  <textarea
+                    rows={4}
+                    value={draft.expectedOutput}
+                    onChange={(e) => setDraft({ ...draft, expectedOutput: e.target.value })}
+                    placeholder="Expected output"
+                    className={fieldClass}
+                  />
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={draft.comparison}
+                    onChange={(e) => setDraft({ ...draft, comparison: e.target.value as ComparisonMode })}
+                    className="rounded border border-purple-500/40 bg-slate-900 px-2 py-1 text-slate-100"
+                  >
+                    {COMPARISONS.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.label}
+                      </option>
+                    ))}
+                  </select>
+                  {draft.comparison === 'float' && (
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={draft.tolerance}
+                      onChange={(e) => setDraft({ ...draft, tolerance: e.target.value })}
+                      title="Tolerance"
+                      className="w-24 rounded border border-purple-500/40 bg-slate-900 px-2 py-1 text-slate-100"
+                    />
+                  )}
+                  {isOwner && (
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={draft.hidden}
+                        onChange={(e) => setDraft({ ...draft, hidden: e.target.checked })}
+                        className="accent-purple-500"
+                      />
+                      Hidden
+                    </label>
+                  )}
+                  <div className="ml-auto flex gap-2">
+                    {editingId && (
+                      <button onClick={resetDraft} className="rounded-lg border border-slate-600 px-3 py-1">
+                        Cancel
+                      </button>
+                    )}
+                    <button
+                      onClick={saveDraft}
+                      disabled={busy}
+                      className="rounded-lg bg-purple-600 px-3 py-1 font-semibold disabled:opacity-50"
+                    >
+                      {editingId ? 'Save' : 'Add'}
+                    </button>
+                  </div>
+                </div>
+              </section>
+            )}
+          </div>
+
+          {/* Results */}
+          <div className="space-y-2 overflow-y-auto pl-1">
+            {!results && <p className="text-slate-500">No test run yet.</p>}
+            {results && (
+              <>
+                <p className={results.passed === results.total ? 'text-emerald-300' : 'text-amber-300'}>
+                  {results.passed}/{results.total} passed · {results.language} · by {results.ranBy} at{' '}
+                  {new Date(results.ranAt).toLocaleTimeString()}
+                </p>
+                {results.results.map((result) => (
+                  <div key={result.caseId} className="rounded-lg border border-purple-500/20 px-2 py-1.5">
+                    <div className="flex items-center gap-2">
+                      {result.passed ? (
+                        <CheckCircle2 className="h-3 w-3 text-emerald-400" />
+                      ) : (
+                        <XCircle className="h-3 w-3 text-red-400" />
+                      )}
+                      <span className="flex-1 truncate text-slate-100">
+                        {result.name}
+                        {result.hidden ? ' (hidden)' : ''}
+                      </span>
+                      <span className={result.passed ? 'text-emerald-300' : 'text-red-300'}>
+                        {result.status.description}
+                      </span>
+                      <span className="text-[10px] text-slate-500">
+                        {result.time !== null ? `${result.time.toFixed(3)}s` : '–'}
+                        {result.memory !== null ? ` · ${result.memory} KB` : ''}
+                      </span>
+                    </div>
+                    {!result.passed && !result.hidden && (
+                      <pre className="mt-1 max-h-32 overflow-auto whitespace-pre-wrap font-mono text-[10px] text-slate-400">
+                        {result.compileOutput || result.stderr || result.stdout || '(no output)'}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TestsPanel;
@@ -1,5 +1,6 @@
 // src/context/EditorContext.tsx
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useState, ReactNode } from 'react';
+import type { ChatMessage } from '../types';
 
 interface EditorContextType {
   roomId: string;
@@ -12,8 +13,14 @@ interface EditorContextType {
   setCurrentUser: (user: string) => void;
   avatar: string;
   setAvatar: (url: string) => void;
-  messages: any[];
-  addMessage: (message: any) => void;
+  messages: ChatMessage[];
+  addMessage: (message: ChatMessage) => void;
+  // The history sent on join; anything newer that arrived meanwhile stays
+  setChatHistory: (history: ChatMessage[]) => void;
+  // Older messages, fetched when scrolling back
+  prependMessages: (older: ChatMessage[]) => void;
+  // A message after an edit, reaction or deletion
+  updateMessage: (message: ChatMessage) => void;
 }
 
 const EditorContext = createContext<EditorContextType | undefined>(undefined);
@@ -24,12 +31,31 @@ export const EditorProvider = ({ children }: { children: ReactNode }) => {
   const [users, setUsers] = useState([]);
   const [currentUser, setCurrentUser] = useState('');
   const [avatar, setAvatar] = useState(''); // <- NEW
-  const [messages, setMessages] = useState([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
 
-  const addMessage = (message: any) => {
+  const addMessage = (message: ChatMessage) => {
     setMessages((prev) => [...prev, message]);
   };
 
+  const setChatHistory = useCallback((history: ChatMessage[]) => {
+    setMessages((prev) => {
+      const known = new Set(history.map((m) => m.id));
+      const newest = history[history.length - 1]?.timestamp ?? '';
+      return [...history, ...prev.filter((m) => !known.has(m.id) && m.timestamp > newest)];
+    });
+  }, []);
+
+  const prependMessages = useCallback((older: ChatMessage[]) => {
+    setMessages((prev) => {
+      const known = new Set(prev.map((m) => m.id));
+      return [...older.filter((m) => !known.has(m.id)), ...prev];
+    });
+  }, []);
+
+  const updateMessage = useCallback((message: ChatMessage) => {
+    setMessages((prev) => prev.map((m) => (m.id === message.id ? message : m)));
+  }, []);
+
   return (
     <EditorContext.Provider
       value={{
@@ -45,6 +71,9 @@ export const EditorProvider = ({ children }: { children: ReactNode }) => {
         setAvatar,
         messages,
         addMessage,
+        setChatHistory,
+        prependMessages,
+        updateMessage,
       }}
     >
       {children}
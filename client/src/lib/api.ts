@@ -0,0 +1,35 @@
+// src/lib/api.ts
+import { loadSession } from './session';
+import { loadFingerprint } from './fingerprint';
+
+// Pick backend URL based on env (dev vs prod)
+export const API_BASE_URL =
+  import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000';
+
+// Calls one of our REST endpoints. They all answer `{ success, data, error }`;
+// this unwraps `data` and turns failures into thrown Errors. The signed-in
+// session's token, if any, is sent along, and so is the browser fingerprint
+// that room bans also match on.
+export const apiRequest = async <T,>(
+  path: string,
+  options: { method?: string; body?: unknown } = {},
+): Promise<T> => {
+  const { method = 'GET', body } = options;
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  const token = loadSession()?.token;
+  if (token) headers.Authorization = `Bearer ${token}`;
+  headers['X-Fingerprint'] = loadFingerprint();
+
+  const res = await fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || json.success === false) {
+    throw new Error(json.error || `Request failed (${res.status})`);
+  }
+  return json.data as T;
+};
@@ -0,0 +1,97 @@
+// src/lib/compileErrors.ts
+
+export interface CompileDiagnostic {
+  // As the compiler printed it; once located, the workspace path
+  file: string | null;
+  line: number;
+  column: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// file:line[:column]: [error|warning:] message — gcc, clang, go, javac
+const GNU_STYLE =
+  /^([^\s:]+):(\d+):(?:(\d+):)?\s*(?:(fatal error|error|warning|note)(?:\[[\w-]+\])?:\s*)?(.+)$/;
+// file(line,column): error CODE: message — mcs, tsc
+const PAREN_STYLE = /^([^\s(]+)\((\d+),(\d+)\):\s*(error|warning)\s+\w+:\s*(.+)$/;
+// rustc puts the message first and the location on a later "-->" line
+const RUST_HEADER = /^(error|warning)(?:\[\w+\])?:\s*(.+)$/;
+const RUST_LOCATION = /^\s*-->\s*([^\s:]+):(\d+):(\d+)/;
+// Where the sandboxes keep the files (docker, Judge0)
+const SANDBOX_PREFIX = /^(?:\/sandbox\/|\/box\/)?(?:\.\/)*/;
+
+/**
+ * Pulls line-numbered errors and warnings out of compiler output, for the
+ * editor markers. Lines it doesn't recognise are skipped, so an unfamiliar
+ * compiler just yields fewer markers.
+ */
+export const parseCompileErrors = (output: string): CompileDiagnostic[] => {
+  const diagnostics: CompileDiagnostic[] = [];
+  let rustHeader: { severity: 'error' | 'warning'; message: string } | null = null;
+
+  output.split('\n').forEach((line) => {
+    const gnu = GNU_STYLE.exec(line);
+    if (gnu) {
+      const [, file, row, column, severity, message] = gnu;
+      // Notes explain the diagnostic above them
+      if (severity === 'note') return;
+      diagnostics.push({
+        file,
+        line: Number(row),
+        column: column ? Number(column) : 1,
+        severity: severity === 'warning' ? 'warning' : 'error',
+        message: message.trim(),
+      });
+      return;
+    }
+
+    const paren = PAREN_STYLE.exec(line);
+    if (paren) {
+      const [, file, row, column, severity, message] = paren;
+      diagnostics.push({
+        file,
+        line: Number(row),
+        column: Number(column),
+        severity: severity === 'warning' ? 'warning' : 'error',
+        message: message.trim(),
+      });
+      return;
+    }
+
+    const header = RUST_HEADER.exec(line);
+    if (header) {
+      rustHeader = { severity: header[1] === 'warning' ? 'warning' : 'error', message: header[2] };
+      return;
+    }
+    const location = RUST_LOCATION.exec(line);
+    if (location && rustHeader) {
+      diagnostics.push({
+        file: location[1],
+        line: Number(location[2]),
+        column: Number(location[3]),
+        ...rustHeader,
+      });
+      rustHeader = null;
+    }
+  });
+
+  return diagnostics;
+};
+
+/**
+ * Points each diagnostic at a file in the workspace: the path the compiler
+ * printed, minus the sandbox's own prefix, or failing that the one path it's
+ * the tail of. Anything unplaced goes on `entry`, the file that was run.
+ */
+export const locateDiagnostics = (
+  diagnostics: CompileDiagnostic[],
+  paths: string[],
+  entry: string,
+): CompileDiagnostic[] =>
+  diagnostics.map((d) => {
+    const printed = d.file?.replace(SANDBOX_PREFIX, '');
+    if (!printed) return { ...d, file: entry };
+    if (paths.includes(printed)) return { ...d, file: printed };
+    const candidates = paths.filter((path) => path.endsWith(`/${printed}`));
+    return { ...d, file: candidates.length === 1 ? candidates[0] : entry };
+  });
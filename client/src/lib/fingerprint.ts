@@ -0,0 +1,17 @@
+// src/lib/fingerprint.ts
+
+// A random id for this browser, sent with the socket handshake so a room
+// ban still sticks if the person signs in as someone else
+const STORAGE_KEY = 'cwb-fingerprint';
+
+export const loadFingerprint = (): string => {
+  try {
+    const existing = localStorage.getItem(STORAGE_KEY);
+    if (existing) return existing;
+    const id = crypto.randomUUID();
+    localStorage.setItem(STORAGE_KEY, id);
+    return id;
+  } catch {
+    return crypto.randomUUID();
+  }
+};
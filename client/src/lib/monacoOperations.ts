@@ -0,0 +1,73 @@
+// src/lib/monacoOperations.ts
+import type { editor } from 'monaco-editor';
+import { TextOperation } from './textOperation';
+
+// Turns the changes of one Monaco content-change event into a single operation.
+// Offsets in the event all refer to the document *before* the edit, so we
+// walk them from the end backwards and compose as we go.
+export const operationFromMonacoChanges = (
+  changes: editor.IModelContentChange[],
+  newLength: number,
+): TextOperation => {
+  const delta = changes.reduce(
+    (sum, change) => sum + change.text.length - change.rangeLength,
+    0,
+  );
+  let docLength = newLength - delta;
+  let operation = new TextOperation().retain(docLength);
+
+  const sorted = [...changes].sort((a, b) => b.rangeOffset - a.rangeOffset);
+  for (const change of sorted) {
+    const step = new TextOperation()
+      .retain(change.rangeOffset)
+      .delete(change.rangeLength)
+      .insert(change.text)
+      .retain(docLength - change.rangeOffset - change.rangeLength);
+    operation = operation.compose(step);
+    docLength += change.text.length - change.rangeLength;
+  }
+
+  return operation;
+};
+
+// Applies a remote operation to the model without touching the local undo stack.
+export const applyOperationToModel = (
+  model: editor.ITextModel,
+  operation: TextOperation,
+) => {
+  const edits: editor.IIdentifiedSingleEditOperation[] = [];
+  let index = 0;
+
+  for (const op of operation.ops) {
+    if (typeof op === 'number' && op > 0) {
+      index += op;
+    } else if (typeof op === 'string') {
+      const pos = model.getPositionAt(index);
+      edits.push({
+        range: {
+          startLineNumber: pos.lineNumber,
+          startColumn: pos.column,
+          endLineNumber: pos.lineNumber,
+          endColumn: pos.column,
+        },
+        text: op,
+        forceMoveMarkers: true,
+      });
+    } else {
+      const start = model.getPositionAt(index);
+      const end = model.getPositionAt(index - op);
+      edits.push({
+        range: {
+          startLineNumber: start.lineNumber,
+          startColumn: start.column,
+          endLineNumber: end.lineNumber,
+          endColumn: end.column,
+        },
+        text: '',
+      });
+      index -= op;
+    }
+  }
+
+  model.applyEdits(edits);
+};
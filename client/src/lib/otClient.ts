@@ -0,0 +1,62 @@
+// src/lib/otClient.ts
+import { TextOperation } from './textOperation';
+
+// Client half of the OT protocol. At most one operation is in flight to the
+// server at a time; anything typed meanwhile is composed into `buffer` and
+// sent once the server acknowledges the outstanding one.
+export class OTClient {
+  revision: number;
+  private outstanding: TextOperation | null = null;
+  private buffer: TextOperation | null = null;
+  private send: (revision: number, operation: TextOperation) => void;
+  private apply: (operation: TextOperation) => void;
+
+  constructor(
+    revision: number,
+    send: (revision: number, operation: TextOperation) => void,
+    apply: (operation: TextOperation) => void,
+  ) {
+    this.revision = revision;
+    this.send = send;
+    this.apply = apply;
+  }
+
+  // Local edit made in the editor
+  applyClient(operation: TextOperation) {
+    if (!this.outstanding) {
+      this.outstanding = operation;
+      this.send(this.revision, operation);
+    } else if (!this.buffer) {
+      this.buffer = operation;
+    } else {
+      this.buffer = this.buffer.compose(operation);
+    }
+  }
+
+  // Someone else's edit, already applied on the server at `revision`
+  applyServer(revision: number, operation: TextOperation) {
+    let remote = operation;
+    if (this.outstanding) {
+      [this.outstanding, remote] = TextOperation.transform(this.outstanding, remote);
+    }
+    if (this.buffer) {
+      [this.buffer, remote] = TextOperation.transform(this.buffer, remote);
+    }
+    this.revision = revision;
+    this.apply(remote);
+  }
+
+  // Server accepted our outstanding operation
+  serverAck(revision: number) {
+    this.revision = revision;
+    this.outstanding = this.buffer;
+    this.buffer = null;
+    if (this.outstanding) {
+      this.send(this.revision, this.outstanding);
+    }
+  }
+
+  hasPendingChanges(): boolean {
+    return this.outstanding !== null || this.buffer !== null;
+  }
+}
@@ -0,0 +1,112 @@
+// src/lib/playback.ts
+import { TextOperation } from './textOperation';
+import type { RecordedEvent, StoredFile } from '../types';
+
+// Keep a full copy of the workspace every this many events so seeking
+// never replays more than a chunk's worth of operations
+const CHECKPOINT_EVERY = 200;
+
+export interface PlaybackState {
+  files: Map<string, StoredFile>;
+  lastRun: { output: string; language: string } | null;
+}
+
+interface Checkpoint extends PlaybackState {
+  index: number;
+}
+
+const cloneState = (state: PlaybackState): PlaybackState => ({
+  files: new Map(Array.from(state.files, ([id, file]) => [id, { ...file }])),
+  lastRun: state.lastRun,
+});
+
+const toStoredFile = (file: Partial<StoredFile>, content: string): StoredFile => ({
+  fileId: file.fileId ?? '',
+  name: file.name ?? '',
+  type: file.type ?? 'file',
+  parentId: file.parentId ?? null,
+  content,
+  language: file.language ?? 'plaintext',
+});
+
+const applyEvent = (state: PlaybackState, event: RecordedEvent): void => {
+  switch (event.k) {
+    case 'op': {
+      const file = event.f ? state.files.get(event.f) : undefined;
+      if (!file || !event.o) return;
+      try {
+        file.content = TextOperation.fromJSON(event.o).apply(file.content);
+      } catch {
+        // A corrupt event shouldn't stop the rest of the replay
+      }
+      return;
+    }
+    case 'files': {
+      // Metadata only: carry contents over from files that still exist
+      const files = new Map<string, StoredFile>();
+      event.w?.forEach((f) => {
+        if (!f.fileId) return;
+        files.set(f.fileId, toStoredFile(f, state.files.get(f.fileId)?.content ?? ''));
+      });
+      state.files = files;
+      return;
+    }
+    case 'reset': {
+      const files = new Map<string, StoredFile>();
+      event.w?.forEach((f) => f.fileId && files.set(f.fileId, toStoredFile(f, f.content ?? '')));
+      state.files = files;
+      return;
+    }
+    case 'run':
+      state.lastRun = { output: event.x ?? '', language: event.l ?? '' };
+      return;
+    default:
+      return;
+  }
+};
+
+/**
+ * Rebuilds the workspace at any point of a recording by replaying its
+ * events on top of the initial files.
+ */
+export class RecordingPlayer {
+  private checkpoints: Checkpoint[] = [];
+  private events: RecordedEvent[];
+
+  constructor(initialFiles: StoredFile[], events: RecordedEvent[]) {
+    this.events = events;
+    const state: PlaybackState = {
+      files: new Map(initialFiles.map((f) => [f.fileId, { ...f }])),
+      lastRun: null,
+    };
+    this.checkpoints.push({ ...cloneState(state), index: 0 });
+    events.forEach((event, i) => {
+      applyEvent(state, event);
+      if ((i + 1) % CHECKPOINT_EVERY === 0) {
+        this.checkpoints.push({ ...cloneState(state), index: i + 1 });
+      }
+    });
+  }
+
+  // Number of events that happened at or before `time` (ms)
+  eventCountAt(time: number): number {
+    let lo = 0;
+    let hi = this.events.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.events[mid].t <= time) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  stateAt(time: number): PlaybackState {
+    const count = this.eventCountAt(time);
+    const checkpoint = this.checkpoints[Math.floor(count / CHECKPOINT_EVERY)];
+    const state = cloneState(checkpoint);
+    for (let i = checkpoint.index; i < count; i++) {
+      applyEvent(state, this.events[i]);
+    }
+    return state;
+  }
+}
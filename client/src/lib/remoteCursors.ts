@@ -0,0 +1,196 @@
+// src/lib/remoteCursors.ts
+import type { Monaco } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
+import { colorForUser } from './userColor';
+
+export interface CursorSelection {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  caretLine: number;
+  caretColumn: number;
+}
+
+export interface CursorPosition {
+  line: number;
+  column: number;
+  selections?: CursorSelection[];
+}
+
+export interface RemoteCursor {
+  userId: string;
+  userName: string;
+  avatar?: string;
+  // File the cursor is in — only drawn when it's the one we have open
+  fileId?: string | null;
+  position: CursorPosition;
+}
+
+// Reads the local cursor state in the shape the server relays
+export const cursorPositionFromEditor = (
+  ed: editor.IStandaloneCodeEditor,
+): CursorPosition | null => {
+  const selections = ed.getSelections();
+  const primary = ed.getPosition();
+  if (!selections || !primary) return null;
+
+  return {
+    line: primary.lineNumber,
+    column: primary.column,
+    selections: selections.map((sel) => ({
+      startLine: sel.startLineNumber,
+      startColumn: sel.startColumn,
+      endLine: sel.endLineNumber,
+      endColumn: sel.endColumn,
+      caretLine: sel.positionLineNumber,
+      caretColumn: sel.positionColumn,
+    })),
+  };
+};
+
+// Names are whatever people typed, so everything but letters, digits and
+// spaces goes in as a CSS hex escape (the trailing space ends the escape)
+const cssString = (text: string) =>
+  `"${Array.from(text, (ch) =>
+    /[A-Za-z0-9 ]/.test(ch) ? ch : `\\${ch.codePointAt(0)!.toString(16)} `,
+  ).join('')}"`;
+
+/**
+ * Draws other collaborators' carets and selections as Monaco decorations.
+ * Each user gets a tiny generated stylesheet for their colour and name label.
+ */
+export class RemoteCursorManager {
+  private ed: editor.IStandaloneCodeEditor;
+  private monaco: Monaco;
+  private decorations = new Map<string, editor.IEditorDecorationsCollection>();
+  private styles = new Map<string, HTMLStyleElement>();
+
+  constructor(ed: editor.IStandaloneCodeEditor, monaco: Monaco) {
+    this.ed = ed;
+    this.monaco = monaco;
+  }
+
+  update(cursor: RemoteCursor) {
+    const key = cursor.userId.replace(/[^a-zA-Z0-9_-]/g, '');
+    this.ensureStyle(key, cursor);
+
+    const { position } = cursor;
+    const selections: CursorSelection[] = position.selections?.length
+      ? position.selections
+      : [
+          {
+            startLine: position.line,
+            startColumn: position.column,
+            endLine: position.line,
+            endColumn: position.column,
+            caretLine: position.line,
+            caretColumn: position.column,
+          },
+        ];
+
+    const stickiness =
+      this.monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges;
+    const newDecorations: editor.IModelDeltaDecoration[] = [];
+
+    selections.forEach((sel, idx) => {
+      const isEmpty =
+        sel.startLine === sel.endLine && sel.startColumn === sel.endColumn;
+      if (!isEmpty) {
+        newDecorations.push({
+          range: new this.monaco.Range(
+            sel.startLine,
+            sel.startColumn,
+            sel.endLine,
+            sel.endColumn,
+          ),
+          options: {
+            className: `remote-selection-${key}`,
+            stickiness,
+          },
+        });
+      }
+      newDecorations.push({
+        range: new this.monaco.Range(
+          sel.caretLine,
+          sel.caretColumn,
+          sel.caretLine,
+          sel.caretColumn,
+        ),
+        options: {
+          // Only the primary caret carries the name tag
+          beforeContentClassName:
+            idx === 0
+              ? `remote-caret-${key} remote-caret-label-${key}`
+              : `remote-caret-${key}`,
+          hoverMessage: { value: cursor.userName },
+          stickiness,
+        },
+      });
+    });
+
+    const existing = this.decorations.get(cursor.userId);
+    if (existing) {
+      existing.set(newDecorations);
+    } else {
+      this.decorations.set(
+        cursor.userId,
+        this.ed.createDecorationsCollection(newDecorations),
+      );
+    }
+  }
+
+  remove(userId: string) {
+    this.decorations.get(userId)?.clear();
+    this.decorations.delete(userId);
+    this.styles.get(userId)?.remove();
+    this.styles.delete(userId);
+  }
+
+  // Drops cursors of anyone not in `userIds` (left the room or switched file)
+  retainOnly(userIds: Set<string>) {
+    Array.from(this.decorations.keys()).forEach((id) => {
+      if (!userIds.has(id)) this.remove(id);
+    });
+  }
+
+  dispose() {
+    Array.from(this.decorations.keys()).forEach((id) => this.remove(id));
+  }
+
+  private ensureStyle(key: string, cursor: RemoteCursor) {
+    const color = colorForUser(cursor);
+    const css = `
+      .remote-selection-${key} { background-color: ${colorForUser(cursor, 0.25)}; }
+      .remote-caret-${key} {
+        position: absolute;
+        height: 100%;
+        border-left: 2px solid ${color};
+        margin-left: -1px;
+        pointer-events: none;
+      }
+      .remote-caret-label-${key}::after {
+        content: ${cssString(cursor.userName)};
+        position: absolute;
+        top: -1.35em;
+        left: -2px;
+        padding: 0 4px;
+        border-radius: 3px 3px 3px 0;
+        background: ${color};
+        color: #050816;
+        font-size: 10px;
+        font-weight: 600;
+        line-height: 1.35em;
+        white-space: nowrap;
+      }
+    `;
+
+    let style = this.styles.get(cursor.userId);
+    if (!style) {
+      style = document.createElement('style');
+      document.head.appendChild(style);
+      this.styles.set(cursor.userId, style);
+    }
+    if (style.textContent !== css) style.textContent = css;
+  }
+}
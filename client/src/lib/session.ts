@@ -0,0 +1,22 @@
+// src/lib/session.ts
+import type { AuthSession } from '../types';
+
+// The token + user from /api/auth, kept across reloads
+const STORAGE_KEY = 'cwb-session';
+
+export const loadSession = (): AuthSession | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as AuthSession) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSession = (session: AuthSession): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+};
+
+export const clearSession = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,266 @@
+// src/lib/textOperation.ts
+// Mirrors server/src/utils/textOperation.ts — keep the two in sync.
+
+// One component of an operation:
+//   positive number -> retain n characters
+//   negative number -> delete n characters
+//   string          -> insert the string
+export type OpComponent = number | string;
+
+const isRetain = (op: OpComponent): op is number => typeof op === 'number' && op > 0;
+const isDelete = (op: OpComponent): op is number => typeof op === 'number' && op < 0;
+const isInsert = (op: OpComponent): op is string => typeof op === 'string';
+
+export class TextOperation {
+  ops: OpComponent[] = [];
+  baseLength = 0;   // length of the document the operation applies to
+  targetLength = 0; // length of the document after applying it
+
+  retain(n: number): this {
+    if (n === 0) return this;
+    this.baseLength += n;
+    this.targetLength += n;
+    const last = this.ops[this.ops.length - 1];
+    if (last !== undefined && isRetain(last)) {
+      this.ops[this.ops.length - 1] = last + n;
+    } else {
+      this.ops.push(n);
+    }
+    return this;
+  }
+
+  insert(str: string): this {
+    if (str === '') return this;
+    this.targetLength += str.length;
+    const ops = this.ops;
+    const last = ops[ops.length - 1];
+    if (last !== undefined && isInsert(last)) {
+      ops[ops.length - 1] = last + str;
+    } else if (last !== undefined && isDelete(last)) {
+      // Keep inserts before deletes so equivalent operations compare equal
+      const beforeLast = ops[ops.length - 2];
+      if (beforeLast !== undefined && isInsert(beforeLast)) {
+        ops[ops.length - 2] = beforeLast + str;
+      } else {
+        ops[ops.length] = last;
+        ops[ops.length - 2] = str;
+      }
+    } else {
+      ops.push(str);
+    }
+    return this;
+  }
+
+  delete(n: number): this {
+    if (n === 0) return this;
+    if (n > 0) n = -n;
+    this.baseLength -= n;
+    const last = this.ops[this.ops.length - 1];
+    if (last !== undefined && isDelete(last)) {
+      this.ops[this.ops.length - 1] = last + n;
+    } else {
+      this.ops.push(n);
+    }
+    return this;
+  }
+
+  isNoop(): boolean {
+    return this.ops.length === 0 || (this.ops.length === 1 && isRetain(this.ops[0]));
+  }
+
+  apply(doc: string): string {
+    if (doc.length !== this.baseLength) {
+      throw new Error(
+        `Operation base length (${this.baseLength}) does not match document length (${doc.length})`
+      );
+    }
+
+    const parts: string[] = [];
+    let index = 0;
+    for (const op of this.ops) {
+      if (isRetain(op)) {
+        parts.push(doc.slice(index, index + op));
+        index += op;
+      } else if (isInsert(op)) {
+        parts.push(op);
+      } else {
+        index -= op;
+      }
+    }
+    return parts.join('');
+  }
+
+  toJSON(): OpComponent[] {
+    return this.ops;
+  }
+
+  static fromJSON(ops: unknown): TextOperation {
+    if (!Array.isArray(ops)) {
+      throw new Error('Operation must be an array');
+    }
+
+    const operation = new TextOperation();
+    for (const op of ops) {
+      if (typeof op === 'string') {
+        operation.insert(op);
+      } else if (typeof op === 'number' && Number.isInteger(op)) {
+        if (op > 0) operation.retain(op);
+        else operation.delete(op);
+      } else {
+        throw new Error(`Invalid operation component: ${JSON.stringify(op)}`);
+      }
+    }
+    return operation;
+  }
+
+  // Builds an operation that turns `from` into `to` (common prefix/suffix kept)
+  static fromDiff(from: string, to: string): TextOperation {
+    let prefix = 0;
+    while (prefix < from.length && prefix < to.length && from[prefix] === to[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < from.length - prefix &&
+      suffix < to.length - prefix &&
+      from[from.length - 1 - suffix] === to[to.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    return new TextOperation()
+      .retain(prefix)
+      .delete(from.length - prefix - suffix)
+      .insert(to.slice(prefix, to.length - suffix))
+      .retain(suffix);
+  }
+
+  // Returns one operation with the same effect as applying this, then `other`
+  compose(other: TextOperation): TextOperation {
+    if (this.targetLength !== other.baseLength) {
+      throw new Error('The base length of the second operation has to be the target length of the first');
+    }
+
+    const composed = new TextOperation();
+    const ops1 = this.ops.slice();
+    const ops2 = other.ops.slice();
+    let i1 = 0;
+    let i2 = 0;
+    let op1: OpComponent | undefined = ops1[i1++];
+    let op2: OpComponent | undefined = ops2[i2++];
+
+    while (op1 !== undefined || op2 !== undefined) {
+      if (op1 !== undefined && isDelete(op1)) {
+        composed.delete(op1);
+        op1 = ops1[i1++];
+        continue;
+      }
+      if (op2 !== undefined && isInsert(op2)) {
+        composed.insert(op2);
+        op2 = ops2[i2++];
+        continue;
+      }
+
+      if (op1 === undefined || op2 === undefined) {
+        throw new Error('Cannot compose operations: first operation is too short or too long');
+      }
+
+      if (isInsert(op1)) {
+        const n2 = op2 as number;
+        const len = Math.min(op1.length, Math.abs(n2));
+        if (n2 > 0) composed.insert(op1.slice(0, len));
+        op1 = op1.length > len ? op1.slice(len) : ops1[i1++];
+        const rest2 = TextOperation.shrink(n2, len);
+        op2 = rest2 !== undefined ? rest2 : ops2[i2++];
+        continue;
+      }
+
+      // op1 is a retain here
+      const n1 = op1 as number;
+      const n2 = op2 as number;
+      const len = Math.min(n1, Math.abs(n2));
+      if (n2 > 0) composed.retain(len);
+      else composed.delete(len);
+      const rest1 = TextOperation.shrink(n1, len);
+      op1 = rest1 !== undefined ? rest1 : ops1[i1++];
+      const rest2 = TextOperation.shrink(n2, len);
+      op2 = rest2 !== undefined ? rest2 : ops2[i2++];
+    }
+
+    return composed;
+  }
+
+  // Given a and b applying to the same document, returns [a', b'] such that
+  // apply(apply(doc, a), b') === apply(apply(doc, b), a').
+  static transform(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+    if (a.baseLength !== b.baseLength) {
+      throw new Error('Both operations have to have the same base length');
+    }
+
+    const aPrime = new TextOperation();
+    const bPrime = new TextOperation();
+    const ops1 = a.ops.slice();
+    const ops2 = b.ops.slice();
+    let i1 = 0;
+    let i2 = 0;
+    let op1: OpComponent | undefined = ops1[i1++];
+    let op2: OpComponent | undefined = ops2[i2++];
+
+    while (op1 !== undefined || op2 !== undefined) {
+      // Inserts go first; a wins ties so both sides agree on the order
+      if (op1 !== undefined && isInsert(op1)) {
+        aPrime.insert(op1);
+        bPrime.retain(op1.length);
+        op1 = ops1[i1++];
+        continue;
+      }
+      if (op2 !== undefined && isInsert(op2)) {
+        aPrime.retain(op2.length);
+        bPrime.insert(op2);
+        op2 = ops2[i2++];
+        continue;
+      }
+
+      if (op1 === undefined || op2 === undefined) {
+        throw new Error('Cannot transform operations: first operation is too short or too long');
+      }
+
+      const n1 = op1 as number;
+      const n2 = op2 as number;
+      let minl: number;
+
+      if (n1 > 0 && n2 > 0) {
+        // retain / retain
+        minl = Math.min(n1, n2);
+        aPrime.retain(minl);
+        bPrime.retain(minl);
+      } else if (n1 < 0 && n2 < 0) {
+        // delete / delete: both removed the same text, nothing left to do
+        minl = Math.min(-n1, -n2);
+      } else if (n1 < 0) {
+        // delete / retain
+        minl = Math.min(-n1, n2);
+        aPrime.delete(minl);
+      } else {
+        // retain / delete
+        minl = Math.min(n1, -n2);
+        bPrime.delete(minl);
+      }
+
+      const rest1 = TextOperation.shrink(n1, minl);
+      op1 = rest1 !== undefined ? rest1 : ops1[i1++];
+      const rest2 = TextOperation.shrink(n2, minl);
+      op2 = rest2 !== undefined ? rest2 : ops2[i2++];
+    }
+
+    return [aPrime, bPrime];
+  }
+
+  // Shrinks a retain/delete component by `amount`; undefined once it is used up
+  private static shrink(op: number, amount: number): number | undefined {
+    if (op > 0) {
+      return op === amount ? undefined : op - amount;
+    }
+    return op === -amount ? undefined : op + amount;
+  }
+}
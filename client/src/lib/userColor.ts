@@ -0,0 +1,15 @@
+// src/lib/userColor.ts
+
+// Stable colour per collaborator, derived from their avatar + name
+export const colorForUser = (
+  user: { userName: string; avatar?: string },
+  alpha = 1,
+): string => {
+  const seed = `${user.avatar || ''}|${user.userName}`;
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  }
+  const hue = Math.abs(hash) % 360;
+  return `hsla(${hue}, 80%, 60%, ${alpha})`;
+};
@@ -0,0 +1,332 @@
+// src/types/index.ts
+// Shapes of the payloads the server sends (see server/src/types)
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  guest: boolean;
+  email?: string;
+}
+
+export interface AuthSession {
+  token: string;
+  user: AuthUser;
+}
+
+export interface WorkspaceFile {
+  id: string;
+  name: string;
+  type: 'file' | 'folder';
+  parentId: string | null;
+  language?: string;
+}
+
+export type RoomRole = 'owner' | 'editor' | 'viewer';
+
+// What the owner has muted someone from
+export interface MuteState {
+  chat: boolean;
+  edit: boolean;
+}
+
+export interface RoomUser {
+  socketId: string;
+  userId: string;
+  userName: string;
+  guest: boolean;
+  role: RoomRole;
+  muted: MuteState;
+  joinedAt: string;
+  avatar?: string;
+  activeFileId?: string | null;
+}
+
+// A file as stored in Mongo / returned by the REST API (content included)
+export interface StoredFile {
+  fileId: string;
+  name: string;
+  type: 'file' | 'folder';
+  parentId: string | null;
+  content: string;
+  language: string;
+}
+
+export interface RoomRevision {
+  _id: string;
+  roomId: string;
+  kind: 'auto' | 'checkpoint';
+  name: string;
+  createdBy: string;
+  createdAt: string;
+  files?: StoredFile[];
+}
+
+// One event in a session recording (short keys, see server/src/models/SessionRecording)
+export interface RecordedEvent {
+  t: number;
+  k: 'op' | 'files' | 'reset' | 'run' | 'chat';
+  f?: string;
+  o?: (number | string)[];
+  u?: string;
+  m?: string;
+  x?: string;
+  l?: string;
+  w?: Partial<StoredFile>[];
+}
+
+export interface SessionRecording {
+  _id: string;
+  roomId: string;
+  startedAt: string;
+  endedAt: string | null;
+  participants: string[];
+  eventCount: number;
+  durationMs: number;
+  initialFiles?: StoredFile[];
+  events?: RecordedEvent[];
+}
+
+export interface RoomInvite {
+  _id: string;
+  roomId: string;
+  role: 'editor' | 'viewer';
+  createdBy: string;
+  expiresAt: string;
+  maxUses: number | null;
+  uses: number;
+  createdAt: string;
+}
+
+// Someone asking to be let into a knock-to-join room
+// Shell commands in place of a language's default build and run steps;
+// blank means the default
+export interface BuildCommands {
+  build: string;
+  run: string;
+}
+
+// Stdin, argv and environment for runs; shared by everyone in the room
+export interface RunInput {
+  stdin: string;
+  args: string[];
+  env: Record<string, string>;
+  limits: RunLimits;
+  // Keyed by language id
+  commands: Record<string, BuildCommands>;
+}
+
+// One entry of the server's language registry
+export interface LanguageInfo {
+  id: string;
+  label: string;
+  // Monaco's language id
+  monaco: string;
+  extensions: string[];
+  // What Run does: the code runner, the room's SQL database, the web
+  // preview, or nothing
+  runner: 'executor' | 'sql' | 'preview' | null;
+  // Whether this server can actually run it
+  runnable: boolean;
+  // The build/run commands this server uses by default; null if it doesn't
+  // take custom ones for this language
+  commands: BuildCommands | null;
+  template: string;
+}
+
+// Resource limits for a run, bounded by the server's policy
+export interface RunLimits {
+  // Seconds of CPU time
+  cpuTime: number;
+  // Seconds from start to finish
+  wallTime: number;
+  memoryMb: number;
+}
+
+// How a live run ended, as broadcast to the room
+export interface RunExit {
+  runId: string;
+  // null when someone stopped it
+  status: { id: number; description: string } | null;
+  time: number | null;
+  // Peak kilobytes, when the backend measured it
+  memory: number | null;
+  exitCode: number | null;
+  stoppedBy: string | null;
+}
+
+export interface RunLimitsPolicy {
+  defaults: RunLimits;
+  max: RunLimits;
+}
+
+export interface RoomBan {
+  userId: string;
+  userName: string;
+  bannedBy: string;
+  bannedAt: string;
+}
+
+export interface KnockRequest {
+  socketId: string;
+  userId: string;
+  userName: string;
+  guest: boolean;
+  avatar?: string;
+  requestedAt: string;
+}
+
+export type ComparisonMode = 'exact' | 'trimmed' | 'float';
+
+// Hidden cases come without input/expectedOutput unless you own the room
+export interface TestCase {
+  _id: string;
+  roomId: string;
+  name: string;
+  hidden: boolean;
+  comparison: ComparisonMode;
+  tolerance: number;
+  order: number;
+  createdBy: string;
+  createdAt: string;
+  input?: string;
+  expectedOutput?: string;
+}
+
+export interface TestCaseResult {
+  caseId: string;
+  name: string;
+  hidden: boolean;
+  passed: boolean;
+  status: { id: number; description: string };
+  // Seconds and kilobytes, when the runner reports them
+  time: number | null;
+  memory: number | null;
+  input?: string;
+  expectedOutput?: string;
+  stdout?: string | null;
+  stderr?: string | null;
+  compileOutput?: string | null;
+}
+
+// A finished run from the room's history. The list leaves out the code,
+// input and output; fetching one run fills them in.
+export interface RunRecord {
+  _id: string;
+  runId: string;
+  fileName: string;
+  language: string;
+  codeHash: string;
+  args: string[];
+  status: { id: number; description: string } | null;
+  time: number | null;
+  // Peak kilobytes, when the backend measured it
+  memory: number | null;
+  exitCode: number | null;
+  limits?: RunLimits;
+  // Multi-file runs: the path of the file that ran
+  entry?: string | null;
+  commands?: BuildCommands | null;
+  startedBy: string;
+  stoppedBy: string | null;
+  startedAt: string;
+  createdAt: string;
+  code?: string;
+  stdin?: string;
+  env?: Record<string, string>;
+  stdout?: string;
+  stderr?: string;
+  compileOutput?: string;
+}
+
+export type SqlCell = string | number | null;
+
+// What one statement of a SQL run produced: rows for queries, a count of
+// changed rows for everything else
+export interface SqlStatementResult {
+  columns: string[];
+  rows: SqlCell[][];
+  rowsModified: number;
+  // Cut off at the server's row limit
+  truncated: boolean;
+}
+
+// The room's latest SQL run, as broadcast to everyone
+export interface SqlRunResult {
+  runId: string;
+  ranBy: string;
+  statements: SqlStatementResult[];
+  // Set when a statement failed; the ones before it still ran
+  error: string | null;
+  time: number;
+}
+
+export type RunJobKind = 'run' | 'tests';
+export type RunJobStatus = 'queued' | 'running' | 'done' | 'cancelled' | 'timed-out';
+
+// A run waiting for, or holding, one of the server's execution slots
+export interface RunJob {
+  jobId: string;
+  kind: RunJobKind;
+  userId: string;
+  userName: string;
+  status: RunJobStatus;
+  // 1-based place in the room's queue while queued, otherwise 0
+  position: number;
+  queuedAt: string;
+  startedAt: string | null;
+  cancelledBy: string | null;
+}
+
+export interface TestRunSummary {
+  language: string;
+  passed: number;
+  total: number;
+  results: TestCaseResult[];
+  ranBy: string;
+  ranAt: string;
+}
+
+export interface ChatReaction {
+  emoji: string;
+  userId: string;
+  userName: string;
+}
+
+// One chat message, as the server sends it
+export interface ChatMessage {
+  id: string;
+  message: string;
+  userName: string;
+  userId: string;
+  avatar?: string;
+  // Generated by the server (kicks, bans, …)
+  system?: boolean;
+  // The message this answers, as it read at the time
+  replyTo?: { id: string; userName: string; excerpt: string };
+  // userIds of the people it @mentions
+  mentions: string[];
+  reactions: ChatReaction[];
+  editedAt: string | null;
+  deleted: boolean;
+  timestamp: string;
+}
+
+// A stretch of a room's chat, oldest first
+export interface ChatPage {
+  messages: ChatMessage[];
+  // Whether there are older messages to fetch
+  hasMore: boolean;
+  // Sent back as `before` to fetch the page before this one
+  cursor: string | null;
+}
+
+// Something in the room worth our attention, kept for the notification center
+export interface AppNotification {
+  id: string;
+  kind: 'mention' | 'join' | 'run-failed' | 'role';
+  text: string;
+  // What was said, for mentions
+  detail?: string;
+  at: string;
+  read: boolean;
+}
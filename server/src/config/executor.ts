@@ -0,0 +1,117 @@
+import dotenv from 'dotenv';
+import type { RunLimits } from '../types';
+
+dotenv.config();
+
+export type ExecutorBackend = 'judge0' | 'docker' | 'fake';
+
+const BACKENDS: ExecutorBackend[] = ['judge0', 'docker', 'fake'];
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const backendFromEnv = (): ExecutorBackend => {
+  const value = process.env.EXECUTOR ?? 'judge0';
+  if (BACKENDS.includes(value as ExecutorBackend)) return value as ExecutorBackend;
+  console.warn(`⚠️  Unknown EXECUTOR "${value}", falling back to judge0`);
+  return 'judge0';
+};
+
+export interface Judge0Config {
+  // RapidAPI's hosted instance, or your own Judge0 deployment
+  baseUrl: string;
+  rapidApiKey?: string;
+  // X-Auth-Token for self-hosted Judge0 with AUTHN_TOKEN set
+  authToken?: string;
+  // Give up on a submission that hasn't come back by then
+  timeoutMs: number;
+}
+
+export interface DockerConfig {
+  socketPath: string;
+  memoryMb: number;
+  cpus: number;
+  pidsLimit: number;
+  timeoutMs: number;
+  // Interactive runs wait on people typing, so they get longer
+  interactiveTimeoutMs: number;
+  // stdout and stderr are each cut off after this many bytes
+  maxOutputBytes: number;
+}
+
+export interface RunQueueConfig {
+  // Jobs running at once across the whole server
+  globalConcurrency: number;
+  // ...and per room (or per client, for runs outside a room)
+  roomConcurrency: number;
+  // Jobs a room can have waiting before new ones are turned away
+  maxQueuedPerRoom: number;
+  // A job still running after this long is stopped and marked timed-out
+  jobTimeoutMs: number;
+}
+
+// What runs get unless they ask otherwise, and the most they can ask for
+export interface RunLimitsConfig {
+  defaults: RunLimits;
+  max: RunLimits;
+}
+
+// SQL rooms run against an in-process SQLite database (see utils/sqlPlayground)
+export interface SqlConfig {
+  // A query still running after this long is killed and the database reset
+  timeoutMs: number;
+  // Rows returned per result set; the rest are cut off
+  maxRows: number;
+}
+
+export interface ExecutorConfig {
+  backend: ExecutorBackend;
+  judge0: Judge0Config;
+  docker: DockerConfig;
+  queue: RunQueueConfig;
+  limits: RunLimitsConfig;
+  sql: SqlConfig;
+}
+
+export const executorConfig: ExecutorConfig = {
+  backend: backendFromEnv(),
+  judge0: {
+    baseUrl: (process.env.JUDGE0_URL ?? 'https://judge0-ce.p.rapidapi.com').replace(/\/+$/, ''),
+    rapidApiKey: process.env.RAPIDAPI_KEY,
+    authToken: process.env.JUDGE0_AUTH_TOKEN,
+    timeoutMs: numberFromEnv('JUDGE0_TIMEOUT_MS', 30000)
+  },
+  docker: {
+    socketPath: process.env.DOCKER_SOCKET ?? '/var/run/docker.sock',
+    memoryMb: numberFromEnv('SANDBOX_MEMORY_MB', 256),
+    cpus: numberFromEnv('SANDBOX_CPUS', 0.5),
+    pidsLimit: numberFromEnv('SANDBOX_PIDS_LIMIT', 64),
+    timeoutMs: numberFromEnv('SANDBOX_TIMEOUT_MS', 10000),
+    interactiveTimeoutMs: numberFromEnv('SANDBOX_INTERACTIVE_TIMEOUT_MS', 5 * 60 * 1000),
+    maxOutputBytes: numberFromEnv('SANDBOX_MAX_OUTPUT_BYTES', 64 * 1024)
+  },
+  queue: {
+    globalConcurrency: numberFromEnv('RUN_QUEUE_CONCURRENCY', 4),
+    roomConcurrency: numberFromEnv('RUN_QUEUE_ROOM_CONCURRENCY', 1),
+    maxQueuedPerRoom: numberFromEnv('RUN_QUEUE_MAX_PER_ROOM', 10),
+    jobTimeoutMs: numberFromEnv('RUN_JOB_TIMEOUT_MS', 60000)
+  },
+  limits: {
+    defaults: {
+      cpuTime: numberFromEnv('RUN_CPU_TIME_S', 2),
+      wallTime: numberFromEnv('RUN_WALL_TIME_S', 5),
+      memoryMb: numberFromEnv('RUN_MEMORY_MB', 128)
+    },
+    max: {
+      cpuTime: numberFromEnv('RUN_MAX_CPU_TIME_S', 15),
+      wallTime: numberFromEnv('RUN_MAX_WALL_TIME_S', 30),
+      memoryMb: numberFromEnv('RUN_MAX_MEMORY_MB', 512)
+    }
+  },
+  sql: {
+    timeoutMs: numberFromEnv('SQL_TIMEOUT_MS', 5000),
+    maxRows: numberFromEnv('SQL_MAX_ROWS', 1000)
+  }
+};
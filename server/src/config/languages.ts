@@ -0,0 +1,281 @@
+// server/src/config/languages.ts
+
+// How a container runs one language (see executors/dockerExecutor). Both
+// commands go to `sh -c` in the workspace, with $ENTRY set to the entry
+// file's path and $ENTRY_NAME to its name without the extension.
+export interface SandboxSpec {
+  image: string;
+  // What the code is saved as for a single-file run
+  fileName: string;
+  // Runs first with /sandbox writable; a non-zero exit is a compilation error
+  compile?: string;
+  run: string;
+  env?: string[];
+}
+
+// The same, for Judge0's multi-file submissions: scripts run in Judge0's own
+// image, so the tools go by their full paths there
+export interface Judge0BundleSpec {
+  compile?: string;
+  run: string;
+}
+
+// `executor`: the configured code runner; `sql`: the room's SQLite database;
+// `preview`: the web preview pane; null: editing only
+export type LanguageRunner = 'executor' | 'sql' | 'preview' | null;
+
+export interface LanguageSpec {
+  id: string;
+  label: string;
+  // Monaco's language id, for highlighting
+  monaco: string;
+  // Without dots; the first one names new files
+  extensions: string[];
+  runner: LanguageRunner;
+  // Judge0 language id, for the judge0 backend
+  judge0Id?: number;
+  judge0Bundle?: Judge0BundleSpec;
+  // Image and commands, for the docker backend
+  sandbox?: SandboxSpec;
+  // What a new file starts with
+  template: string;
+}
+
+// Every file in the workspace with one of these extensions, as shell words
+const sources = (...extensions: string[]): string =>
+  `$(find . ${extensions.map((ext) => `-name '*.${ext}'`).join(' -o ')})`;
+
+const GO_MODULE = '[ -f go.mod ] || go mod init sandbox >/dev/null 2>&1;';
+
+/**
+ * Every language the editor knows about. Adding one here is all it takes:
+ * the UI, file extensions, validation and both code runners read from this.
+ */
+export const LANGUAGES: LanguageSpec[] = [
+  {
+    id: 'javascript',
+    label: 'JavaScript',
+    monaco: 'javascript',
+    extensions: ['js', 'mjs', 'cjs', 'jsx'],
+    runner: 'executor',
+    judge0Id: 63, // Node.js
+    judge0Bundle: { run: '/usr/local/node-12.14.0/bin/node "$ENTRY"' },
+    sandbox: { image: 'node:20-alpine', fileName: 'main.js', run: 'node "$ENTRY"' },
+    template: "console.log('Hello, world!');\n"
+  },
+  {
+    id: 'typescript',
+    label: 'TypeScript',
+    monaco: 'typescript',
+    extensions: ['ts', 'tsx'],
+    runner: 'executor',
+    judge0Id: 74,
+    judge0Bundle: {
+      compile: `/usr/bin/tsc --outDir out --rootDir . ${sources('ts')}`,
+      run: '/usr/local/node-12.14.0/bin/node "out/${ENTRY%.ts}.js"'
+    },
+    sandbox: {
+      image: 'denoland/deno:alpine',
+      fileName: 'main.ts',
+      run: 'deno run --no-prompt "$ENTRY"',
+      env: ['DENO_DIR=/tmp/deno', 'NO_COLOR=1']
+    },
+    template: "const greeting: string = 'Hello, world!';\nconsole.log(greeting);\n"
+  },
+  {
+    id: 'python',
+    label: 'Python',
+    monaco: 'python',
+    extensions: ['py'],
+    runner: 'executor',
+    judge0Id: 71, // Python 3.8.1
+    judge0Bundle: { run: '/usr/local/python-3.8.1/bin/python3 -u "$ENTRY"' },
+    sandbox: { image: 'python:3.12-alpine', fileName: 'main.py', run: 'python3 -u "$ENTRY"' },
+    template: "print('Hello, world!')\n"
+  },
+  {
+    id: 'java',
+    label: 'Java',
+    monaco: 'java',
+    extensions: ['java'],
+    runner: 'executor',
+    judge0Id: 62, // OpenJDK 13
+    judge0Bundle: {
+      compile: `/usr/local/openjdk13/bin/javac -d out ${sources('java')}`,
+      run: '/usr/local/openjdk13/bin/java -cp out "$ENTRY_NAME"'
+    },
+    sandbox: {
+      image: 'eclipse-temurin:21-jdk-alpine',
+      fileName: 'Main.java',
+      compile: `javac -d out ${sources('java')}`,
+      run: 'java -cp out "$ENTRY_NAME"'
+    },
+    template:
+      'public class Main {\n    public static void main(String[] args) {\n        System.out.println("Hello, world!");\n    }\n}\n'
+  },
+  {
+    id: 'cpp',
+    label: 'C++',
+    monaco: 'cpp',
+    extensions: ['cpp', 'cc', 'cxx', 'hpp', 'c', 'h'],
+    runner: 'executor',
+    judge0Id: 54, // GCC 9.2.0
+    judge0Bundle: {
+      compile: `/usr/local/gcc-9.2.0/bin/g++ -O2 -std=c++17 -I. -o main ${sources('cpp', 'cc', 'cxx', 'c')}`,
+      run: './main'
+    },
+    sandbox: {
+      image: 'gcc:13',
+      fileName: 'main.cpp',
+      compile: `g++ -O2 -std=c++17 -I. -o main ${sources('cpp', 'cc', 'cxx', 'c')}`,
+      run: './main'
+    },
+    template: '#include <iostream>\n\nint main() {\n    std::cout << "Hello, world!" << std::endl;\n    return 0;\n}\n'
+  },
+  {
+    id: 'csharp',
+    label: 'C#',
+    monaco: 'csharp',
+    extensions: ['cs'],
+    runner: 'executor',
+    judge0Id: 51, // Mono 6.6.0.161
+    judge0Bundle: {
+      compile: `/usr/local/mono-6.6.0.161/bin/mcs -out:main.exe ${sources('cs')}`,
+      run: '/usr/local/mono-6.6.0.161/bin/mono main.exe'
+    },
+    sandbox: {
+      image: 'mono:6.12',
+      fileName: 'main.cs',
+      compile: `mcs -out:main.exe ${sources('cs')}`,
+      run: 'mono main.exe'
+    },
+    template:
+      'using System;\n\nclass Program {\n    static void Main() {\n        Console.WriteLine("Hello, world!");\n    }\n}\n'
+  },
+  {
+    id: 'php',
+    label: 'PHP',
+    monaco: 'php',
+    extensions: ['php'],
+    runner: 'executor',
+    judge0Id: 68,
+    judge0Bundle: { run: '/usr/local/php-7.4.1/bin/php "$ENTRY"' },
+    sandbox: { image: 'php:8.3-cli-alpine', fileName: 'main.php', run: 'php "$ENTRY"' },
+    template: "<?php\necho \"Hello, world!\\n\";\n"
+  },
+  {
+    id: 'ruby',
+    label: 'Ruby',
+    monaco: 'ruby',
+    extensions: ['rb'],
+    runner: 'executor',
+    judge0Id: 72,
+    judge0Bundle: { run: '/usr/local/ruby-2.7.0/bin/ruby "$ENTRY"' },
+    sandbox: { image: 'ruby:3.3-alpine', fileName: 'main.rb', run: 'ruby "$ENTRY"' },
+    template: "puts 'Hello, world!'\n"
+  },
+  {
+    id: 'go',
+    label: 'Go',
+    monaco: 'go',
+    extensions: ['go'],
+    runner: 'executor',
+    judge0Id: 60,
+    judge0Bundle: {
+      compile: `export PATH=/usr/local/go-1.13.5/bin:$PATH GOCACHE=/tmp/go-cache HOME=/tmp; ${GO_MODULE} go build -o main "./$(dirname "$ENTRY")"`,
+      run: './main'
+    },
+    sandbox: {
+      image: 'golang:1.22-alpine',
+      fileName: 'main.go',
+      compile: `${GO_MODULE} go build -o main "./$(dirname "$ENTRY")"`,
+      run: './main',
+      env: ['GOCACHE=/tmp/go-cache', 'HOME=/tmp', 'CGO_ENABLED=0']
+    },
+    template: 'package main\n\nimport "fmt"\n\nfunc main() {\n\tfmt.Println("Hello, world!")\n}\n'
+  },
+  {
+    id: 'rust',
+    label: 'Rust',
+    monaco: 'rust',
+    extensions: ['rs'],
+    runner: 'executor',
+    judge0Id: 73,
+    judge0Bundle: { compile: '/usr/local/rust-1.40.0/bin/rustc -O -o main "$ENTRY"', run: './main' },
+    sandbox: {
+      image: 'rust:1-slim',
+      fileName: 'main.rs',
+      compile: 'rustc -O -o main "$ENTRY"',
+      run: './main'
+    },
+    template: 'fn main() {\n    println!("Hello, world!");\n}\n'
+  },
+  {
+    id: 'html',
+    label: 'HTML',
+    monaco: 'html',
+    extensions: ['html', 'htm'],
+    runner: 'preview',
+    template:
+      '<!doctype html>\n<html>\n  <head>\n    <meta charset="utf-8" />\n    <title>Hello</title>\n  </head>\n  <body>\n    <h1>Hello, world!</h1>\n  </body>\n</html>\n'
+  },
+  {
+    id: 'css',
+    label: 'CSS',
+    monaco: 'css',
+    extensions: ['css'],
+    runner: null,
+    template: ''
+  },
+  {
+    id: 'sql',
+    label: 'SQL',
+    monaco: 'sql',
+    extensions: ['sql'],
+    runner: 'sql',
+    template: "SELECT 'Hello, world!' AS greeting;\n"
+  },
+  {
+    id: 'json',
+    label: 'JSON',
+    monaco: 'json',
+    extensions: ['json'],
+    runner: null,
+    template: ''
+  },
+  {
+    id: 'markdown',
+    label: 'Markdown',
+    monaco: 'markdown',
+    extensions: ['md'],
+    runner: null,
+    template: ''
+  },
+  {
+    id: 'plaintext',
+    label: 'Plain Text',
+    monaco: 'plaintext',
+    extensions: ['txt'],
+    runner: null,
+    template: ''
+  }
+];
+
+const BY_ID = new Map(LANGUAGES.map((language) => [language.id, language]));
+const BY_EXTENSION = new Map(
+  LANGUAGES.flatMap((language) => language.extensions.map((ext) => [ext, language] as const))
+);
+
+export const LANGUAGE_IDS = LANGUAGES.map((language) => language.id);
+
+export const getLanguage = (id: string): LanguageSpec | undefined => BY_ID.get(id);
+
+export const languageForExtension = (extension: string): LanguageSpec | undefined =>
+  BY_EXTENSION.get(extension.toLowerCase());
+
+// $ENTRY and $ENTRY_NAME for the build/run commands
+export const entryEnv = (entry: string): Record<string, string> => {
+  const name = entry.slice(entry.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return { ENTRY: entry, ENTRY_NAME: dot > 0 ? name.slice(0, dot) : name };
+};
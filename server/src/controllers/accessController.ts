@@ -0,0 +1,184 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Room } from '../models/Room';
+import { RoomInvite } from '../models/RoomInvite';
+import { hashRoomPassword, MIN_ROOM_PASSWORD_LENGTH } from '../utils/roomAccess';
+import { isAssignableRole } from '../utils/permissions';
+import JWTUtils from '../utils/jwtUtils';
+import type SocketManager from '../utils/socketManager';
+
+const jwtUtils = new JWTUtils();
+
+const DEFAULT_INVITE_HOURS = 24;
+const MAX_INVITE_HOURS = 30 * 24;
+const MAX_INVITE_USES = 1000;
+
+export const getRoomAccess = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const room = await Room.findOne({ roomId }).select('passwordHash knockToJoin');
+
+    if (!room) {
+      res.status(404).json({ success: false, error: 'Room not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { hasPassword: !!room.passwordHash, knockToJoin: room.knockToJoin }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// Body: { password?: string | null, knockToJoin?: boolean }. An empty or null
+// password makes the room open again.
+export const updateRoomAccess = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const { password, knockToJoin } = req.body;
+    const update: { passwordHash?: string | null; knockToJoin?: boolean } = {};
+
+    if (password !== undefined) {
+      if (password === null || password === '') {
+        update.passwordHash = null;
+      } else if (typeof password !== 'string' || password.length < MIN_ROOM_PASSWORD_LENGTH) {
+        res.status(400).json({
+          success: false,
+          error: `Room password must be at least ${MIN_ROOM_PASSWORD_LENGTH} characters`
+        });
+        return;
+      } else {
+        update.passwordHash = await hashRoomPassword(password);
+      }
+    }
+    if (knockToJoin !== undefined) {
+      if (typeof knockToJoin !== 'boolean') {
+        res.status(400).json({ success: false, error: 'knockToJoin must be a boolean' });
+        return;
+      }
+      update.knockToJoin = knockToJoin;
+    }
+
+    const room = await Room.findOneAndUpdate({ roomId }, update, { new: true });
+    if (!room) {
+      res.status(404).json({ success: false, error: 'Room not found' });
+      return;
+    }
+
+    const socketManager: SocketManager = req.app.get('socketManager');
+    socketManager.setAccess(roomId, update);
+
+    res.status(200).json({
+      success: true,
+      message: 'Room access updated',
+      data: { hasPassword: !!room.passwordHash, knockToJoin: room.knockToJoin }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// Body: { expiresInHours?: number, maxUses?: number | null, role?: 'editor' | 'viewer' }
+export const createInvite = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const { expiresInHours = DEFAULT_INVITE_HOURS, maxUses = null, role = 'editor' } = req.body;
+
+    if (typeof expiresInHours !== 'number' || expiresInHours <= 0 || expiresInHours > MAX_INVITE_HOURS) {
+      res.status(400).json({
+        success: false,
+        error: `Invites can last between 1 hour and ${MAX_INVITE_HOURS / 24} days`
+      });
+      return;
+    }
+    if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_INVITE_USES)) {
+      res.status(400).json({
+        success: false,
+        error: `maxUses must be between 1 and ${MAX_INVITE_USES}, or null for unlimited`
+      });
+      return;
+    }
+    if (!isAssignableRole(role)) {
+      res.status(400).json({ success: false, error: 'Invalid role' });
+      return;
+    }
+
+    const invite = await RoomInvite.create({
+      roomId,
+      role,
+      maxUses,
+      createdBy: req.user!.username,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000)
+    });
+    const token = jwtUtils.generateInviteToken(roomId, String(invite._id), invite.expiresAt);
+
+    res.status(201).json({
+      success: true,
+      message: 'Invite created successfully',
+      data: { invite, token }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// Invites that can still be used
+export const listInvites = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+
+    const invites = await RoomInvite.find({
+      roomId,
+      revoked: false,
+      expiresAt: { $gt: new Date() },
+      $or: [{ maxUses: null }, { $expr: { $lt: ['$uses', '$maxUses'] } }]
+    }).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: invites
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const revokeInvite = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const { inviteId } = req.params;
+
+    const invite = mongoose.isValidObjectId(inviteId)
+      ? await RoomInvite.findOneAndUpdate({ _id: inviteId, roomId }, { revoked: true }, { new: true })
+      : null;
+
+    if (!invite) {
+      res.status(404).json({ success: false, error: 'Invite not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Invite revoked'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,203 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { User, IUser } from '../models/User';
+import { RevokedToken } from '../models/RevokedToken';
+import JWTUtils from '../utils/jwtUtils';
+
+const jwtUtils = new JWTUtils();
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,30}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 6;
+const MAX_GUEST_NAME_LENGTH = 30;
+// Guest names end up in other people's pages (cursor labels, chat); no
+// newlines, tabs or other control characters
+const CONTROL_CHARACTERS = /[\p{Cc}\u2028\u2029]/u;
+
+const publicUser = (user: IUser) => ({
+  id: String(user._id),
+  username: user.username,
+  email: user.email,
+  guest: false,
+  createdAt: user.createdAt
+});
+
+export const register = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { username, email, password } = req.body;
+
+    if (typeof username !== 'string' || !USERNAME_PATTERN.test(username.trim())) {
+      res.status(400).json({
+        success: false,
+        error: 'Username must be 3-30 letters, digits, dots, dashes or underscores'
+      });
+      return;
+    }
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      res.status(400).json({ success: false, error: 'A valid email is required' });
+      return;
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+      });
+      return;
+    }
+
+    const existing = await User.findOne({
+      $or: [{ username: username.trim() }, { email: email.trim().toLowerCase() }]
+    });
+    if (existing) {
+      res.status(409).json({
+        success: false,
+        error: existing.username === username.trim() ? 'Username is already taken' : 'Email is already registered'
+      });
+      return;
+    }
+
+    const user = await User.create({ username: username.trim(), email: email.trim(), password });
+    const token = jwtUtils.generateToken(String(user._id), user.username);
+
+    res.status(201).json({
+      success: true,
+      message: 'Account created successfully',
+      data: { token, user: publicUser(user) }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const login = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // `login` is either the username or the email
+    const { login, password } = req.body;
+
+    if (typeof login !== 'string' || !login.trim() || typeof password !== 'string' || !password) {
+      res.status(400).json({ success: false, error: 'Username/email and password are required' });
+      return;
+    }
+
+    const user = await User.findOne({
+      $or: [{ username: login.trim() }, { email: login.trim().toLowerCase() }]
+    });
+
+    if (!user || !(await user.comparePassword(password))) {
+      res.status(401).json({ success: false, error: 'Invalid credentials' });
+      return;
+    }
+
+    const token = jwtUtils.generateToken(String(user._id), user.username);
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged in successfully',
+      data: { token, user: publicUser(user) }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// Guest mode: no account, but still a signed identity the socket layer can trust
+export const guestLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { username } = req.body;
+
+    if (typeof username !== 'string' || !username.trim()) {
+      res.status(400).json({ success: false, error: 'A display name is required' });
+      return;
+    }
+    if (username.trim().length > MAX_GUEST_NAME_LENGTH) {
+      res.status(400).json({ success: false, error: 'Display name is too long' });
+      return;
+    }
+    if (CONTROL_CHARACTERS.test(username)) {
+      res.status(400).json({ success: false, error: 'Display name contains invalid characters' });
+      return;
+    }
+
+    const name = username.trim();
+    // Guests can't pass themselves off as an account holder in chat and presence
+    const taken = await User.exists({ username: name }).collation({ locale: 'en', strength: 2 });
+    if (taken) {
+      res.status(409).json({ success: false, error: 'That name belongs to a registered account' });
+      return;
+    }
+
+    const userId = `guest-${uuidv4()}`;
+    const token = jwtUtils.generateToken(userId, name, true);
+
+    res.status(201).json({
+      success: true,
+      message: 'Guest session started',
+      data: { token, user: { id: userId, username: name, guest: true } }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const me = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId, username, guest } = req.user!;
+
+    if (guest) {
+      res.status(200).json({
+        success: true,
+        data: { id: userId, username, guest: true }
+      });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ success: false, error: 'User not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: publicUser(user)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { jti, exp } = req.user!;
+
+    if (jti) {
+      await RevokedToken.updateOne(
+        { jti },
+        { jti, expiresAt: new Date(exp * 1000) },
+        { upsert: true }
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
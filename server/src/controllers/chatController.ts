@@ -0,0 +1,36 @@
+import { Request, Response } from 'express';
+import { CHAT_PAGE_SIZE, ChatCursor, loadChatPage, MAX_CHAT_PAGE_SIZE, parseChatCursor } from '../utils/chatHistory';
+
+// A page of older chat: `before` is the cursor the previous page came with;
+// left out, the newest page
+export const listMessages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const { before, limit } = req.query;
+
+    let start: ChatCursor | undefined;
+    if (before !== undefined) {
+      const parsed = parseChatCursor(String(before));
+      if (!parsed) {
+        res.status(400).json({ success: false, error: 'before must be a cursor from an earlier page' });
+        return;
+      }
+      start = parsed;
+    }
+    const pageSize = limit === undefined ? CHAT_PAGE_SIZE : Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_CHAT_PAGE_SIZE) {
+      res.status(400).json({ success: false, error: `limit must be between 1 and ${MAX_CHAT_PAGE_SIZE}` });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await loadChatPage(roomId, start, pageSize)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
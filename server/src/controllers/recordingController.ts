@@ -0,0 +1,55 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { SessionRecording, RecordingChunk } from '../models/SessionRecording';
+
+export const listRecordings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+
+    const recordings = await SessionRecording.find({ roomId, eventCount: { $gt: 0 } })
+      .sort({ startedAt: -1 })
+      .limit(100)
+      .select('-initialFiles');
+
+    res.status(200).json({
+      success: true,
+      data: recordings
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const getRecording = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const { recordingId } = req.params;
+
+    const recording = mongoose.isValidObjectId(recordingId)
+      ? await SessionRecording.findOne({ _id: recordingId, roomId })
+      : null;
+
+    if (!recording) {
+      res.status(404).json({ success: false, error: 'Recording not found' });
+      return;
+    }
+
+    const chunks = await RecordingChunk.find({ recordingId: recording._id }).sort({ seq: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...recording.toObject(),
+        events: chunks.flatMap((chunk) => chunk.events)
+      }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
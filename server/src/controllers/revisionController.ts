@@ -0,0 +1,152 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Room, IRoomFile } from '../models/Room';
+import { RoomRevision } from '../models/RoomRevision';
+import { createRevision } from '../utils/revisions';
+import type SocketManager from '../utils/socketManager';
+
+const MAX_CHECKPOINT_NAME_LENGTH = 100;
+
+// Live contents if someone has the room open, otherwise what's in Mongo
+const currentFiles = async (req: Request, roomId: string): Promise<IRoomFile[] | null> => {
+  const socketManager: SocketManager = req.app.get('socketManager');
+  const live = socketManager.getFiles(roomId);
+  if (live) return live;
+
+  const room = await Room.findOne({ roomId });
+  return room ? room.files : null;
+};
+
+export const listRevisions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+
+    const revisions = await RoomRevision.find({ roomId })
+      .sort({ createdAt: -1 })
+      .limit(200)
+      .select('-files');
+
+    res.status(200).json({
+      success: true,
+      data: revisions
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const createCheckpoint = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const { name } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ success: false, error: 'Checkpoint name is required' });
+      return;
+    }
+    if (name.length > MAX_CHECKPOINT_NAME_LENGTH) {
+      res.status(400).json({ success: false, error: 'Checkpoint name is too long' });
+      return;
+    }
+
+    const files = await currentFiles(req, roomId);
+    if (!files) {
+      res.status(404).json({ success: false, error: 'Room not found' });
+      return;
+    }
+
+    const revision = await createRevision(roomId, files, 'checkpoint', name.trim(), req.user!.username);
+
+    res.status(201).json({
+      success: true,
+      message: 'Checkpoint created successfully',
+      data: revision
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const getRevision = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const { revisionId } = req.params;
+
+    const revision = mongoose.isValidObjectId(revisionId)
+      ? await RoomRevision.findOne({ _id: revisionId, roomId })
+      : null;
+
+    if (!revision) {
+      res.status(404).json({ success: false, error: 'Revision not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: revision
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const restoreRevision = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const { revisionId } = req.params;
+
+    const revision = mongoose.isValidObjectId(revisionId)
+      ? await RoomRevision.findOne({ _id: revisionId, roomId })
+      : null;
+
+    if (!revision) {
+      res.status(404).json({ success: false, error: 'Revision not found' });
+      return;
+    }
+
+    const files = await currentFiles(req, roomId);
+    if (!files) {
+      res.status(404).json({ success: false, error: 'Room not found' });
+      return;
+    }
+
+    // Keep what we're about to overwrite, so a restore can itself be undone
+    const label = revision.name || revision.createdAt.toISOString();
+    await createRevision(roomId, files, 'auto', `Before restoring "${label}"`, req.user!.username);
+
+    const socketManager: SocketManager = req.app.get('socketManager');
+    const restoredFiles = revision.files.map((f) => ({
+      fileId: f.fileId,
+      name: f.name,
+      type: f.type,
+      parentId: f.parentId,
+      content: f.content,
+      language: f.language
+    }));
+
+    if (socketManager.roomExists(roomId)) {
+      socketManager.restoreFiles(roomId, restoredFiles);
+    } else {
+      await Room.updateOne({ roomId }, { files: restoredFiles, lastModified: new Date() });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Revision restored successfully'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
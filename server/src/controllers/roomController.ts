@@ -1,22 +1,26 @@
 import { Request, Response } from 'express';
 import { Room } from '../models/Room';
+import { RoomRevision } from '../models/RoomRevision';
+import { RoomInvite } from '../models/RoomInvite';
+import { TestCase } from '../models/TestCase';
+import { RunRecord } from '../models/RunRecord';
+import { ChatMessage } from '../models/ChatMessage';
+import { SessionRecording, RecordingChunk } from '../models/SessionRecording';
 import { v4 as uuidv4 } from 'uuid';
+import type SocketManager from '../utils/socketManager';
 
 export const createRoom = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { name, createdBy } = req.body;
-
-    if (!createdBy) {
-      res.status(400).json({ success: false, error: 'createdBy is required' });
-      return;
-    }
+    const { name } = req.body;
+    const { userId, username } = req.user!;
 
     const roomId = uuidv4();
 
     const newRoom = new Room({
       roomId,
       name: name || 'Untitled Room',
-      createdBy
+      createdBy: username,
+      ownerId: userId
     });
 
     await newRoom.save();
@@ -40,18 +44,54 @@ export const createRoom = async (req: Request, res: Response): Promise<void> =>
 
 export const getRoom = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { roomId } = req.params;
+    const roomId = req.params.roomId.toUpperCase();
 
-    const room = await Room.findOne({ roomId });
+    const room = await Room.findOne({ roomId }).select(
+      'roomId name createdBy createdAt passwordHash knockToJoin'
+    );
 
     if (!room) {
       res.status(404).json({ success: false, error: 'Room not found' });
       return;
     }
 
+    // Files, members, bans and mutes have endpoints (or sockets) of their own
     res.status(200).json({
       success: true,
-      data: room
+      data: {
+        roomId: room.roomId,
+        name: room.name,
+        createdBy: room.createdBy,
+        createdAt: room.createdAt,
+        passwordRequired: !!room.passwordHash,
+        knockToJoin: !!room.knockToJoin
+      }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// Files with their current contents — live if the room is open, else from Mongo
+export const getRoomFiles = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+
+    const socketManager: SocketManager = req.app.get('socketManager');
+    const live = socketManager.getFiles(roomId);
+    const files = live ?? (await Room.findOne({ roomId }))?.files;
+
+    if (!files) {
+      res.status(404).json({ success: false, error: 'Room not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: files
     });
   } catch (error) {
     res.status(500).json({
@@ -63,26 +103,45 @@ export const getRoom = async (req: Request, res: Response): Promise<void> => {
 
 export const saveRoom = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { roomId } = req.params;
     const { code, language } = req.body;
 
-    if (!roomId) {
+    if (!req.params.roomId) {
       res.status(400).json({ success: false, error: 'Room ID is required' });
       return;
     }
+    const roomId = req.params.roomId.toUpperCase();
+
+    // A room people are editing right now is saved from memory, not the request body
+    const socketManager: SocketManager = req.app.get('socketManager');
+    if (socketManager.roomExists(roomId)) {
+      socketManager.markDirty(roomId);
+      await socketManager.flushRoom(roomId);
+      res.status(200).json({
+        success: true,
+        message: 'Room saved successfully',
+        data: await Room.findOne({ roomId }).select('-passwordHash')
+      });
+      return;
+    }
 
+    // `code` is only read for pre-workspace rooms; once a room has files they
+    // change through the live session
     const updatedRoom = await Room.findOneAndUpdate(
-      { roomId },
+      { roomId, 'files.0': { $exists: false } },
       {
         code: code || '',
         language: language || 'javascript',
         lastModified: new Date()
       },
-      { new: true }
+      { new: true, projection: '-passwordHash' }
     );
 
     if (!updatedRoom) {
-      res.status(404).json({ success: false, error: 'Room not found' });
+      if (await Room.exists({ roomId })) {
+        res.status(409).json({ success: false, error: 'This room has files; open it to save changes' });
+      } else {
+        res.status(404).json({ success: false, error: 'Room not found' });
+      }
       return;
     }
 
@@ -101,12 +160,15 @@ export const saveRoom = async (req: Request, res: Response): Promise<void> => {
 
 export const deleteRoom = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { roomId } = req.params;
-
-    if (!roomId) {
+    if (!req.params.roomId) {
       res.status(400).json({ success: false, error: 'Room ID is required' });
       return;
     }
+    const roomId = req.params.roomId.toUpperCase();
+
+    // Out of memory first, so a pending save can't write the room back
+    const socketManager: SocketManager = req.app.get('socketManager');
+    await socketManager.closeRoom(roomId, 'This room was deleted by its owner');
 
     const deletedRoom = await Room.findOneAndDelete({ roomId });
 
@@ -115,6 +177,15 @@ export const deleteRoom = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    await RoomRevision.deleteMany({ roomId });
+    await RoomInvite.deleteMany({ roomId });
+    await TestCase.deleteMany({ roomId });
+    await RunRecord.deleteMany({ roomId });
+    await ChatMessage.deleteMany({ roomId });
+    const recordings = await SessionRecording.find({ roomId }).select('_id');
+    await RecordingChunk.deleteMany({ recordingId: { $in: recordings.map((r) => r._id) } });
+    await SessionRecording.deleteMany({ roomId });
+
     res.status(200).json({
       success: true,
       message: 'Room deleted successfully'
@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { RunRecord } from '../models/RunRecord';
+
+const MAX_LISTED_RUNS = 200;
+
+// Newest first, without the code and output; fetch a run for those
+export const listRuns = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+
+    const runs = await RunRecord.find({ roomId })
+      .sort({ createdAt: -1 })
+      .limit(MAX_LISTED_RUNS)
+      .select('-code -files -stdin -env -stdout -stderr -compileOutput');
+
+    res.status(200).json({
+      success: true,
+      data: runs
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const getRun = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const run = await RunRecord.findOne({ roomId, runId: req.params.runId });
+
+    if (!run) {
+      res.status(404).json({ success: false, error: 'Run not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: run
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
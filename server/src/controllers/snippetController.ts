@@ -1,24 +1,31 @@
 import { Request, Response } from 'express';
 import { Snippet } from '../models/Snippet';
+import { roomRoleFor } from '../middleware/auth';
+import { hasRole } from '../utils/permissions';
 
 export const saveSnippet = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { roomId, title, code, language, savedBy } = req.body;
+    const { roomId, title, code, language } = req.body;
 
-    if (!roomId || !title || !code || !savedBy) {
+    if (!roomId || !title || !code) {
       res.status(400).json({
         success: false,
-        error: 'roomId, title, code, and savedBy are required'
+        error: 'roomId, title, and code are required'
       });
       return;
     }
 
+    if (!hasRole(await roomRoleFor(req, String(roomId).toUpperCase()), 'editor')) {
+      res.status(403).json({ success: false, error: 'You need editor access to this room' });
+      return;
+    }
+
     const newSnippet = new Snippet({
-      roomId,
+      roomId: String(roomId).toUpperCase(),
       title,
       code,
       language: language || 'javascript',
-      savedBy
+      savedBy: req.user!.username
     });
 
     await newSnippet.save();
@@ -38,7 +45,7 @@ export const saveSnippet = async (req: Request, res: Response): Promise<void> =>
 
 export const getSnippetsByRoom = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { roomId } = req.params;
+    const roomId = req.params.roomId?.toUpperCase();
 
     if (!roomId) {
       res.status(400).json({ success: false, error: 'Room ID is required' });
@@ -68,13 +75,20 @@ export const deleteSnippet = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const deletedSnippet = await Snippet.findByIdAndDelete(snippetId);
+    const snippet = await Snippet.findById(snippetId);
 
-    if (!deletedSnippet) {
+    if (!snippet) {
       res.status(404).json({ success: false, error: 'Snippet not found' });
       return;
     }
 
+    if (!hasRole(await roomRoleFor(req, snippet.roomId.toUpperCase()), 'editor')) {
+      res.status(403).json({ success: false, error: 'You need editor access to this room' });
+      return;
+    }
+
+    await snippet.deleteOne();
+
     res.status(200).json({
       success: true,
       message: 'Snippet deleted successfully'
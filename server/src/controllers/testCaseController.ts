@@ -0,0 +1,335 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { TestCase, ITestCase, ComparisonMode } from '../models/TestCase';
+import { roomRoleFor } from '../middleware/auth';
+import { hasRole } from '../utils/permissions';
+import {
+  executionRequest,
+  MAX_STDIN_LENGTH,
+  parseRunInput,
+  parseSourceBundle,
+  RunInputError
+} from '../utils/runInput';
+import { judge } from '../utils/testCases';
+import { RunQueueError } from '../utils/runQueue';
+import { ExecutionStatus, getExecutor, type ExecutionResult } from '../executors';
+import type SocketManager from '../utils/socketManager';
+import { executorConfig } from '../config/executor';
+import type { TestCaseResult, TestRunSummary } from '../types';
+
+const MAX_TEST_CASES = 50;
+const MAX_TOLERANCE = 1;
+const COMPARISON_MODES: ComparisonMode[] = ['exact', 'trimmed', 'float'];
+
+// Hidden cases keep their input and expected output to the owner
+const publicTestCase = (testCase: ITestCase, isOwner: boolean) => ({
+  _id: testCase._id,
+  roomId: testCase.roomId,
+  name: testCase.name,
+  hidden: testCase.hidden,
+  comparison: testCase.comparison,
+  tolerance: testCase.tolerance,
+  order: testCase.order,
+  createdBy: testCase.createdBy,
+  createdAt: testCase.createdAt,
+  ...(!testCase.hidden || isOwner
+    ? { input: testCase.input, expectedOutput: testCase.expectedOutput }
+    : {})
+});
+
+type TestCaseFields = Partial<
+  Pick<ITestCase, 'name' | 'input' | 'expectedOutput' | 'hidden' | 'comparison' | 'tolerance'>
+>;
+
+// Picks the editable fields out of a request body; returns an error message if any is invalid
+const readTestCaseFields = (body: Record<string, unknown>): TestCaseFields | string => {
+  const { name, input, expectedOutput, hidden, comparison, tolerance } = body;
+  const fields: TestCaseFields = {};
+
+  if (name !== undefined) {
+    if (typeof name !== 'string') return 'name must be a string';
+    fields.name = name;
+  }
+  for (const [key, value] of [['input', input], ['expectedOutput', expectedOutput]] as const) {
+    if (value === undefined) continue;
+    if (typeof value !== 'string') return `${key} must be a string`;
+    if (value.length > MAX_STDIN_LENGTH) return `${key} can be at most ${MAX_STDIN_LENGTH / 1024} KB`;
+    fields[key] = value;
+  }
+  if (hidden !== undefined) {
+    if (typeof hidden !== 'boolean') return 'hidden must be a boolean';
+    fields.hidden = hidden;
+  }
+  if (comparison !== undefined) {
+    if (!COMPARISON_MODES.includes(comparison as ComparisonMode)) {
+      return `comparison must be one of ${COMPARISON_MODES.join(', ')}`;
+    }
+    fields.comparison = comparison as ComparisonMode;
+  }
+  if (tolerance !== undefined) {
+    if (typeof tolerance !== 'number' || !(tolerance >= 0 && tolerance <= MAX_TOLERANCE)) {
+      return `tolerance must be between 0 and ${MAX_TOLERANCE}`;
+    }
+    fields.tolerance = tolerance;
+  }
+  return fields;
+};
+
+export const listTestCases = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const isOwner = (await roomRoleFor(req, roomId)) === 'owner';
+
+    const testCases = await TestCase.find({ roomId }).sort({ order: 1, createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: testCases.map((testCase) => publicTestCase(testCase, isOwner))
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// Editors manage visible cases; hidden ones are the owner's
+export const createTestCase = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const fields = readTestCaseFields(req.body);
+
+    if (typeof fields === 'string') {
+      res.status(400).json({ success: false, error: fields });
+      return;
+    }
+    const isOwner = (await roomRoleFor(req, roomId)) === 'owner';
+    if (fields.hidden && !isOwner) {
+      res.status(403).json({ success: false, error: 'Only the room owner can add hidden test cases' });
+      return;
+    }
+
+    const count = await TestCase.countDocuments({ roomId });
+    if (count >= MAX_TEST_CASES) {
+      res.status(400).json({ success: false, error: `A room can have at most ${MAX_TEST_CASES} test cases` });
+      return;
+    }
+
+    const testCase = await TestCase.create({
+      ...fields,
+      name: fields.name || `Test ${count + 1}`,
+      roomId,
+      order: count,
+      createdBy: req.user!.username
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Test case added',
+      data: publicTestCase(testCase, isOwner)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const updateTestCase = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const { caseId } = req.params;
+    const fields = readTestCaseFields(req.body);
+
+    if (typeof fields === 'string') {
+      res.status(400).json({ success: false, error: fields });
+      return;
+    }
+
+    const testCase = mongoose.isValidObjectId(caseId)
+      ? await TestCase.findOne({ _id: caseId, roomId })
+      : null;
+    if (!testCase) {
+      res.status(404).json({ success: false, error: 'Test case not found' });
+      return;
+    }
+
+    const isOwner = (await roomRoleFor(req, roomId)) === 'owner';
+    if ((testCase.hidden || fields.hidden) && !isOwner) {
+      res.status(403).json({ success: false, error: 'Only the room owner can change hidden test cases' });
+      return;
+    }
+
+    testCase.set(fields);
+    await testCase.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Test case updated',
+      data: publicTestCase(testCase, isOwner)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const deleteTestCase = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roomId = req.params.roomId.toUpperCase();
+    const { caseId } = req.params;
+
+    const testCase = mongoose.isValidObjectId(caseId)
+      ? await TestCase.findOne({ _id: caseId, roomId })
+      : null;
+    if (!testCase) {
+      res.status(404).json({ success: false, error: 'Test case not found' });
+      return;
+    }
+    if (testCase.hidden && (await roomRoleFor(req, roomId)) !== 'owner') {
+      res.status(403).json({ success: false, error: 'Only the room owner can delete hidden test cases' });
+      return;
+    }
+
+    await testCase.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Test case deleted'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// Body: { roomId, code, language, args?, env? }. Runs every case, one after
+// another, with the case's input as stdin, then shares the verdicts with the room.
+export const runTests = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code, language = 'javascript', args, env, limits, commands, files, entry } = req.body;
+    const roomId = typeof req.body.roomId === 'string' ? req.body.roomId.toUpperCase() : '';
+
+    if (!roomId) {
+      res.status(400).json({ success: false, error: 'roomId is required' });
+      return;
+    }
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({ success: false, error: 'Code is required' });
+      return;
+    }
+
+    const role = await roomRoleFor(req, roomId);
+    if (!role) {
+      res.status(404).json({ success: false, error: 'Room not found' });
+      return;
+    }
+    if (!hasRole(role, 'editor')) {
+      res.status(403).json({ success: false, error: 'You need editor access to this room' });
+      return;
+    }
+
+    const executor = getExecutor();
+    if (typeof language !== 'string' || !executor.supportsLanguage(language)) {
+      res.status(400).json({ success: false, error: `Running ${language} is not supported` });
+      return;
+    }
+
+    let input;
+    let bundle;
+    try {
+      input = parseRunInput({ args, env, limits, commands });
+      bundle = parseSourceBundle(files, entry);
+    } catch (err) {
+      if (err instanceof RunInputError) {
+        res.status(400).json({ success: false, error: err.message });
+        return;
+      }
+      throw err;
+    }
+
+    const testCases = await TestCase.find({ roomId }).sort({ order: 1, createdAt: 1 });
+    if (!testCases.length) {
+      res.status(400).json({ success: false, error: 'This room has no test cases yet' });
+      return;
+    }
+
+    const runCases = async (signal: AbortSignal): Promise<TestCaseResult[]> => {
+      const results: TestCaseResult[] = [];
+      let compileFailure: ExecutionResult | null = null;
+      for (const testCase of testCases) {
+        if (signal.aborted) break;
+        // The same code won't compile any better for the next case
+        const result: ExecutionResult =
+          compileFailure ??
+          (await executor.execute({
+            ...executionRequest(language, code, input, bundle),
+            stdin: testCase.input,
+            signal
+          }));
+        if (result.status?.id === ExecutionStatus.COMPILATION_ERROR.id) compileFailure = result;
+        results.push(judge(testCase, result));
+      }
+      return results;
+    };
+
+    // One test run per person at a time, sharing the room's run slots
+    const socketManager: SocketManager = req.app.get('socketManager');
+    let queued;
+    try {
+      queued = socketManager.queueJob({
+        kind: 'tests',
+        queueKey: roomId,
+        roomId,
+        userId: req.user!.userId,
+        userName: req.user!.username,
+        // Every case gets the usual allowance
+        timeoutMs: executorConfig.queue.jobTimeoutMs * testCases.length,
+        task: runCases
+      });
+    } catch (err) {
+      if (err instanceof RunQueueError) {
+        res.status(429).json({ success: false, error: err.message });
+        return;
+      }
+      throw err;
+    }
+
+    const outcome = await queued.finished;
+    if (outcome.status !== 'done') {
+      res.status(outcome.status === 'timed-out' ? 504 : 409).json({
+        success: false,
+        error: outcome.status === 'timed-out' ? 'Test run timed out' : 'Test run was cancelled'
+      });
+      return;
+    }
+
+    const results = outcome.value;
+    const summary: TestRunSummary = {
+      language,
+      passed: results.filter((r) => r.passed).length,
+      total: results.length,
+      results,
+      ranBy: req.user!.username,
+      ranAt: new Date().toISOString()
+    };
+
+    socketManager.setTestResults(roomId, summary);
+
+    res.status(200).json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
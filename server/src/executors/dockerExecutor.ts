@@ -0,0 +1,426 @@
+// server/src/executors/dockerExecutor.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Writable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import Docker from 'dockerode';
+import tmp from 'tmp';
+import type { DockerConfig } from '../config/executor';
+import { entryEnv, getLanguage, type SandboxSpec } from '../config/languages';
+import { AppError } from '../middleware/errorHandler';
+import {
+  ExecutionStatus,
+  type ExecutionRequest,
+  type ExecutionResult,
+  type Executor,
+  type OutputHandlers,
+  type RunningProcess
+} from './types';
+
+const SANDBOX_DIR = '/sandbox';
+// The "nobody" user; never root inside the container
+const SANDBOX_USER = '65534:65534';
+// How long to wait for the last output after the container has exited
+const OUTPUT_DRAIN_MS = 1000;
+// 128 + SIGXCPU: the process went over its CPU time limit
+const CPU_LIMIT_EXIT_CODE = 152;
+
+// NAME=value, the way Docker takes environment variables
+const environment = (vars: Record<string, string>): string[] =>
+  Object.entries(vars).map(([name, value]) => `${name}=${value}`);
+
+interface StepResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  // Wall-clock seconds from start to exit
+  time: number;
+  timedOut: boolean;
+  oomKilled: boolean;
+  // Peak kilobytes, if a stats sample came in while it ran
+  memory: number | null;
+}
+
+// Collects a stream into a string, dropping anything past `limit` bytes.
+// `onText`, if given, also gets the kept output as it arrives.
+class OutputBuffer extends Writable {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  private truncated = false;
+  private limit: number;
+  private onText?: (text: string) => void;
+  private decoder = new StringDecoder('utf8');
+
+  constructor(limit: number, onText?: (text: string) => void) {
+    super();
+    this.limit = limit;
+    this.onText = onText;
+  }
+
+  _write(chunk: Buffer, _encoding: BufferEncoding, callback: () => void): void {
+    const room = this.limit - this.size;
+    if (room > 0) {
+      const kept = chunk.length > room ? chunk.subarray(0, room) : chunk;
+      this.chunks.push(kept);
+      this.size += kept.length;
+      const text = this.decoder.write(kept);
+      if (text) this.onText?.(text);
+    }
+    if (chunk.length > room && !this.truncated) {
+      this.truncated = true;
+      this.onText?.('\n[output truncated]\n');
+    }
+    callback();
+  }
+
+  text(): string {
+    const text = Buffer.concat(this.chunks).toString('utf8');
+    return this.truncated ? `${text}\n[output truncated]` : text;
+  }
+}
+
+// Follows a container's memory through Docker's stats stream (about a sample
+// a second) and keeps the highest it saw. The stats are gone once the
+// container is, so this has to watch while it runs; cgroup v1 also reports its
+// own high-water mark as max_usage, v2 only the current usage
+class MemoryWatch {
+  private peak = 0;
+  private stream: NodeJS.ReadableStream | null = null;
+  private stopped = false;
+
+  constructor(container: Docker.Container) {
+    container
+      .stats({ stream: true })
+      .then((stream) => {
+        this.stream = stream;
+        if (this.stopped) return this.close();
+        let pending = '';
+        stream.on('data', (chunk: Buffer) => {
+          const lines = (pending + chunk.toString('utf8')).split('\n');
+          pending = lines.pop() ?? '';
+          lines.forEach((line) => this.sample(line));
+        });
+        stream.on('error', () => undefined);
+      })
+      .catch(() => undefined);
+  }
+
+  // Peak kilobytes, or null if no sample came in
+  stop(): number | null {
+    this.stopped = true;
+    this.close();
+    return this.peak ? Math.round(this.peak / 1024) : null;
+  }
+
+  private sample(line: string): void {
+    if (!line.trim()) return;
+    try {
+      const { memory_stats: memory } = JSON.parse(line) as Docker.ContainerStats;
+      this.peak = Math.max(this.peak, memory?.max_usage ?? 0, memory?.usage ?? 0);
+    } catch {
+      // Not a stats object; skip it
+    }
+  }
+
+  private close(): void {
+    (this.stream as (NodeJS.ReadableStream & { destroy?: () => void }) | null)?.destroy?.();
+  }
+}
+
+// The container an interactive run is currently in (compile, then run), so
+// stdin and "stop" reach it whenever they arrive
+class LiveSession {
+  killed = false;
+  private stream: NodeJS.ReadWriteStream | null = null;
+  private container: Docker.Container | null = null;
+  private pending: string[] = [];
+
+  attach(stream: NodeJS.ReadWriteStream, container: Docker.Container, acceptsInput: boolean): void {
+    this.stream = acceptsInput ? stream : null;
+    this.container = container;
+    if (this.killed) {
+      void container.kill().catch(() => undefined);
+      return;
+    }
+    if (this.stream) this.pending.splice(0).forEach((data) => this.stream!.write(data));
+  }
+
+  detach(): void {
+    this.stream = null;
+    this.container = null;
+  }
+
+  write(data: string): void {
+    if (this.stream) this.stream.write(data);
+    else this.pending.push(data);
+  }
+
+  kill(): void {
+    this.killed = true;
+    void this.container?.kill().catch(() => undefined);
+  }
+}
+
+/**
+ * Runs each submission in a throwaway container: no network, capped CPU,
+ * memory and process count, read-only root filesystem, all capabilities
+ * dropped and a wall-clock timeout. Every file of the run is written to the
+ * workspace; compiled languages get a separate compile step that is the only
+ * one allowed to write to it.
+ * The run's own limits apply to the program, not the compiler; interactive
+ * runs keep the longer interactive timeout instead of the wall time limit,
+ * since they sit waiting for people to type.
+ */
+class DockerExecutor implements Executor {
+  readonly name = 'docker';
+  private docker: Docker;
+  private config: DockerConfig;
+
+  constructor(config: DockerConfig) {
+    this.config = config;
+    this.docker = new Docker({ socketPath: config.socketPath });
+  }
+
+  supportsLanguage(language: string): boolean {
+    return !!getLanguage(language)?.sandbox;
+  }
+
+  defaultCommands(language: string) {
+    const spec = getLanguage(language)?.sandbox;
+    return spec ? { build: spec.compile ?? '', run: spec.run } : null;
+  }
+
+  execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    return this.run(request);
+  }
+
+  // Interactive: output streams out, stdin stays open for more input
+  start(request: ExecutionRequest, handlers: OutputHandlers): RunningProcess {
+    const session = new LiveSession();
+    return {
+      write: (data) => session.write(data),
+      kill: () => session.kill(),
+      done: this.run(request, { session, handlers })
+    };
+  }
+
+  private async run(
+    { language, code, files, entry, commands, stdin = '', args = [], env = {}, limits, signal }: ExecutionRequest,
+    live?: { session: LiveSession; handlers: OutputHandlers }
+  ): Promise<ExecutionResult> {
+    const spec = getLanguage(language)!.sandbox!;
+    // A single-file run is a bundle of one
+    const bundle = files ?? [{ path: spec.fileName, content: code }];
+    const entryPath = files && entry ? entry : spec.fileName;
+    const compile = commands?.build || spec.compile;
+    const run = commands?.run || spec.run;
+    const workspace = tmp.dirSync({ prefix: 'sandbox-', unsafeCleanup: true });
+
+    try {
+      // Containers run as nobody, so the workspace has to be readable (and, for
+      // the compile step, writable) by anyone
+      await fs.chmod(workspace.name, 0o777);
+      await this.writeBundle(workspace.name, bundle);
+
+      if (compile) {
+        // Compiler output only goes out if the compile fails
+        const compiled = await this.runStep(spec, ['sh', '-c', compile], workspace.name, {
+          writable: true,
+          env: environment(entryEnv(entryPath)),
+          memoryMb: this.config.memoryMb,
+          timeoutMs: this.config.timeoutMs,
+          signal,
+          live: live && { session: live.session }
+        });
+        if (compiled.timedOut) {
+          return this.result(compiled, { ...ExecutionStatus.TIME_LIMIT_EXCEEDED });
+        }
+        if (compiled.exitCode !== 0) {
+          const compileOutput = [compiled.stdout, compiled.stderr].filter(Boolean).join('\n');
+          if (compileOutput) live?.handlers.onCompileOutput(compileOutput);
+          return {
+            stdout: null,
+            stderr: null,
+            compile_output: compileOutput || null,
+            status: { ...ExecutionStatus.COMPILATION_ERROR },
+            time: compiled.time,
+            memory: compiled.memory,
+            exit_code: null
+          };
+        }
+      }
+
+      // "$@" hands the run's arguments to the program; sh itself takes the first
+      const ran = await this.runStep(spec, ['sh', '-c', `${run} "$@"`, 'sh', ...args], workspace.name, {
+        writable: false,
+        stdin,
+        env: environment({ ...env, ...entryEnv(entryPath) }),
+        memoryMb: limits?.memoryMb ?? this.config.memoryMb,
+        cpuTime: limits?.cpuTime,
+        timeoutMs: live
+          ? this.config.interactiveTimeoutMs
+          : (limits ? limits.wallTime * 1000 : this.config.timeoutMs),
+        signal,
+        live
+      });
+      if (ran.timedOut || ran.exitCode === CPU_LIMIT_EXIT_CODE) {
+        return this.result(ran, { ...ExecutionStatus.TIME_LIMIT_EXCEEDED });
+      }
+      if (ran.oomKilled) {
+        return this.result(ran, { id: ExecutionStatus.RUNTIME_ERROR.id, description: 'Memory Limit Exceeded' });
+      }
+      if (ran.exitCode !== 0) return this.result(ran, { ...ExecutionStatus.RUNTIME_ERROR });
+      return this.result(ran, { ...ExecutionStatus.ACCEPTED });
+    } finally {
+      workspace.removeCallback();
+    }
+  }
+
+  // Folders are made as needed; paths were checked to stay inside already,
+  // but nothing gets written outside the workspace regardless
+  private async writeBundle(workspace: string, files: { path: string; content: string }[]): Promise<void> {
+    for (const file of files) {
+      const target = path.resolve(workspace, file.path);
+      if (!target.startsWith(workspace + path.sep)) {
+        throw new AppError(400, `Invalid file path: ${file.path}`);
+      }
+      await fs.mkdir(path.dirname(target), { recursive: true, mode: 0o777 });
+      await fs.writeFile(target, file.content, { mode: 0o644 });
+    }
+  }
+
+  private result(step: StepResult, status: ExecutionResult['status']): ExecutionResult {
+    return {
+      stdout: step.stdout || null,
+      stderr: step.stderr || null,
+      compile_output: null,
+      status,
+      time: step.time,
+      memory: step.memory,
+      exit_code: step.timedOut ? null : step.exitCode
+    };
+  }
+
+  private async runStep(
+    spec: SandboxSpec,
+    cmd: string[],
+    workspace: string,
+    options: {
+      writable: boolean;
+      stdin?: string;
+      env?: string[];
+      memoryMb: number;
+      // Seconds; enforced with RLIMIT_CPU when set
+      cpuTime?: number;
+      timeoutMs: number;
+      // Kills the container when the run is cancelled or out of time
+      signal?: AbortSignal;
+      // Interactive runs: where output goes as it arrives (if anywhere) and
+      // how stdin/"stop" find this container
+      live?: { session: LiveSession; handlers?: OutputHandlers };
+    }
+  ): Promise<StepResult> {
+    const { writable, stdin = '', env = [], memoryMb, cpuTime, timeoutMs, signal, live } = options;
+    const { cpus, pidsLimit, maxOutputBytes } = this.config;
+
+    // Stopped before this step got going
+    if (live?.session.killed || signal?.aborted) {
+      return { stdout: '', stderr: '', exitCode: 137, time: 0, timedOut: false, oomKilled: false, memory: null };
+    }
+
+    let container: Docker.Container;
+    try {
+      container = await this.docker.createContainer({
+        Image: spec.image,
+        Cmd: cmd,
+        Env: [...(spec.env ?? []), ...env],
+        WorkingDir: SANDBOX_DIR,
+        User: SANDBOX_USER,
+        NetworkDisabled: true,
+        AttachStdin: true,
+        AttachStdout: true,
+        AttachStderr: true,
+        // stdin closes once we've written the run input, so reads see EOF
+        OpenStdin: true,
+        StdinOnce: true,
+        Tty: false,
+        HostConfig: {
+          Binds: [`${workspace}:${SANDBOX_DIR}:${writable ? 'rw' : 'ro'}`],
+          NetworkMode: 'none',
+          ReadonlyRootfs: true,
+          Tmpfs: { '/tmp': 'rw,exec,nosuid,size=64m' },
+          Memory: memoryMb * 1024 * 1024,
+          MemorySwap: memoryMb * 1024 * 1024,
+          NanoCpus: Math.round(cpus * 1e9),
+          PidsLimit: pidsLimit,
+          // SIGXCPU at the limit, SIGKILL a second later if it's ignored
+          Ulimits: cpuTime
+            ? [{ Name: 'cpu', Soft: Math.ceil(cpuTime), Hard: Math.ceil(cpuTime) + 1 }]
+            : undefined,
+          CapDrop: ['ALL'],
+          SecurityOpt: ['no-new-privileges']
+        }
+      });
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode === 404) {
+        throw new AppError(503, `Sandbox image ${spec.image} is not available; run "docker pull ${spec.image}"`);
+      }
+      throw error;
+    }
+
+    const abort = () => void container.kill().catch(() => undefined);
+    const handlers = live?.handlers;
+    const stdout = new OutputBuffer(maxOutputBytes, handlers && ((text) => handlers.onStdout(text)));
+    const stderr = new OutputBuffer(maxOutputBytes, handlers && ((text) => handlers.onStderr(text)));
+    let memory: MemoryWatch | undefined;
+
+    try {
+      const stream = await container.attach({ stream: true, stdin: true, stdout: true, stderr: true, hijack: true });
+      container.modem.demuxStream(stream, stdout, stderr);
+      const drained = new Promise<void>((resolve) => stream.on('end', () => resolve()));
+
+      await container.start();
+      const startedAt = Date.now();
+      memory = new MemoryWatch(container);
+      if (signal?.aborted) abort();
+      else signal?.addEventListener('abort', abort, { once: true });
+      if (live) {
+        if (stdin) stream.write(stdin);
+        live.session.attach(stream, container, !writable);
+      } else {
+        stream.end(stdin);
+      }
+
+      let timer: NodeJS.Timeout | undefined;
+      const timedOut = await Promise.race([
+        container.wait().then(() => false),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(true), timeoutMs);
+        })
+      ]);
+      clearTimeout(timer);
+      const time = (Date.now() - startedAt) / 1000;
+      if (timedOut) await container.kill().catch(() => undefined);
+
+      await Promise.race([drained, new Promise((resolve) => setTimeout(resolve, OUTPUT_DRAIN_MS))]);
+      const { State } = await container.inspect();
+
+      return {
+        stdout: stdout.text(),
+        stderr: stderr.text(),
+        exitCode: State.ExitCode,
+        time,
+        timedOut,
+        oomKilled: State.OOMKilled,
+        memory: memory.stop()
+      };
+    } finally {
+      memory?.stop();
+      signal?.removeEventListener('abort', abort);
+      live?.session.detach();
+      await container.remove({ force: true }).catch(() => undefined);
+    }
+  }
+}
+
+export default DockerExecutor;
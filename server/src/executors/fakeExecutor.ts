@@ -0,0 +1,97 @@
+// server/src/executors/fakeExecutor.ts
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { getLanguage } from '../config/languages';
+import { ExecutionStatus, type ExecutionRequest, type ExecutionResult, type Executor } from './types';
+import type { FakeWorkerInput, FakeWorkerOutput } from './fakeWorker';
+
+const SCRIPT_TIMEOUT_MS = 2000;
+
+// Under ts-node the worker is a .ts file too, and needs ts-node to load
+const WORKER_EXTENSION = path.extname(__filename);
+const WORKER_FILE = path.join(__dirname, `fakeWorker${WORKER_EXTENSION}`);
+const WORKER_EXEC_ARGV = WORKER_EXTENSION === '.ts' ? ['-r', 'ts-node/register'] : undefined;
+
+/**
+ * Offline stand-in for development. JavaScript actually runs, in a bare vm
+ * context with console captured, `process.argv`/`process.env` from the run
+ * input and a browser-style `prompt()` that reads stdin line by line, in a
+ * worker thread that's terminated if the run is cancelled; anything else
+ * gets a canned reply. Only the entry file runs, so imports
+ * between files don't work here. The vm module is NOT a security
+ * boundary, so never enable this in production.
+ */
+class FakeExecutor implements Executor {
+  readonly name = 'fake';
+
+  supportsLanguage(language: string): boolean {
+    return getLanguage(language)?.runner === 'executor';
+  }
+
+  defaultCommands(): null {
+    return null;
+  }
+
+  async execute({ language, code, files, stdin = '', args = [], env = {}, limits, signal }: ExecutionRequest): Promise<ExecutionResult> {
+    if (language !== 'javascript') {
+      const lines = code.split('\n').length;
+      const others = files && files.length > 1 ? ` and ${files.length - 1} more file${files.length === 2 ? '' : 's'}` : '';
+      return {
+        stdout: `[fake executor] would run ${lines} line${lines === 1 ? '' : 's'} of ${language}${others}\n`,
+        stderr: null,
+        compile_output: null,
+        status: { ...ExecutionStatus.ACCEPTED },
+        exit_code: 0,
+      };
+    }
+
+    // The vm timeout counts time spent running, so it stands in for the CPU limit
+    const timeoutMs = limits ? Math.min(limits.cpuTime * 1000, SCRIPT_TIMEOUT_MS) : SCRIPT_TIMEOUT_MS;
+    const input: FakeWorkerInput = { code, stdin, args, env, timeoutMs };
+
+    return new Promise((resolve) => {
+      // Cancelled or timed out: nothing ran, or what did is thrown away
+      const stopped: ExecutionResult = { stdout: null, stderr: null, compile_output: null, status: null };
+      if (signal?.aborted) {
+        resolve(stopped);
+        return;
+      }
+
+      const worker = new Worker(WORKER_FILE, { workerData: input, execArgv: WORKER_EXEC_ARGV });
+      const stop = () => void worker.terminate();
+      signal?.addEventListener('abort', stop, { once: true });
+
+      worker.once('message', ({ stdout, stderr, error, timedOut, time }: FakeWorkerOutput) => {
+        resolve({
+          stdout: stdout || null,
+          stderr: error ? `${stderr}${error}\n` : stderr || null,
+          compile_output: null,
+          status: !error
+            ? { ...ExecutionStatus.ACCEPTED }
+            : timedOut
+              ? { ...ExecutionStatus.TIME_LIMIT_EXCEEDED }
+              : { ...ExecutionStatus.RUNTIME_ERROR },
+          time,
+          memory: null,
+          exit_code: !error ? 0 : timedOut ? null : 1,
+        });
+      });
+      worker.once('error', (err) => {
+        resolve({
+          stdout: null,
+          stderr: `${err.message}\n`,
+          compile_output: null,
+          status: { ...ExecutionStatus.INTERNAL_ERROR },
+          exit_code: null,
+        });
+      });
+      // Whichever of the above came first has settled it already
+      worker.once('exit', () => {
+        signal?.removeEventListener('abort', stop);
+        resolve(stopped);
+      });
+    });
+  }
+}
+
+export default FakeExecutor;
@@ -0,0 +1,57 @@
+// server/src/executors/fakeWorker.ts
+import vm from 'vm';
+import { inspect } from 'util';
+import { parentPort, workerData } from 'worker_threads';
+
+export interface FakeWorkerInput {
+  code: string;
+  stdin: string;
+  args: string[];
+  env: Record<string, string>;
+  timeoutMs: number;
+}
+
+export interface FakeWorkerOutput {
+  stdout: string;
+  stderr: string;
+  // What the script threw, if anything
+  error: string | null;
+  timedOut: boolean;
+  // Seconds spent running the script
+  time: number;
+}
+
+const format = (value: unknown): string =>
+  typeof value === 'string' ? value : inspect(value);
+
+// Runs one JavaScript submission for the fake executor, in its own thread so
+// a cancelled run can be stopped by terminating it
+const { code, stdin, args, env, timeoutMs } = workerData as FakeWorkerInput;
+
+let stdout = '';
+let stderr = '';
+const write = (target: 'out' | 'err') => (...values: unknown[]) => {
+  const line = values.map(format).join(' ') + '\n';
+  if (target === 'out') stdout += line;
+  else stderr += line;
+};
+const lines = stdin ? stdin.replace(/\n$/, '').split('\n') : [];
+const sandbox = {
+  console: { log: write('out'), info: write('out'), warn: write('err'), error: write('err') },
+  process: { argv: ['node', 'main.js', ...args], env: { ...env } },
+  prompt: () => lines.shift() ?? null
+};
+
+const startedAt = Date.now();
+let error: string | null = null;
+let timedOut = false;
+try {
+  vm.runInNewContext(code, sandbox, { timeout: timeoutMs });
+} catch (err) {
+  // Errors thrown inside the context come from its own realm, so no instanceof
+  timedOut = (err as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT';
+  error = String(err);
+}
+
+const output: FakeWorkerOutput = { stdout, stderr, error, timedOut, time: (Date.now() - startedAt) / 1000 };
+parentPort?.postMessage(output);
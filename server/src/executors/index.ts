@@ -0,0 +1,54 @@
+// server/src/executors/index.ts
+import { executorConfig, type ExecutorConfig } from '../config/executor';
+import DockerExecutor from './dockerExecutor';
+import FakeExecutor from './fakeExecutor';
+import Judge0Executor from './judge0Executor';
+import type { ExecutionRequest, Executor, OutputHandlers, RunningProcess } from './types';
+
+export * from './types';
+
+export const createExecutor = (config: ExecutorConfig): Executor => {
+  switch (config.backend) {
+    case 'docker':
+      return new DockerExecutor(config.docker);
+    case 'fake':
+      return new FakeExecutor();
+    case 'judge0':
+    default:
+      return new Judge0Executor(config.judge0);
+  }
+};
+
+/**
+ * Starts a run that reports output as it goes. Backends without streaming
+ * run to completion and hand over everything at the end; they can't take
+ * stdin after the start, and stopping one aborts it through its signal.
+ */
+export const startExecution = (
+  executor: Executor,
+  request: ExecutionRequest,
+  handlers: OutputHandlers
+): RunningProcess => {
+  if (executor.start) return executor.start(request, handlers);
+
+  const controller = new AbortController();
+  request.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+  const done = executor.execute({ ...request, signal: controller.signal }).then((result) => {
+    if (result.compile_output) handlers.onCompileOutput(result.compile_output);
+    if (result.stdout) handlers.onStdout(result.stdout);
+    if (result.stderr) handlers.onStderr(result.stderr);
+    return result;
+  });
+  return { write: () => undefined, kill: () => controller.abort(), done };
+};
+
+let executor: Executor | null = null;
+
+// The backend picked by EXECUTOR, created on first use
+export const getExecutor = (): Executor => {
+  if (!executor) {
+    executor = createExecutor(executorConfig);
+    console.log(`▶️  Code execution backend: ${executor.name}`);
+  }
+  return executor;
+};
@@ -0,0 +1,124 @@
+// server/src/executors/judge0Executor.ts
+import axios from 'axios';
+import JSZip from 'jszip';
+import type { Judge0Config } from '../config/executor';
+import { entryEnv, getLanguage } from '../config/languages';
+import { AppError } from '../middleware/errorHandler';
+import type { ExecutionRequest, ExecutionResult, Executor } from './types';
+
+// Judge0's "Multi-file program" language: runs the `compile` and `run`
+// scripts found in the submission's zip
+const MULTI_FILE_LANGUAGE_ID = 89;
+
+// Judge0 hands command_line_arguments to a shell as one string
+const shellQuote = (arg: string): string => `'${arg.replace(/'/g, `'\\''`)}'`;
+
+// A bash script that runs `command` with $ENTRY/$ENTRY_NAME set
+const script = (entry: string, command: string): string =>
+  [
+    '#!/bin/bash',
+    ...Object.entries(entryEnv(entry)).map(([name, value]) => `export ${name}=${shellQuote(value)}`),
+    command
+  ].join('\n') + '\n';
+
+interface Judge0Response {
+  stdout?: string | null;
+  stderr?: string | null;
+  compile_output?: string | null;
+  status?: { id: number; description: string } | null;
+  // Seconds, as a string ("0.012")
+  time?: string | null;
+  // Kilobytes
+  memory?: number | null;
+  exit_code?: number | null;
+}
+
+/**
+ * Runs code on a Judge0 instance: RapidAPI's hosted one by default, or a
+ * self-hosted deployment when JUDGE0_URL points somewhere else. Judge0 has
+ * no per-submission environment variables, so `env` is ignored here.
+ * Multi-file runs and custom commands use Judge0's multi-file language.
+ */
+class Judge0Executor implements Executor {
+  readonly name = 'judge0';
+  private config: Judge0Config;
+
+  constructor(config: Judge0Config) {
+    this.config = config;
+  }
+
+  supportsLanguage(language: string): boolean {
+    return getLanguage(language)?.judge0Id !== undefined;
+  }
+
+  defaultCommands(language: string) {
+    const bundle = getLanguage(language)?.judge0Bundle;
+    return bundle ? { build: bundle.compile ?? '', run: bundle.run } : null;
+  }
+
+  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    const { language, code, files, commands, stdin = '', args = [], limits, signal } = request;
+    // One file with the default commands is a plain submission; anything
+    // else goes as a zip with its own build and run scripts
+    const source =
+      (files && files.length > 1) || commands
+        ? { language_id: MULTI_FILE_LANGUAGE_ID, additional_files: await this.bundle(request) }
+        : { source_code: code, language_id: getLanguage(language)?.judge0Id };
+
+    const { data } = await axios.post<Judge0Response>(
+      `${this.config.baseUrl}/submissions?base64_encoded=false&wait=true`,
+      {
+        ...source,
+        stdin,
+        command_line_arguments: args.map(shellQuote).join(' ') || null,
+        // Left out, Judge0 applies the instance's defaults
+        cpu_time_limit: limits?.cpuTime,
+        wall_time_limit: limits?.wallTime,
+        memory_limit: limits && limits.memoryMb * 1024,
+      },
+      // Aborting drops the connection; with wait=true that's the whole exchange
+      { headers: this.headers(), timeout: this.config.timeoutMs, signal }
+    );
+
+    return {
+      stdout: data?.stdout ?? null,
+      stderr: data?.stderr ?? null,
+      compile_output: data?.compile_output ?? null,
+      status: data?.status ?? null,
+      time: data?.time ? Number(data.time) : null,
+      memory: data?.memory ?? null,
+      exit_code: data?.exit_code ?? null,
+    };
+  }
+
+  // The files, plus `compile` and `run` scripts, as a base64 zip
+  private async bundle({ language, code, files, entry, commands }: ExecutionRequest): Promise<string> {
+    const spec = getLanguage(language)?.judge0Bundle;
+    if (!spec) throw new AppError(400, `Multi-file runs of ${language} are not supported`);
+    // Single files with custom commands get the same name as on docker
+    const fileName = getLanguage(language)!.sandbox?.fileName ?? 'main';
+    const entryPath = files && entry ? entry : fileName;
+
+    const zip = new JSZip();
+    (files ?? [{ path: fileName, content: code }]).forEach((file) => zip.file(file.path, file.content));
+    const compile = commands?.build || spec.compile;
+    if (compile) zip.file('compile', script(entryPath, compile));
+    zip.file('run', script(entryPath, `${commands?.run || spec.run} "$@"`));
+    return zip.generateAsync({ type: 'base64' });
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    const { host } = new URL(this.config.baseUrl);
+
+    if (host.endsWith('rapidapi.com')) {
+      headers['X-RapidAPI-Key'] = this.config.rapidApiKey ?? '';
+      headers['X-RapidAPI-Host'] = host;
+    } else if (this.config.authToken) {
+      headers['X-Auth-Token'] = this.config.authToken;
+    }
+    return headers;
+  }
+}
+
+export default Judge0Executor;
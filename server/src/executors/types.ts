@@ -0,0 +1,66 @@
+// server/src/executors/types.ts
+import type { BuildCommands, RunInput, SourceFile } from '../types';
+
+// Judge0's status ids; every backend reports results in Judge0's shape so
+// the client doesn't care which one ran the code
+export const ExecutionStatus = {
+  ACCEPTED: { id: 3, description: 'Accepted' },
+  WRONG_ANSWER: { id: 4, description: 'Wrong Answer' },
+  TIME_LIMIT_EXCEEDED: { id: 5, description: 'Time Limit Exceeded' },
+  COMPILATION_ERROR: { id: 6, description: 'Compilation Error' },
+  RUNTIME_ERROR: { id: 11, description: 'Runtime Error (NZEC)' },
+  INTERNAL_ERROR: { id: 13, description: 'Internal Error' }
+} as const;
+
+// stdin, argv and environment are optional; missing means empty. Missing
+// limits mean the backend's own defaults.
+export interface ExecutionRequest extends Partial<Omit<RunInput, 'commands'>> {
+  language: string;
+  // The entry file's content; all that's sent for a single-file run
+  code: string;
+  // Multi-file runs: every file, and the path of the one to run
+  files?: SourceFile[];
+  entry?: string;
+  // This language's build/run commands, in place of the defaults
+  commands?: BuildCommands;
+  // Fires when the run is cancelled or out of time; the backend stops the
+  // work (container, request, worker) and its result no longer matters
+  signal?: AbortSignal;
+}
+
+export interface ExecutionResult {
+  stdout: string | null;
+  stderr: string | null;
+  compile_output: string | null;
+  status: { id: number; description: string } | null;
+  // Seconds of run time and peak kilobytes of memory, if the backend knows
+  time?: number | null;
+  memory?: number | null;
+  // The program's exit code; null if it never ran or was killed by a signal
+  exit_code?: number | null;
+}
+
+export interface OutputHandlers {
+  onStdout(chunk: string): void;
+  onStderr(chunk: string): void;
+  // What the compiler printed, for languages with a compile step
+  onCompileOutput(chunk: string): void;
+}
+
+// A run in progress: more stdin can be written until it exits
+export interface RunningProcess {
+  write(data: string): void;
+  kill(): void;
+  readonly done: Promise<ExecutionResult>;
+}
+
+export interface Executor {
+  readonly name: string;
+  supportsLanguage(language: string): boolean;
+  // What builds and runs a multi-file run by default, for people to start
+  // from; null if this backend can't take custom commands for the language
+  defaultCommands(language: string): BuildCommands | null;
+  execute(request: ExecutionRequest): Promise<ExecutionResult>;
+  // Backends that can stream output and take stdin while running
+  start?(request: ExecutionRequest, handlers: OutputHandlers): RunningProcess;
+}
@@ -1,5 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
+import type { Socket } from 'socket.io';
 import JWTUtils, { DecodedToken } from '../utils/jwtUtils';
+import { RevokedToken } from '../models/RevokedToken';
+import { Room } from '../models/Room';
+import { hasRole, isMember, resolveRole, RoomMembers } from '../utils/permissions';
+import type SocketManager from '../utils/socketManager';
+import type { Room as LiveRoom, RoomRole } from '../types';
 
 declare global {
   namespace Express {
@@ -11,11 +17,25 @@ declare global {
 
 const jwtUtils = new JWTUtils();
 
-export const authMiddleware = (
+const MAX_FINGERPRINT_LENGTH = 64;
+
+// Valid signature, not expired and not logged out
+export const verifyAccessToken = async (token: string): Promise<DecodedToken | null> => {
+  const decoded = jwtUtils.verifyToken(token);
+  // Other signed tokens (e.g. invites) aren't sessions
+  if (!decoded || typeof decoded.userId !== 'string') return null;
+
+  if (decoded.jti && (await RevokedToken.exists({ jti: decoded.jti }))) {
+    return null;
+  }
+  return decoded;
+};
+
+export const authMiddleware = async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
     const token = req.headers.authorization?.split(' ')[1];
 
@@ -24,7 +44,7 @@ export const authMiddleware = (
       return;
     }
 
-    const decoded = jwtUtils.verifyToken(token);
+    const decoded = await verifyAccessToken(token);
 
     if (!decoded) {
       res.status(401).json({ success: false, error: 'Invalid token' });
@@ -39,4 +59,97 @@ export const authMiddleware = (
       error: error instanceof Error ? error.message : 'Authentication error'
     });
   }
+};
+
+// The browser fingerprint REST calls carry, so bans by device hold there too
+const fingerprintOf = (req: Request): string | null => {
+  const fingerprint = req.get('X-Fingerprint');
+  return fingerprint && fingerprint.length <= MAX_FINGERPRINT_LENGTH ? fingerprint : null;
+};
+
+// Private (password or knock) and locked rooms only show themselves to their
+// owner, members and whoever is inside right now
+const visibleTo = (
+  room: Pick<LiveRoom, 'ownerId' | 'passwordHash' | 'knockToJoin' | 'locked'> & { members: RoomMembers },
+  userId: string,
+  inside: boolean
+): boolean =>
+  !(room.passwordHash || room.knockToJoin || room.locked) ||
+  room.ownerId === userId ||
+  isMember(room.members, userId) ||
+  inside;
+
+// Role of the signed-in user in a room (live state if it's open, else Mongo);
+// null when the room doesn't exist or isn't visible to them
+export const roomRoleFor = async (req: Request, roomId: string): Promise<RoomRole | null> => {
+  const userId = req.user?.userId ?? '';
+  const identity = { userId, fingerprint: fingerprintOf(req) };
+  const socketManager: SocketManager = req.app.get('socketManager');
+  const live = socketManager.getRoom(roomId);
+  if (live) {
+    const inside = Array.from(live.users.values()).some((u) => u.userId === userId);
+    return visibleTo(live, userId, inside) ? resolveRole(live, identity) : null;
+  }
+
+  const room = await Room.findOne({ roomId }).select(
+    'ownerId members defaultRole passwordHash knockToJoin locked bans'
+  );
+  return room && visibleTo(room, userId, false) ? resolveRole(room, identity) : null;
+};
+
+// Use after authMiddleware on routes with a :roomId param
+export const requireRoomRole = (required: RoomRole) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const role = await roomRoleFor(req, req.params.roomId.toUpperCase());
+
+    if (!role) {
+      res.status(404).json({ success: false, error: 'Room not found' });
+      return;
+    }
+    if (!hasRole(role, required)) {
+      res.status(403).json({ success: false, error: `You need ${required} access to this room` });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Authorization error'
+    });
+  }
+};
+
+// Socket.IO handshake: every connection must carry a token (account or guest)
+// in `auth.token`; the verified identity is kept on socket.data.user
+export const socketAuthMiddleware = async (
+  socket: Socket,
+  next: (err?: Error) => void
+): Promise<void> => {
+  try {
+    const token = socket.handshake.auth?.token;
+    if (!token || typeof token !== 'string') {
+      next(new Error('Authentication required'));
+      return;
+    }
+
+    const decoded = await verifyAccessToken(token);
+    if (!decoded) {
+      next(new Error('Invalid or expired session'));
+      return;
+    }
+
+    socket.data.user = decoded;
+    const { fingerprint } = socket.handshake.auth ?? {};
+    if (typeof fingerprint === 'string' && fingerprint.length <= MAX_FINGERPRINT_LENGTH) {
+      socket.data.fingerprint = fingerprint;
+    }
+    next();
+  } catch (error) {
+    next(error instanceof Error ? error : new Error('Authentication error'));
+  }
 };
\ No newline at end of file
@@ -0,0 +1,84 @@
+// server/src/models/ChatMessage.ts
+import mongoose, { Schema, Document } from 'mongoose';
+import type { ChatReaction, ChatReplyRef } from '../types';
+
+// One chat message in a room, kept so people joining later can scroll back
+export interface IChatMessage extends Document {
+  roomId: string;
+  messageId: string;
+  userId: string;
+  userName: string;
+  avatar?: string;
+  message: string;
+  // Generated by the server (kicks, bans, …) rather than typed by someone
+  system: boolean;
+  replyTo: ChatReplyRef | null;
+  // userIds of the people it @mentions
+  mentions: string[];
+  reactions: ChatReaction[];
+  // Set when the author last changed it
+  editedAt: Date | null;
+  // Deleted messages keep their place (replies may quote them) but lose
+  // their text and reactions
+  deleted: boolean;
+  createdAt: Date;
+}
+
+const chatMessageSchema = new Schema<IChatMessage>({
+  roomId: {
+    type: String,
+    required: true,
+    uppercase: true
+  },
+  messageId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: true
+  },
+  userName: {
+    type: String,
+    required: true
+  },
+  avatar: String,
+  message: {
+    type: String,
+    default: ''
+  },
+  system: {
+    type: Boolean,
+    default: false
+  },
+  replyTo: {
+    type: new Schema({ id: String, userName: String, excerpt: String }, { _id: false }),
+    default: null
+  },
+  mentions: {
+    type: [String],
+    default: []
+  },
+  reactions: {
+    type: [new Schema({ emoji: String, userId: String, userName: String }, { _id: false })],
+    default: []
+  },
+  editedAt: {
+    type: Date,
+    default: null
+  },
+  deleted: {
+    type: Boolean,
+    default: false
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Pages are read newest first within a room, ties broken by id
+chatMessageSchema.index({ roomId: 1, createdAt: -1, _id: -1 });
+
+export const ChatMessage = mongoose.model<IChatMessage>('ChatMessage', chatMessageSchema);
@@ -0,0 +1,24 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Tokens logged out before they expired. Each entry only needs to live as long
+// as the token itself would have, so Mongo drops it at `expiresAt`.
+export interface IRevokedToken extends Document {
+  jti: string;
+  expiresAt: Date;
+}
+
+const revokedTokenSchema = new Schema<IRevokedToken>({
+  jti: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+revokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RevokedToken = mongoose.model<IRevokedToken>('RevokedToken', revokedTokenSchema);
@@ -1,16 +1,113 @@
 // server/src/models/Room.ts
 import mongoose, { Schema, Document } from 'mongoose';
+import { LANGUAGE_IDS } from '../config/languages';
+
+export interface IRoomFile {
+  fileId: string;
+  name: string;
+  type: 'file' | 'folder';
+  parentId: string | null;
+  content: string;
+  language: string;
+}
+
+// Explicit role for one user; the owner is stored separately as `ownerId`
+export interface IRoomMember {
+  userId: string;
+  userName: string;
+  role: 'editor' | 'viewer';
+}
+
+export interface IRoomBan {
+  userId: string;
+  userName: string;
+  fingerprint: string | null;
+  bannedBy: string;
+  bannedAt: Date;
+}
+
+export interface IRoomMute {
+  userId: string;
+  chat: boolean;
+  edit: boolean;
+}
 
 export interface IRoom extends Document {
   roomId: string;
   name: string;
+  // Legacy single-buffer fields; rooms created before workspaces are migrated
+  // into a single file on first load
   code: string;
   language: string;
+  files: IRoomFile[];
+  lastRun?: { output: string; language: string };
+  runInput?: {
+    stdin: string;
+    args: string[];
+    env: Map<string, string>;
+    limits?: { cpuTime?: number; wallTime?: number; memoryMb?: number };
+    // Build/run commands by language id
+    commands?: Map<string, { build: string; run: string }>;
+  };
+  // SQL rooms: the owner's schema/seed script for the room's database
+  sqlSeed?: string;
   createdBy: string;
+  // Account id of the owner; null for rooms created before roles existed
+  ownerId: string | null;
+  members: IRoomMember[];
+  defaultRole: 'editor' | 'viewer';
+  // Private rooms: bcrypt hash of the join password, and/or owner approval
+  // ("knock to join") for anyone who isn't already a member
+  passwordHash: string | null;
+  knockToJoin: boolean;
+  bans: IRoomBan[];
+  mutes: IRoomMute[];
+  locked: boolean;
   createdAt: Date;
   lastModified: Date;
 }
 
+export const roomFileSchema = new Schema<IRoomFile>(
+  {
+    fileId: { type: String, required: true },
+    name: { type: String, required: true },
+    type: { type: String, enum: ['file', 'folder'], required: true },
+    parentId: { type: String, default: null },
+    content: { type: String, default: '' },
+    language: { type: String, default: 'plaintext' }
+  },
+  { _id: false }
+);
+
+const roomMemberSchema = new Schema<IRoomMember>(
+  {
+    userId: { type: String, required: true },
+    userName: { type: String, required: true },
+    role: { type: String, enum: ['editor', 'viewer'], required: true }
+  },
+  { _id: false }
+);
+
+const roomBanSchema = new Schema<IRoomBan>(
+  {
+    userId: { type: String, required: true },
+    userName: { type: String, required: true },
+    fingerprint: { type: String, default: null },
+    bannedBy: { type: String, required: true },
+    bannedAt: { type: Date, default: Date.now }
+  },
+  { _id: false }
+);
+
+const roomMuteSchema = new Schema<IRoomMute>(
+  {
+    userId: { type: String, required: true },
+    chat: { type: Boolean, default: false },
+    edit: { type: Boolean, default: false }
+  },
+  { _id: false }
+);
+
 const roomSchema = new Schema<IRoom>({
   roomId: {
     type: String,
@@ -29,15 +126,72 @@ const roomSchema = new Schema<IRoom>({
   language: {
     type: String,
     default: 'javascript',
-    enum: [
-      'javascript', 'typescript', 'python', 'java', 'cpp', 
-      'csharp', 'php', 'ruby', 'go', 'rust', 'html', 'css', 'sql'
-    ]
+    enum: LANGUAGE_IDS
+  },
+  files: {
+    type: [roomFileSchema],
+    default: []
+  },
+  lastRun: {
+    output: { type: String, default: '' },
+    language: { type: String, default: '' }
+  },
+  runInput: {
+    stdin: { type: String, default: '' },
+    args: { type: [String], default: [] },
+    env: { type: Map, of: String, default: {} },
+    limits: {
+      cpuTime: Number,
+      wallTime: Number,
+      memoryMb: Number
+    },
+    commands: {
+      type: Map,
+      of: new Schema({ build: String, run: String }, { _id: false }),
+      default: {}
+    }
+  },
+  sqlSeed: {
+    type: String,
+    default: ''
   },
   createdBy: {
     type: String,
     required: [true, 'Creator username is required']
   },
+  ownerId: {
+    type: String,
+    default: null
+  },
+  members: {
+    type: [roomMemberSchema],
+    default: []
+  },
+  defaultRole: {
+    type: String,
+    enum: ['editor', 'viewer'],
+    default: 'editor'
+  },
+  passwordHash: {
+    type: String,
+    default: null
+  },
+  knockToJoin: {
+    type: Boolean,
+    default: false
+  },
+  bans: {
+    type: [roomBanSchema],
+    default: []
+  },
+  mutes: {
+    type: [roomMuteSchema],
+    default: []
+  },
+  locked: {
+    type: Boolean,
+    default: false
+  },
   createdAt: {
     type: Date,
     default: Date.now
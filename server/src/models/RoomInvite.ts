@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// An invite link. The link itself is a signed token naming this document,
+// which keeps the use count and lets the owner revoke it early.
+export interface IRoomInvite extends Document {
+  roomId: string;
+  role: 'editor' | 'viewer';
+  createdBy: string;
+  expiresAt: Date;
+  // null = unlimited
+  maxUses: number | null;
+  uses: number;
+  revoked: boolean;
+  createdAt: Date;
+}
+
+const roomInviteSchema = new Schema<IRoomInvite>({
+  roomId: {
+    type: String,
+    required: true,
+    uppercase: true,
+    index: true
+  },
+  role: {
+    type: String,
+    enum: ['editor', 'viewer'],
+    default: 'editor'
+  },
+  createdBy: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  maxUses: {
+    type: Number,
+    default: null
+  },
+  uses: {
+    type: Number,
+    default: 0
+  },
+  revoked: {
+    type: Boolean,
+    default: false
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+export const RoomInvite = mongoose.model<IRoomInvite>('RoomInvite', roomInviteSchema);
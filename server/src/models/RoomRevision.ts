@@ -0,0 +1,52 @@
+// server/src/models/RoomRevision.ts
+import mongoose, { Schema, Document } from 'mongoose';
+import { IRoomFile, roomFileSchema } from './Room';
+
+export interface IRoomRevision extends Document {
+  roomId: string;
+  // 'auto' snapshots are taken periodically while people edit;
+  // 'checkpoint' ones are named by a user
+  kind: 'auto' | 'checkpoint';
+  name: string;
+  files: IRoomFile[];
+  contentHash: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+const roomRevisionSchema = new Schema<IRoomRevision>({
+  roomId: {
+    type: String,
+    required: true,
+    uppercase: true,
+    index: true
+  },
+  kind: {
+    type: String,
+    enum: ['auto', 'checkpoint'],
+    required: true
+  },
+  name: {
+    type: String,
+    default: ''
+  },
+  files: {
+    type: [roomFileSchema],
+    default: []
+  },
+  contentHash: {
+    type: String,
+    required: true
+  },
+  createdBy: {
+    type: String,
+    default: 'system'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    index: true
+  }
+});
+
+export const RoomRevision = mongoose.model<IRoomRevision>('RoomRevision', roomRevisionSchema);
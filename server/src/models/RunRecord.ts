@@ -0,0 +1,145 @@
+// server/src/models/RunRecord.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One finished run in a room, with the exact code and input that produced
+// its output, so it can be looked at, diffed or run again later
+export interface IRunRecord extends Document {
+  roomId: string;
+  runId: string;
+  fileName: string;
+  language: string;
+  // The entry file's content
+  code: string;
+  // Multi-file runs: every file and the entry's path; empty for runs of one file
+  files: { path: string; content: string }[];
+  entry: string | null;
+  // sha1 of the code, to spot runs of identical code
+  codeHash: string;
+  // The room's stdin plus anything typed into the run
+  stdin: string;
+  args: string[];
+  env: Map<string, string>;
+  // The limits it ran under; missing on runs recorded before limits existed
+  limits?: { cpuTime: number; wallTime: number; memoryMb: number };
+  // Build/run commands used in place of the language's defaults
+  commands: { build: string; run: string } | null;
+  stdout: string;
+  stderr: string;
+  compileOutput: string;
+  // null when someone stopped the run
+  status: { id: number; description: string } | null;
+  // Wall-clock seconds and peak kilobytes, when the backend reports them
+  time: number | null;
+  memory: number | null;
+  exitCode: number | null;
+  startedBy: string;
+  stoppedBy: string | null;
+  startedAt: Date;
+  createdAt: Date;
+}
+
+const runRecordSchema = new Schema<IRunRecord>({
+  roomId: {
+    type: String,
+    required: true,
+    uppercase: true,
+    index: true
+  },
+  runId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  fileName: {
+    type: String,
+    default: ''
+  },
+  language: {
+    type: String,
+    required: true
+  },
+  code: {
+    type: String,
+    default: ''
+  },
+  codeHash: {
+    type: String,
+    required: true
+  },
+  files: {
+    type: [new Schema({ path: String, content: String }, { _id: false })],
+    default: []
+  },
+  entry: {
+    type: String,
+    default: null
+  },
+  stdin: {
+    type: String,
+    default: ''
+  },
+  args: {
+    type: [String],
+    default: []
+  },
+  env: {
+    type: Map,
+    of: String,
+    default: {}
+  },
+  limits: {
+    type: new Schema({ cpuTime: Number, wallTime: Number, memoryMb: Number }, { _id: false }),
+    default: undefined
+  },
+  commands: {
+    type: new Schema({ build: String, run: String }, { _id: false }),
+    default: null
+  },
+  stdout: {
+    type: String,
+    default: ''
+  },
+  stderr: {
+    type: String,
+    default: ''
+  },
+  compileOutput: {
+    type: String,
+    default: ''
+  },
+  status: {
+    type: new Schema({ id: Number, description: String }, { _id: false }),
+    default: null
+  },
+  time: {
+    type: Number,
+    default: null
+  },
+  memory: {
+    type: Number,
+    default: null
+  },
+  exitCode: {
+    type: Number,
+    default: null
+  },
+  startedBy: {
+    type: String,
+    required: true
+  },
+  stoppedBy: {
+    type: String,
+    default: null
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    index: true
+  }
+});
+
+export const RunRecord = mongoose.model<IRunRecord>('RunRecord', runRecordSchema);
@@ -0,0 +1,98 @@
+// server/src/models/SessionRecording.ts
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IRoomFile, roomFileSchema } from './Room';
+
+// One recorded session: from the first person joining a room until the last one leaves.
+// Events live in RecordingChunk documents so a long session never hits the 16MB limit.
+export interface ISessionRecording extends Document {
+  roomId: string;
+  startedAt: Date;
+  endedAt: Date | null;
+  // Workspace as it was when recording started; events replay on top of it
+  initialFiles: IRoomFile[];
+  participants: string[];
+  eventCount: number;
+  durationMs: number;
+}
+
+/**
+ * Events are stored with short keys to keep chunks small:
+ *   t  ms since the recording started
+ *   k  kind: 'op' | 'files' | 'reset' | 'run' | 'chat'
+ *   f  file id ('op')            o  operation JSON ('op')
+ *   u  user name                 m  chat message ('chat')
+ *   x  run output ('run')        l  language ('run')
+ *   w  file list ('files': metadata only, 'reset': with content)
+ */
+export interface RecordedEvent {
+  t: number;
+  k: 'op' | 'files' | 'reset' | 'run' | 'chat';
+  f?: string;
+  o?: (number | string)[];
+  u?: string;
+  m?: string;
+  x?: string;
+  l?: string;
+  w?: Partial<IRoomFile>[];
+}
+
+export interface IRecordingChunk extends Document {
+  recordingId: Types.ObjectId;
+  seq: number;
+  events: RecordedEvent[];
+}
+
+const sessionRecordingSchema = new Schema<ISessionRecording>({
+  roomId: {
+    type: String,
+    required: true,
+    uppercase: true,
+    index: true
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  endedAt: {
+    type: Date,
+    default: null
+  },
+  initialFiles: {
+    type: [roomFileSchema],
+    default: []
+  },
+  participants: {
+    type: [String],
+    default: []
+  },
+  eventCount: {
+    type: Number,
+    default: 0
+  },
+  durationMs: {
+    type: Number,
+    default: 0
+  }
+});
+
+const recordingChunkSchema = new Schema<IRecordingChunk>({
+  recordingId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    index: true
+  },
+  seq: {
+    type: Number,
+    required: true
+  },
+  // Mixed: events are plain objects with optional short keys, stored as-is
+  events: {
+    type: Schema.Types.Mixed,
+    default: []
+  }
+});
+
+recordingChunkSchema.index({ recordingId: 1, seq: 1 }, { unique: true });
+
+export const SessionRecording = mongoose.model<ISessionRecording>('SessionRecording', sessionRecordingSchema);
+export const RecordingChunk = mongoose.model<IRecordingChunk>('RecordingChunk', recordingChunkSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { LANGUAGE_IDS } from '../config/languages';
 
 export interface ISnippet extends Document {
   roomId: string;
@@ -26,21 +27,7 @@ const snippetSchema = new Schema<ISnippet>({
   language: {
     type: String,
     default: 'javascript',
-    enum: [
-      'javascript',
-      'typescript',
-      'python',
-      'java',
-      'cpp',
-      'csharp',
-      'php',
-      'ruby',
-      'go',
-      'rust',
-      'html',
-      'css',
-      'sql'
-    ]
+    enum: LANGUAGE_IDS
   },
   savedBy: {
     type: String,
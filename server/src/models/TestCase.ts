@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ComparisonMode = 'exact' | 'trimmed' | 'float';
+
+// One test case for a room. Hidden cases are run like any other, but only
+// the owner gets to see their input and expected output.
+export interface ITestCase extends Document {
+  roomId: string;
+  name: string;
+  input: string;
+  expectedOutput: string;
+  hidden: boolean;
+  comparison: ComparisonMode;
+  // Absolute/relative tolerance for the 'float' comparison
+  tolerance: number;
+  order: number;
+  createdBy: string;
+  createdAt: Date;
+}
+
+const testCaseSchema = new Schema<ITestCase>({
+  roomId: {
+    type: String,
+    required: true,
+    uppercase: true,
+    index: true
+  },
+  name: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Test case name cannot exceed 100 characters'],
+    default: ''
+  },
+  input: {
+    type: String,
+    default: ''
+  },
+  expectedOutput: {
+    type: String,
+    default: ''
+  },
+  hidden: {
+    type: Boolean,
+    default: false
+  },
+  comparison: {
+    type: String,
+    enum: ['exact', 'trimmed', 'float'],
+    default: 'trimmed'
+  },
+  tolerance: {
+    type: Number,
+    default: 1e-6,
+    min: 0
+  },
+  order: {
+    type: Number,
+    default: 0
+  },
+  createdBy: {
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+export const TestCase = mongoose.model<ITestCase>('TestCase', testCaseSchema);
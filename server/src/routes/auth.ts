@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { register, login, guestLogin, me, logout } from '../controllers/authController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+
+router.post('/register', register);
+router.post('/login', login);
+router.post('/guest', guestLogin);
+router.get('/me', authMiddleware, me);
+router.post('/logout', authMiddleware, logout);
+
+export default router;
@@ -0,0 +1,33 @@
+// server/src/routes/languages.ts
+import { Router, Request, Response } from 'express';
+import { LANGUAGES, type LanguageSpec } from '../config/languages';
+import { getExecutor } from '../executors';
+
+const router = Router();
+
+// Whether Run does anything for this language on this server
+const isRunnable = (language: LanguageSpec): boolean => {
+  if (language.runner === 'executor') return getExecutor().supportsLanguage(language.id);
+  return language.runner !== null;
+};
+
+// The language registry, minus the runner internals
+router.get('/', (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: LANGUAGES.map((language) => ({
+      id: language.id,
+      label: language.label,
+      monaco: language.monaco,
+      extensions: language.extensions,
+      runner: language.runner,
+      runnable: isRunnable(language),
+      // What builds and runs it on this server, for people to start from
+      // when they write their own commands
+      commands: language.runner === 'executor' ? getExecutor().defaultCommands(language.id) : null,
+      template: language.template
+    }))
+  });
+});
+
+export default router;
@@ -2,16 +2,81 @@ import { Router } from 'express';
 import {
   createRoom,
   getRoom,
+  getRoomFiles,
   saveRoom,
   deleteRoom
 } from '../controllers/roomController';
-import { authMiddleware } from '../middleware/auth';
+import {
+  listRevisions,
+  createCheckpoint,
+  getRevision,
+  restoreRevision
+} from '../controllers/revisionController';
+import { listRecordings, getRecording } from '../controllers/recordingController';
+import {
+  getRoomAccess,
+  updateRoomAccess,
+  createInvite,
+  listInvites,
+  revokeInvite
+} from '../controllers/accessController';
+import {
+  listTestCases,
+  createTestCase,
+  updateTestCase,
+  deleteTestCase
+} from '../controllers/testCaseController';
+import { listRuns, getRun } from '../controllers/runHistoryController';
+import { listMessages } from '../controllers/chatController';
+import { authMiddleware, requireRoomRole } from '../middleware/auth';
 
 const router = Router();
 
-router.post('/create', createRoom);
-router.get('/:roomId', getRoom);
-router.post('/:roomId/save', saveRoom);
-router.delete('/:roomId', authMiddleware, deleteRoom);
+router.post('/create', authMiddleware, createRoom);
+router.get('/:roomId', authMiddleware, requireRoomRole('viewer'), getRoom);
+router.get('/:roomId/files', authMiddleware, requireRoomRole('viewer'), getRoomFiles);
+router.post('/:roomId/save', authMiddleware, requireRoomRole('editor'), saveRoom);
+
+// Version history
+router.get('/:roomId/revisions', authMiddleware, requireRoomRole('viewer'), listRevisions);
+router.post('/:roomId/revisions', authMiddleware, requireRoomRole('editor'), createCheckpoint);
+router.get('/:roomId/revisions/:revisionId', authMiddleware, requireRoomRole('viewer'), getRevision);
+router.post(
+  '/:roomId/revisions/:revisionId/restore',
+  authMiddleware,
+  requireRoomRole('editor'),
+  restoreRevision
+);
+
+// Session recordings
+router.get('/:roomId/recordings', authMiddleware, requireRoomRole('viewer'), listRecordings);
+router.get(
+  '/:roomId/recordings/:recordingId',
+  authMiddleware,
+  requireRoomRole('viewer'),
+  getRecording
+);
+
+// Private rooms: password, knock-to-join and invite links (owner only)
+router.get('/:roomId/access', authMiddleware, requireRoomRole('owner'), getRoomAccess);
+router.put('/:roomId/access', authMiddleware, requireRoomRole('owner'), updateRoomAccess);
+router.get('/:roomId/invites', authMiddleware, requireRoomRole('owner'), listInvites);
+router.post('/:roomId/invites', authMiddleware, requireRoomRole('owner'), createInvite);
+router.delete('/:roomId/invites/:inviteId', authMiddleware, requireRoomRole('owner'), revokeInvite);
+
+// Test cases: editors manage visible ones, hidden ones are the owner's
+router.get('/:roomId/tests', authMiddleware, requireRoomRole('viewer'), listTestCases);
+router.post('/:roomId/tests', authMiddleware, requireRoomRole('editor'), createTestCase);
+router.put('/:roomId/tests/:caseId', authMiddleware, requireRoomRole('editor'), updateTestCase);
+router.delete('/:roomId/tests/:caseId', authMiddleware, requireRoomRole('editor'), deleteTestCase);
+
+// Run history: what ran, with which code and input, and what came out
+router.get('/:roomId/runs', authMiddleware, requireRoomRole('viewer'), listRuns);
+router.get('/:roomId/runs/:runId', authMiddleware, requireRoomRole('viewer'), getRun);
+
+// Chat history, a page at a time going back
+router.get('/:roomId/messages', authMiddleware, requireRoomRole('viewer'), listMessages);
+
+router.delete('/:roomId', authMiddleware, requireRoomRole('owner'), deleteRoom);
 
 export default router;
\ No newline at end of file
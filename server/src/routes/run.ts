@@ -1,71 +1,93 @@
 // server/src/routes/run.ts
-import { Router, Request, Response } from 'express';
-import axios from 'axios';
-import dotenv from 'dotenv';
-
-dotenv.config();
+import { Router, Request, Response, NextFunction } from 'express';
+import { executorConfig } from '../config/executor';
+import { getExecutor } from '../executors';
+import { AppError } from '../middleware/errorHandler';
+import {
+  defaultRunLimits,
+  executionRequest,
+  parseRunInput,
+  parseSourceBundle,
+  RunInputError
+} from '../utils/runInput';
+import { RunQueueError } from '../utils/runQueue';
+import { authMiddleware } from '../middleware/auth';
+import { runTests } from '../controllers/testCaseController';
+import type SocketManager from '../utils/socketManager';
 
 const router = Router();
 
-router.post('/', async (req: Request, res: Response) => {
-  const { code, language } = req.body;
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  const { code, language = 'javascript', stdin, args, env, limits, commands, files, entry } = req.body;
 
   if (!code || typeof code !== 'string') {
     return res.status(400).json({ error: 'Code is required' });
   }
 
-  // Map our language strings to Judge0 language IDs
-  const langMap: Record<string, number> = {
-    javascript: 63,   // Node.js
-    typescript: 74,   // TypeScript
-    python: 71,       // Python (3.8.1)
-    java: 62,         // Java (OpenJDK 13)
-    cpp: 54,          // C++ (GCC 9.2.0)
-    csharp: 51,       // C# (Mono 6.6.0.161)
-    php: 68,
-    ruby: 72,
-    go: 60,
-    rust: 73,
-  };
-
-  const langId = langMap[language] ?? langMap['javascript'];
-
-  interface Judge0Response {
-    stdout?: string | null;
-    stderr?: string | null;
-    compile_output?: string | null;
-    status?: { id: number; description?: string } | null;
+  const executor = getExecutor();
+  if (typeof language !== 'string' || !executor.supportsLanguage(language)) {
+    return res.status(400).json({ error: `Running ${language} is not supported` });
   }
 
+  let input;
+  let bundle;
   try {
-    const { data } = await axios.post<Judge0Response>(
-      'https://judge0-ce.p.rapidapi.com/submissions?base64_encoded=false&wait=true',
-      {
-        source_code: code,
-        language_id: langId,
-      },
-      {
-        headers: {
-          'content-type': 'application/json',
-          'X-RapidAPI-Key': process.env.RAPIDAPI_KEY as string,
-          'X-RapidAPI-Host': 'judge0-ce.p.rapidapi.com',
-        },
-      }
-    );
+    input = parseRunInput({ stdin, args, env, limits, commands });
+    // Multi-file runs: `code` is the entry file's content
+    bundle = parseSourceBundle(files, entry);
+  } catch (err) {
+    if (err instanceof RunInputError) return res.status(400).json({ error: err.message });
+    // Express 4 doesn't catch rejections from async handlers
+    return next(err);
+  }
 
-    return res.json({
-      stdout: data?.stdout ?? null,
-      stderr: data?.stderr ?? null,
-      compile_output: data?.compile_output ?? null,
-      status: data?.status ?? null, // { id, description }
+  // Not tied to a room, so each client gets its own share of the queue
+  const client = `api:${req.ip}`;
+  const socketManager: SocketManager = req.app.get('socketManager');
+  let queued;
+  try {
+    queued = socketManager.queueJob({
+      kind: 'run',
+      queueKey: client,
+      roomId: null,
+      userId: client,
+      userName: client,
+      task: (signal) => executor.execute({ ...executionRequest(language, code, input, bundle), signal })
     });
+  } catch (err) {
+    if (err instanceof RunQueueError) return res.status(429).json({ error: err.message });
+    return next(err);
+  }
+  const { jobId } = queued.job;
+  // Nobody is waiting for the answer any more
+  res.on('close', () => {
+    if (!res.writableEnded) socketManager.cancelJob(jobId, client);
+  });
+
+  try {
+    const outcome = await queued.finished;
+    if (outcome.status !== 'done') {
+      return outcome.status === 'timed-out'
+        ? res.status(504).json({ error: 'Run timed out', jobId })
+        : res.status(409).json({ error: 'Run was cancelled', jobId });
+    }
+    // { jobId, stdout, stderr, compile_output, status: { id, description }, time, memory, exit_code }
+    return res.json({ jobId, ...outcome.value });
   } catch (err: any) {
-    console.error('Judge0 error:', err.response?.data || err.message || err);
-    return res.status(500).json({
+    console.error(`${executor.name} executor error:`, err.response?.data || err.message || err);
+    return res.status(err instanceof AppError ? err.statusCode : 500).json({
       error: err?.message || 'Run error',
       detail: err.response?.data || undefined,
     });
   }
 });
 
+// What runs get by default and the most they may ask for
+router.get('/limits', (_req: Request, res: Response) => {
+  res.json({ success: true, data: { defaults: defaultRunLimits(), max: executorConfig.limits.max } });
+});
+
+// Runs the room's test cases against the code and shares the verdicts
+router.post('/tests', authMiddleware, runTests);
+
 export default router;
\ No newline at end of file
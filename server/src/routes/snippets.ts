@@ -4,12 +4,12 @@ import {
   getSnippetsByRoom,
   deleteSnippet
 } from '../controllers/snippetController';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requireRoomRole } from '../middleware/auth';
 
 const router = Router();
 
-router.post('/save', saveSnippet);
-router.get('/room/:roomId', getSnippetsByRoom);
+router.post('/save', authMiddleware, saveSnippet);
+router.get('/room/:roomId', authMiddleware, requireRoomRole('viewer'), getSnippetsByRoom);
 router.delete('/:snippetId', authMiddleware, deleteSnippet);
 
 export default router;
\ No newline at end of file
@@ -5,26 +5,61 @@ import http from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { connectDB } from './config/database';
+import { connectDB, disconnectDB } from './config/database';
 import { errorHandler } from './middleware/errorHandler';
+import { socketAuthMiddleware } from './middleware/auth';
 import SocketManager from './utils/socketManager';
-import { v4 as uuidv4 } from 'uuid';
+import { checkRoomAccess } from './utils/roomAccess';
 
 // IMPORTANT: rename model import to avoid confusion with in-memory Room type
 import { Room as RoomModel } from './models/Room';
 
 // Types (only for hints)
-import type { User } from './types';
+import type { User, CursorPosition } from './types';
+import type { DecodedToken } from './utils/jwtUtils';
 
 // REST routes
 import runRoutes from './routes/run';
 import roomRoutes from './routes/rooms';
+import authRoutes from './routes/auth';
 import snippetRoutes from './routes/snippets';
+import languageRoutes from './routes/languages';
 
 // Minimal typings for WebRTC signalling payloads (server only forwards JSON)
 type RTCSessionDescriptionInitLike = { type?: string; sdp?: string };
 type RTCIceCandidateInitLike = { candidate?: string; sdpMLineIndex?: number | null; sdpMid?: string | null };
 
+// Cursor payloads are stored and relayed to others, so make sure they're sane
+const MAX_CURSOR_SELECTIONS = 50;
+const isPositiveInt = (n: unknown): n is number => Number.isInteger(n) && (n as number) > 0;
+const isCursorPosition = (p: any): p is CursorPosition =>
+  !!p &&
+  isPositiveInt(p.line) &&
+  isPositiveInt(p.column) &&
+  (p.selections === undefined ||
+    (Array.isArray(p.selections) &&
+      p.selections.length <= MAX_CURSOR_SELECTIONS &&
+      p.selections.every(
+        (sel: any) =>
+          !!sel &&
+          ['startLine', 'startColumn', 'endLine', 'endColumn', 'caretLine', 'caretColumn'].every(
+            (key) => isPositiveInt(sel[key])
+          )
+      )));
+
+// Identity verified in the handshake; never trust names sent with events
+const identityOf = (
+  socket: Socket
+): Pick<User, 'userId' | 'userName' | 'guest' | 'fingerprint'> => {
+  const token: DecodedToken = socket.data.user;
+  return {
+    userId: token.userId,
+    userName: token.username,
+    guest: !!token.guest,
+    fingerprint: socket.data.fingerprint
+  };
+};
+
 dotenv.config();
 
 const app: Express = express();
@@ -52,14 +87,13 @@ app.use(
 
 // ---- SINGLE SOURCE OF TRUTH FOR ROOMS ----
 const socketManager = new SocketManager(io);
-type RoomState = {
-  language: string;
-  output: string;
-};
-
-const roomState = new Map<string, RoomState>();
+// Controllers reach the live rooms through req.app.get('socketManager')
+app.set('socketManager', socketManager);
 
 // ---------------- Socket.IO connection handlers ----------------
+// Every socket must present an account or guest token (see /api/auth)
+io.use((socket, next) => void socketAuthMiddleware(socket, next));
+
 io.on('connection', (socket: Socket) => {
   console.log(`✅ Client connected: ${socket.id}`);
 
@@ -67,15 +101,12 @@ io.on('connection', (socket: Socket) => {
   'run-output',
   (data: { roomId: string; output: string; language: string }) => {
     const { roomId, output, language } = data;
+    if (!roomId || typeof output !== 'string') return;
+    // Viewers (and anyone muted from editing) can't push output onto everyone's screen
+    if (!socketManager.canEdit(roomId, socket.id)) return;
     console.log(`run-output from ${socket.id} in room ${roomId}`);
-    io.to(roomId).emit('run-output', { output, language });
-
-  // 👇 Persist in roomState
-      const prev = roomState.get(roomId) || { language, output };
-      prev.language = language;
-      prev.output = output;
-      roomState.set(roomId, prev);
-
+    // Broadcasts and keeps it for late joiners (and Mongo)
+    socketManager.setLastRun(roomId, output, language);
   }
 );
 
@@ -93,36 +124,33 @@ socket.on('get-call-peers', (roomId: string) => {
     'create-room',
     async ({
       roomName,
-      userName,
       avatar,
     }: {
       roomName: string;
-      userName: string;
       avatar?: string;
     }) => {
+      const identity = identityOf(socket);
       try {
         const newRoomId = Math.random().toString(36).substring(2, 10).toUpperCase();
 
         await RoomModel.create({
           roomId: newRoomId,
           name: roomName,
-          createdBy: userName,
-        });
-
-        // 👇 ADD THIS
-        roomState.set(newRoomId, {
-          language: 'javascript', // default
-          output: '',             // no output yet
+          createdBy: identity.userName,
+          ownerId: identity.userId,
         });
 
         socket.join(newRoomId);
-        await socketManager.joinRoom(newRoomId, socket, userName, avatar);
+        await socketManager.joinRoom(newRoomId, socket, identity, avatar);
 
         const room = socketManager.getRoom(newRoomId);
         const users = room
           ? Array.from(room.users.values()).map((u: any) => ({
               socketId: u.socketId,
+              userId: u.userId,
               userName: u.userName,
+              guest: u.guest,
+              role: u.role,
               joinedAt: u.joinedAt,
               avatar: u.avatar,
             }))
@@ -139,100 +167,261 @@ socket.on('get-call-peers', (roomId: string) => {
     }
   );
 
-  // JOIN ROOM — check existence (in memory or DB), then join once
+  // JOIN ROOM — check existence (in memory or DB) and access, then join once
   socket.on(
     'join-room',
     async ({
       roomId,
-      userName,
       avatar,
+      password,
+      invite,
     }: {
       roomId: string;
-      userName: string;
       avatar?: string;
+      password?: string;
+      invite?: string;
     }) => {
+      if (typeof roomId !== 'string' || !roomId) return;
+      const identity = identityOf(socket);
+      const { userName } = identity;
       const rid = roomId.toUpperCase();
-      console.log(`➡️  ${userName} is trying to join room ${rid}`);
-
-      const existsInMemory = socketManager.getRoom(rid);
-      const existsInDb =
-        existsInMemory ? true : !!(await RoomModel.findOne({ roomId: rid }));
+      try {
+        console.log(`➡️  ${userName} is trying to join room ${rid}`);
 
-      if (!existsInDb) {
-        console.log(`❌ Room not found: ${rid}`);
-        socket.emit('join-error', 'Room not found!');
-        return;
-      }
+        const room = await socketManager.loadRoom(rid);
+        if (!room) {
+          console.log(`❌ Room not found: ${rid}`);
+          socket.emit('join-error', 'Room not found!');
+          return;
+        }
 
-      socket.join(rid);
-      await socketManager.joinRoom(rid, socket, userName, avatar);
-
-      // 👇 NEW: send current language & last output to this socket
-      const state = roomState.get(rid);
-      if (state) {
-        // Current language
-        socket.emit('language-update', state.language);
-
-        // Last output, if any
-        if (state.output) {
-          socket.emit('run-output', {
-            output: state.output,
-            language: state.language,
-          });
+        const access = await checkRoomAccess(rid, room, identity, { password, invite });
+        switch (access.status) {
+          case 'password-required':
+            socket.emit('join-password-required', 'This room needs a password');
+            return;
+          case 'wrong-password':
+            socket.emit('join-password-required', 'Wrong password');
+            return;
+          case 'knock':
+            socketManager.knock(rid, socket, identity, avatar);
+            return;
+          case 'denied':
+            socket.emit('join-error', access.message);
+            return;
+        }
+        if (access.inviteRole) {
+          socketManager.addMember(rid, identity.userId, userName, access.inviteRole);
         }
+
+        socket.join(rid);
+        if (!(await socketManager.joinRoom(rid, socket, identity, avatar))) return;
+
+        socket.emit('join-success');
+        console.log(`✅ ${userName} joined room ${rid}`);
+      } catch (err) {
+        console.error(`❌ Failed to join ${rid}:`, err);
+        socket.emit('join-error', 'Could not join the room');
       }
+    }
+  );
 
-      socket.emit('join-success');
-      console.log(`✅ ${userName} joined room ${rid}`);
+  // CODE OPERATION — delta against the client's last known revision of a file
+  socket.on(
+    'code-operation',
+    (data: { roomId: string; fileId: string; revision: number; operation: unknown }) => {
+      const { roomId, fileId, revision, operation } = data;
+      if (!roomId || !fileId || typeof revision !== 'number') return;
+      socketManager.applyOperation(roomId, socket, fileId, revision, operation);
     }
   );
 
-  // CODE CHANGE
-  socket.on('code-change', (data: { roomId: string; code: string; userId: string }) => {
-    const { roomId, code, userId } = data;
-    if (!roomId) return;
-    socketManager.updateCode(roomId, code, userId, socket.id);
+  // LANGUAGE CHANGE — per file, overrides what the extension suggested
+  socket.on('language-change', (data: { roomId: string; fileId: string; language: string }) => {
+    const { roomId, fileId, language } = data;
+    if (!roomId || !fileId || typeof language !== 'string') return;
+    socketManager.setFileLanguage(roomId, socket, fileId, language);
   });
 
-  // LANGUAGE CHANGE
-  socket.on('language-change', (data: { roomId: string; language: string }) => {
-    const { roomId, language } = data;
-    if (!roomId || !language) return;
-    socketManager.updateLanguage(roomId, socket.id, language);
-    io.to(roomId).emit('language-update', language);
+  // LIVE RUNS — start/stop the room's run and type into its stdin
+  socket.on('run-start', (data: { roomId: string }) => {
+    if (!data?.roomId) return;
+    socketManager.startRun(data.roomId, socket);
+  });
 
-  // 👇 Persist in roomState
-    const prev = roomState.get(roomId) || { language, output: '' };
-    prev.language = language;
-    roomState.set(roomId, prev);
+  socket.on('run-stdin', (data: { roomId: string; data: string }) => {
+    if (!data?.roomId || typeof data.data !== 'string') return;
+    socketManager.writeRunInput(data.roomId, socket, data.data);
+  });
+
+  socket.on('run-stop', (data: { roomId: string }) => {
+    if (!data?.roomId) return;
+    socketManager.stopRun(data.roomId, socket);
+  });
+
+  // Re-run a past run from the history, with its exact code and input
+  socket.on('run-rerun', (data: { roomId: string; runId: string }) => {
+    if (!data?.roomId || typeof data.runId !== 'string') return;
+    socketManager.rerun(data.roomId, socket, data.runId).catch((err) => {
+      console.error('❌ Failed to re-run:', err);
+      socket.emit('run-error', 'Could not re-run that run');
+    });
+  });
+
+  socket.on('run-cancel', (data: { roomId: string; jobId: string }) => {
+    if (!data?.roomId || typeof data.jobId !== 'string') return;
+    socketManager.cancelRunJob(data.roomId, socket, data.jobId);
+  });
+
+  // SQL ROOMS — the owner's seed script, and resetting the database to it
+  socket.on('sql-seed-set', (data: { roomId: string; seed: unknown }) => {
+    if (!data?.roomId) return;
+    socketManager.setSqlSeed(data.roomId, socket, data.seed);
+  });
 
+  socket.on('sql-reset', (data: { roomId: string }) => {
+    if (!data?.roomId) return;
+    socketManager.resetSqlDatabase(data.roomId, socket).catch((err) => {
+      console.error('❌ Failed to reset the SQL database:', err);
+      socket.emit('run-error', 'Could not reset the database');
+    });
+  });
+
+  // WEB PREVIEW — an HTML file rendered for the whole room (null closes it)
+  socket.on('preview-set', (data: { roomId: string; fileId: string | null }) => {
+    if (!data?.roomId || (data.fileId !== null && typeof data.fileId !== 'string')) return;
+    socketManager.setPreview(data.roomId, socket, data.fileId);
+  });
+
+  // RUN INPUT — stdin/args/env shared by the room, like the language
+  socket.on('run-input-change', (data: { roomId: string; runInput: unknown }) => {
+    if (!data?.roomId) return;
+    socketManager.setRunInput(data.roomId, socket, data.runInput);
+  });
+
+  // ---- Workspace file tree ----
+  socket.on('file-open', (data: { roomId: string; fileId: string }) => {
+    if (!data?.roomId || !data.fileId) return;
+    socketManager.openFile(data.roomId, socket, data.fileId);
   });
 
-  // CHAT MESSAGE
+  socket.on(
+    'file-create',
+    (data: { roomId: string; parentId: string | null; name: string; type: 'file' | 'folder' }) => {
+      if (!data?.roomId || (data.type !== 'file' && data.type !== 'folder')) return;
+      socketManager.createFile(data.roomId, socket, data.parentId ?? null, data.name, data.type);
+    }
+  );
+
+  socket.on('file-rename', (data: { roomId: string; fileId: string; name: string }) => {
+    if (!data?.roomId || !data.fileId) return;
+    socketManager.renameFile(data.roomId, socket, data.fileId, data.name);
+  });
+
+  socket.on('file-move', (data: { roomId: string; fileId: string; parentId: string | null }) => {
+    if (!data?.roomId || !data.fileId) return;
+    socketManager.moveFile(data.roomId, socket, data.fileId, data.parentId ?? null);
+  });
+
+  socket.on('file-delete', (data: { roomId: string; fileId: string }) => {
+    if (!data?.roomId || !data.fileId) return;
+    socketManager.deleteFile(data.roomId, socket, data.fileId);
+  });
+
+  // ---- Roles (owner only, checked in SocketManager) ----
+  socket.on('set-role', (data: { roomId: string; userId: string; role: string }) => {
+    if (!data?.roomId || !data.userId) return;
+    socketManager.setMemberRole(data.roomId, socket, data.userId, data.role);
+  });
+
+  socket.on('set-default-role', (data: { roomId: string; role: string }) => {
+    if (!data?.roomId) return;
+    socketManager.setDefaultRole(data.roomId, socket, data.role);
+  });
+
+  socket.on('knock-cancel', () => socketManager.cancelKnocks(socket.id));
+
+  // ---- Moderation (owner only, checked in SocketManager) ----
+  socket.on('moderate-kick', (data: { roomId: string; userId: string }) => {
+    if (!data?.roomId || !data.userId) return;
+    socketManager.kickUser(data.roomId, socket, data.userId);
+  });
+
+  socket.on('moderate-ban', (data: { roomId: string; userId: string }) => {
+    if (!data?.roomId || !data.userId) return;
+    socketManager.banUser(data.roomId, socket, data.userId);
+  });
+
+  socket.on('moderate-unban', (data: { roomId: string; userId: string }) => {
+    if (!data?.roomId || !data.userId) return;
+    socketManager.unbanUser(data.roomId, socket, data.userId);
+  });
+
+  socket.on(
+    'moderate-mute',
+    (data: { roomId: string; userId: string; chat?: boolean; edit?: boolean }) => {
+      if (!data?.roomId || !data.userId) return;
+      socketManager.muteUser(data.roomId, socket, data.userId, { chat: data.chat, edit: data.edit });
+    }
+  );
+
+  socket.on('moderate-lock', (data: { roomId: string; locked: boolean }) => {
+    if (!data?.roomId) return;
+    socketManager.setLocked(data.roomId, socket, !!data.locked);
+  });
+
+  // KNOCK RESPONSE — owner admits or turns away someone in the waiting room
+  socket.on('knock-response', (data: { roomId: string; socketId: string; admit: boolean }) => {
+    if (!data?.roomId || !data.socketId) return;
+    socketManager.answerKnock(data.roomId, socket, data.socketId, !!data.admit);
+  });
+
+  // CHAT MESSAGE — optionally a reply to an earlier one
   socket.on(
     'chat-message',
-    (data: { roomId: string; message: string; userName: string; avatar?: string }) => {
-      const { roomId, message, userName, avatar } = data;
-      if (!roomId || !message || !userName) return;
-
-      socketManager.broadcastMessage(roomId, {
-        id: uuidv4(),
-        message,
-        userName,
-        timestamp: new Date(),
-        userId: socket.id,
-        avatar,
-      });
+    (data: { roomId: string; message: string; avatar?: string; replyTo?: string }) => {
+      if (!data?.roomId) return;
+      socketManager
+        .sendChatMessage(data.roomId, socket, data)
+        .catch((err) => console.error('❌ Failed to send chat message:', err));
     }
   );
 
-  // CURSOR POSITION (optional)
+  // CHAT EDIT / DELETE / REACT — checked against who sent the message
+  socket.on('chat-edit', (data: { roomId: string; messageId: string; message: string }) => {
+    if (!data?.roomId) return;
+    socketManager
+      .editChatMessage(data.roomId, socket, data.messageId, data.message)
+      .catch((err) => console.error('❌ Failed to edit chat message:', err));
+  });
+
+  socket.on('chat-delete', (data: { roomId: string; messageId: string }) => {
+    if (!data?.roomId) return;
+    socketManager
+      .deleteChatMessage(data.roomId, socket, data.messageId)
+      .catch((err) => console.error('❌ Failed to delete chat message:', err));
+  });
+
+  socket.on('chat-react', (data: { roomId: string; messageId: string; emoji: string }) => {
+    if (!data?.roomId) return;
+    socketManager
+      .toggleChatReaction(data.roomId, socket, data.messageId, data.emoji)
+      .catch((err) => console.error('❌ Failed to react to chat message:', err));
+  });
+
+  // CHAT TYPING — started or stopped typing a message
+  socket.on('chat-typing', (data: { roomId: string; typing: boolean }) => {
+    if (!data?.roomId) return;
+    socketManager.setChatTyping(data.roomId, socket, !!data.typing);
+  });
+
+  // CURSOR POSITION — caret + selections, relayed to everyone else in the room
   socket.on(
     'cursor-position',
-    (data: { roomId: string; position: any; userName: string }) => {
-      const { roomId, position, userName } = data;
-      if (!roomId || !position) return;
-      socketManager.broadcastCursorPosition(roomId, socket.id, userName, position);
+    (data: { roomId: string; position: CursorPosition }) => {
+      const { roomId, position } = data;
+      if (!roomId || !isCursorPosition(position)) return;
+      socketManager.broadcastCursorPosition(roomId, socket, position);
     }
   );
 
@@ -275,6 +464,7 @@ socket.on('get-call-peers', (roomId: string) => {
   // DISCONNECT
   socket.on('disconnect', () => {
     console.log(`❌ Client disconnected: ${socket.id}`);
+    socketManager.cancelKnocks(socket.id);
     const rooms = socketManager.getAllRooms();
     rooms.forEach((room: any, roomId: string) => {
       if (room.users.has(socket.id)) {
@@ -285,9 +475,11 @@ socket.on('get-call-peers', (roomId: string) => {
 });
 
 // ---------------- API Routes ----------------
+app.use('/api/auth', authRoutes);
 app.use('/api/rooms', roomRoutes);
 app.use('/api/snippets', snippetRoutes);
 app.use('/api/run', runRoutes);
+app.use('/api/languages', languageRoutes);
 
 // Debug endpoint (avoid clashing with /api/rooms router)
 app.get('/api/debug/rooms', (req: Request, res: Response) => {
@@ -331,4 +523,20 @@ const startServer = async (): Promise<void> => {
 
 startServer();
 
+// Flush unsaved rooms before the process goes away
+const shutdown = async (signal: string): Promise<void> => {
+  console.log(`🛑 ${signal} received, saving rooms before exit…`);
+  server.close();
+  try {
+    socketManager.stopAllRuns();
+    await Promise.all([socketManager.flushAllRooms(), socketManager.stopAllRecordings()]);
+  } finally {
+    await disconnectDB();
+    process.exit(0);
+  }
+};
+
+process.once('SIGTERM', () => void shutdown('SIGTERM'));
+process.once('SIGINT', () => void shutdown('SIGINT'));
+
 export { io, socketManager };
\ No newline at end of file
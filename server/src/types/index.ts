@@ -1,20 +1,218 @@
+import type { CollabDocument } from '../utils/collabDocument';
+
+export type RoomRole = 'owner' | 'editor' | 'viewer';
+
 export interface User {
   socketId: string;
+  // Account id from the verified token ('guest-…' for guests)
+  userId: string;
   userName: string;
+  guest: boolean;
+  role: RoomRole;
+  // Per-browser id sent in the handshake, so bans also catch fresh guest sessions
+  fingerprint?: string;
   joinedAt: Date;
   avatar?: string; 
+  cursor?: CursorPosition;
+  activeFileId?: string | null;
+}
+
+export interface WorkspaceFile {
+  id: string;
+  name: string;
+  type: 'file' | 'folder';
+  parentId: string | null;
+  // Files only
+  language?: string;
+  document?: CollabDocument;
+}
+
+export interface LastRun {
+  output: string;
+  language: string;
+}
+
+// Per-run resource limits, within what the server allows
+export interface RunLimits {
+  // Seconds of CPU time
+  cpuTime: number;
+  // Seconds from start to finish, waiting included
+  wallTime: number;
+  memoryMb: number;
+}
+
+// Shell commands that replace a language's default build and run steps;
+// blank means the default
+export interface BuildCommands {
+  build: string;
+  run: string;
+}
+
+// What a run is fed besides the code; shared by everyone in the room
+export interface RunInput {
+  stdin: string;
+  args: string[];
+  env: Record<string, string>;
+  limits: RunLimits;
+  // Keyed by language id
+  commands: Record<string, BuildCommands>;
+}
+
+// One file of a multi-file run, at its path in the workspace
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+export interface TestCaseResult {
+  caseId: string;
+  name: string;
+  hidden: boolean;
+  passed: boolean;
+  status: { id: number; description: string };
+  // Seconds and kilobytes, when the backend reports them
+  time: number | null;
+  memory: number | null;
+  // Left out for hidden cases
+  input?: string;
+  expectedOutput?: string;
+  stdout?: string | null;
+  stderr?: string | null;
+  compileOutput?: string | null;
+}
+
+export type SqlCell = string | number | null;
+
+// What one statement of a SQL run produced: rows for queries, a count of
+// changed rows for everything else
+export interface SqlStatementResult {
+  columns: string[];
+  rows: SqlCell[][];
+  rowsModified: number;
+  // More rows than SQL_MAX_ROWS came back
+  truncated: boolean;
+}
+
+export interface SqlRunResult {
+  statements: SqlStatementResult[];
+  // Set when a statement failed; the ones before it still ran
+  error: string | null;
+  // Wall-clock seconds
+  time: number;
+}
+
+// One press of "Run tests": shown to everyone in the room
+export interface TestRunSummary {
+  language: string;
+  passed: number;
+  total: number;
+  results: TestCaseResult[];
+  ranBy: string;
+  ranAt: string;
+}
+
+export type RunJobKind = 'run' | 'tests';
+export type RunJobStatus = 'queued' | 'running' | 'done' | 'cancelled' | 'timed-out';
+
+// A run waiting for, or holding, an execution slot
+export interface RunJob {
+  jobId: string;
+  kind: RunJobKind;
+  queueKey: string;
+  roomId: string | null;
+  userId: string;
+  userName: string;
+  status: RunJobStatus;
+  // 1-based place in the room's queue while queued, otherwise 0
+  position: number;
+  queuedAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  cancelledBy: string | null;
+}
+
+export type SaveStatus = 'saved' | 'unsaved' | 'saving';
+
+export interface RoomMember {
+  userName: string;
+  role: Exclude<RoomRole, 'owner'>;
+}
+
+export interface RoomBan {
+  userId: string;
+  userName: string;
+  fingerprint: string | null;
+  bannedBy: string;
+  bannedAt: Date;
+}
+
+export interface MuteState {
+  chat: boolean;
+  edit: boolean;
 }
 
 export interface Room {
   users: Map<string, User>;
-  code: string;
-  language: string;
+  files: Map<string, WorkspaceFile>;
+  lastRun?: LastRun;
+  runInput: RunInput;
+  // Latest test run; kept in memory only
+  lastTestRun?: TestRunSummary;
+  // The HTML file everyone sees in the web preview, if it's open; memory only
+  previewFileId?: string;
+  // SQL rooms: the script that builds the database, kept by the owner, and
+  // the latest result set (memory only)
+  sqlSeed: string;
+  lastSqlResult?: SqlRunResult & { runId: string; ranBy: string };
+  createdBy: string;
   createdAt: Date;
+  // Access control: the owner, explicit roles keyed by user id, and the role
+  // anyone else gets when they join
+  ownerId: string | null;
+  members: Map<string, RoomMember>;
+  defaultRole: Exclude<RoomRole, 'owner'>;
+  passwordHash: string | null;
+  knockToJoin: boolean;
+  // Moderation: banned people, mutes keyed by user id, and no new joins while locked
+  bans: RoomBan[];
+  mutes: Map<string, MuteState>;
+  locked: boolean;
+  // Persistence bookkeeping: `dirty` means memory is ahead of Mongo
+  dirty: boolean;
+  dirtySince?: number;
+  saving: boolean;
+  lastSavedAt?: Date;
+  lastAutoSnapshotAt?: number;
+}
+
+export interface CursorSelection {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  // Where the caret sits inside the selection (start or end)
+  caretLine: number;
+  caretColumn: number;
 }
 
 export interface CursorPosition {
   line: number;
   column: number;
+  // Every selection/caret, primary first — more than one with multi-cursor
+  selections?: CursorSelection[];
+}
+
+// The message a reply answers, as it read when the reply was sent
+export interface ChatReplyRef {
+  id: string;
+  userName: string;
+  excerpt: string;
+}
+
+export interface ChatReaction {
+  emoji: string;
+  userId: string;
+  userName: string;
 }
 
 export interface ChatMessage {
@@ -24,6 +222,11 @@ export interface ChatMessage {
   timestamp: Date;
   userId: string;
   avatar?: string;
+  // Generated by the server (kicks, bans, …) rather than typed by someone
+  system?: boolean;
+  replyTo?: ChatReplyRef;
+  // userIds of the people it @mentions
+  mentions?: string[];
 }
 
 export interface SnippetData {
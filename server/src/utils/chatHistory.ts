@@ -0,0 +1,224 @@
+// server/src/utils/chatHistory.ts
+import mongoose, { Types } from 'mongoose';
+import { ChatMessage as ChatMessageModel, IChatMessage } from '../models/ChatMessage';
+import type { ChatMessage, ChatReaction, ChatReplyRef } from '../types';
+
+// Room for a pasted code snippet
+export const MAX_CHAT_MESSAGE_LENGTH = 10000;
+// How many messages come with a join, and per page when scrolling back
+export const CHAT_PAGE_SIZE = 50;
+export const MAX_CHAT_PAGE_SIZE = 200;
+// How much of the parent a reply quotes
+export const REPLY_EXCERPT_LENGTH = 140;
+// Distinct emoji on one message
+export const MAX_REACTIONS_PER_MESSAGE = 20;
+
+// The shape `new-message` has on the wire
+export interface ChatMessagePayload {
+  id: string;
+  message: string;
+  userName: string;
+  userId: string;
+  avatar?: string;
+  system?: boolean;
+  replyTo?: ChatReplyRef;
+  mentions: string[];
+  reactions: ChatReaction[];
+  editedAt: string | null;
+  deleted: boolean;
+  timestamp: string;
+}
+
+export interface ChatPage {
+  // Oldest first
+  messages: ChatMessagePayload[];
+  // Whether there are older ones to fetch
+  hasMore: boolean;
+  // Where the next older page starts, when there is one
+  cursor: string | null;
+}
+
+// A position in a room's chat. Messages can share a timestamp, so the
+// document id breaks ties
+export interface ChatCursor {
+  createdAt: Date;
+  id: Types.ObjectId;
+}
+
+const encodeChatCursor = (record: IChatMessage): string =>
+  `${record.createdAt.toISOString()}_${String(record._id)}`;
+
+// The cursor a client sent back, or null if it isn't one of ours
+export const parseChatCursor = (value: string): ChatCursor | null => {
+  const [at, id, ...rest] = value.split('_');
+  const createdAt = new Date(at);
+  if (rest.length || Number.isNaN(createdAt.getTime()) || !mongoose.isValidObjectId(id)) return null;
+  return { createdAt, id: new Types.ObjectId(id) };
+};
+
+export const chatPayload = (message: ChatMessage): ChatMessagePayload => ({
+  ...message,
+  mentions: message.mentions ?? [],
+  reactions: [],
+  editedAt: null,
+  deleted: false,
+  timestamp: message.timestamp.toISOString()
+});
+
+// A stored message as clients see it, after any edits, reactions or deletion
+export const storedChatPayload = (record: IChatMessage): ChatMessagePayload => ({
+  id: record.messageId,
+  message: record.message,
+  userName: record.userName,
+  userId: record.userId,
+  avatar: record.avatar,
+  system: record.system || undefined,
+  replyTo: record.replyTo ? { ...record.replyTo } : undefined,
+  mentions: [...record.mentions],
+  reactions: record.reactions.map(({ emoji, userId, userName }) => ({ emoji, userId, userName })),
+  editedAt: record.editedAt?.toISOString() ?? null,
+  deleted: record.deleted,
+  timestamp: record.createdAt.toISOString()
+});
+
+// What a reply shows of the message it answers
+export const replyRef = (record: IChatMessage): ChatReplyRef => ({
+  id: record.messageId,
+  userName: record.userName,
+  excerpt: record.deleted ? '' : record.message.slice(0, REPLY_EXCERPT_LENGTH)
+});
+
+// Characters that can't continue a name, so "@bob" doesn't mention "bobby"
+const NAME_CHAR = /[\p{L}\p{N}_.-]/u;
+
+// userIds of the people whose names follow an "@" in the text. Names are
+// matched case-insensitively and may contain spaces (guests pick their own);
+// longer names win, so "@Bob Smith" doesn't also mention "Bob"
+export const findMentions = (text: string, people: { userId: string; userName: string }[]): string[] => {
+  const lower = text.toLowerCase();
+  const claimed = new Set<number>();
+  const mentioned = new Set<string>();
+  [...people]
+    .sort((a, b) => b.userName.length - a.userName.length)
+    .forEach(({ userId, userName }) => {
+      const tag = `@${userName.toLowerCase()}`;
+      for (let at = lower.indexOf(tag); at !== -1; at = lower.indexOf(tag, at + 1)) {
+        const before = at > 0 ? lower[at - 1] : '';
+        const after = lower[at + tag.length] ?? '';
+        if (claimed.has(at) || NAME_CHAR.test(before) || NAME_CHAR.test(after)) continue;
+        claimed.add(at);
+        mentioned.add(userId);
+      }
+    });
+  return [...mentioned];
+};
+
+export const findChatMessage = (roomId: string, messageId: string): Promise<IChatMessage | null> =>
+  ChatMessageModel.findOne({ roomId: roomId.toUpperCase(), messageId }).exec();
+
+// A message in the room that hasn't been deleted
+const liveMessage = (roomId: string, messageId: string) => ({
+  roomId: roomId.toUpperCase(),
+  messageId,
+  deleted: false
+});
+
+// Rewords someone's own message; null if it's gone or isn't theirs
+export const editStoredMessage = (
+  roomId: string,
+  messageId: string,
+  userId: string,
+  text: string,
+  mentions: string[]
+): Promise<IChatMessage | null> =>
+  ChatMessageModel.findOneAndUpdate(
+    { ...liveMessage(roomId, messageId), userId, system: false },
+    { $set: { message: text, mentions, editedAt: new Date() } },
+    { new: true }
+  ).exec();
+
+// Blanks a message and its reactions. With `userId`, only if it's theirs
+export const deleteStoredMessage = (
+  roomId: string,
+  messageId: string,
+  userId?: string
+): Promise<IChatMessage | null> =>
+  ChatMessageModel.findOneAndUpdate(
+    { ...liveMessage(roomId, messageId), ...(userId ? { userId } : {}) },
+    { $set: { message: '', reactions: [], deleted: true } },
+    { new: true }
+  ).exec();
+
+// Takes back the person's emoji if they'd left it, otherwise adds it as long
+// as the message has room for it. Each step is a single update, so reactions
+// landing at the same moment don't overwrite each other. Null if neither applied
+export const toggleStoredReaction = async (
+  roomId: string,
+  messageId: string,
+  reaction: ChatReaction
+): Promise<IChatMessage | null> => {
+  const { emoji, userId } = reaction;
+  const removed = await ChatMessageModel.findOneAndUpdate(
+    { ...liveMessage(roomId, messageId), reactions: { $elemMatch: { emoji, userId } } },
+    { $pull: { reactions: { emoji, userId } } },
+    { new: true }
+  ).exec();
+  if (removed) return removed;
+
+  return ChatMessageModel.findOneAndUpdate(
+    {
+      ...liveMessage(roomId, messageId),
+      reactions: { $not: { $elemMatch: { emoji, userId } } },
+      $or: [
+        { 'reactions.emoji': emoji },
+        { $expr: { $lt: [{ $size: { $setUnion: ['$reactions.emoji', []] } }, MAX_REACTIONS_PER_MESSAGE] } }
+      ]
+    },
+    { $addToSet: { reactions: reaction } },
+    { new: true }
+  ).exec();
+};
+
+export const saveChatMessage = async (roomId: string, message: ChatMessage): Promise<void> => {
+  await ChatMessageModel.create({
+    roomId,
+    messageId: message.id,
+    userId: message.userId,
+    userName: message.userName,
+    avatar: message.avatar,
+    message: message.message,
+    system: !!message.system,
+    replyTo: message.replyTo ?? null,
+    mentions: message.mentions ?? [],
+    createdAt: message.timestamp
+  });
+};
+
+// The newest `limit` messages older than `cursor` (or at all)
+export const loadChatPage = async (
+  roomId: string,
+  cursor?: ChatCursor,
+  limit = CHAT_PAGE_SIZE
+): Promise<ChatPage> => {
+  const records = await ChatMessageModel.find({
+    roomId: roomId.toUpperCase(),
+    ...(cursor
+      ? {
+          $or: [
+            { createdAt: { $lt: cursor.createdAt } },
+            { createdAt: cursor.createdAt, _id: { $lt: cursor.id } }
+          ]
+        }
+      : {})
+  })
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limit + 1);
+
+  const page = records.slice(0, limit);
+  const hasMore = records.length > limit;
+  return {
+    messages: [...page].reverse().map(storedChatPayload),
+    hasMore,
+    cursor: hasMore ? encodeChatCursor(page[page.length - 1]) : null
+  };
+};
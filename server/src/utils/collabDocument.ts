@@ -0,0 +1,68 @@
+// server/src/utils/collabDocument.ts
+import { TextOperation } from './textOperation';
+
+// How many past operations we keep around to transform late edits against.
+// Clients further behind than this get a fresh snapshot instead.
+const MAX_HISTORY = 1000;
+
+export class RevisionOutOfRangeError extends Error {}
+export class DocumentTooLargeError extends Error {}
+
+// Clients exchange character offsets, so everyone has to agree on line endings
+const normalizeEol = (text: string): string => text.replace(/\r\n?/g, '\n');
+
+/**
+ * Authoritative copy of a shared text buffer. Every accepted operation bumps
+ * `revision`; clients tag their edits with the revision they were made against
+ * and we transform them over whatever happened since.
+ */
+export class CollabDocument {
+  content: string;
+  revision: number;
+  private history: TextOperation[] = [];
+  private historyStart: number;
+
+  constructor(content = '', revision = 0) {
+    this.content = normalizeEol(content);
+    this.revision = revision;
+    this.historyStart = revision;
+  }
+
+  // Operations that would grow the buffer past `maxLength` are refused
+  receiveOperation(revision: number, operation: TextOperation, maxLength = Infinity): TextOperation {
+    if (revision < this.historyStart || revision > this.revision) {
+      throw new RevisionOutOfRangeError(
+        `Revision ${revision} is outside the known range ${this.historyStart}-${this.revision}`
+      );
+    }
+
+    let transformed = operation;
+    for (const concurrent of this.history.slice(revision - this.historyStart)) {
+      [transformed] = TextOperation.transform(transformed, concurrent);
+    }
+    if (transformed.targetLength > transformed.baseLength && transformed.targetLength > maxLength) {
+      throw new DocumentTooLargeError(`The document can be at most ${maxLength} characters`);
+    }
+
+    this.content = transformed.apply(this.content);
+    this.history.push(transformed);
+    this.revision++;
+
+    if (this.history.length > MAX_HISTORY) {
+      const dropped = this.history.length - MAX_HISTORY;
+      this.history.splice(0, dropped);
+      this.historyStart += dropped;
+    }
+
+    return transformed;
+  }
+
+  // Replaces the whole buffer (e.g. restoring a revision). Pending client
+  // operations can't be transformed across this, so they resync from a snapshot.
+  reset(content: string): void {
+    this.content = normalizeEol(content);
+    this.revision++;
+    this.history = [];
+    this.historyStart = this.revision;
+  }
+}
@@ -0,0 +1,157 @@
+// server/src/utils/fileTree.ts
+import { v4 as uuidv4 } from 'uuid';
+import { getLanguage, languageForExtension } from '../config/languages';
+import type { SourceFile, WorkspaceFile } from '../types';
+import { CollabDocument } from './collabDocument';
+
+export class FileTreeError extends Error {}
+
+export const languageFromFileName = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  if (dot <= 0) return 'plaintext';
+  return languageForExtension(name.slice(dot + 1))?.id ?? 'plaintext';
+};
+
+export const defaultFileName = (language: string): string =>
+  `main.${getLanguage(language)?.extensions[0] ?? 'txt'}`;
+
+const MAX_NAME_LENGTH = 255;
+
+const validateName = (name: unknown): string => {
+  if (typeof name !== 'string') throw new FileTreeError('Name is required');
+  const trimmed = name.trim();
+  if (!trimmed) throw new FileTreeError('Name is required');
+  if (trimmed.length > MAX_NAME_LENGTH) throw new FileTreeError('Name is too long');
+  if (/[\/\\]/.test(trimmed) || trimmed === '.' || trimmed === '..') {
+    throw new FileTreeError(`Invalid name: ${trimmed}`);
+  }
+  return trimmed;
+};
+
+const validateParent = (files: Map<string, WorkspaceFile>, parentId: string | null): void => {
+  if (parentId === null) return;
+  const parent = files.get(parentId);
+  if (!parent || parent.type !== 'folder') {
+    throw new FileTreeError('Parent folder not found');
+  }
+};
+
+const assertUniqueName = (
+  files: Map<string, WorkspaceFile>,
+  parentId: string | null,
+  name: string,
+  ignoreId?: string
+): void => {
+  for (const file of files.values()) {
+    if (file.parentId === parentId && file.name === name && file.id !== ignoreId) {
+      throw new FileTreeError(`"${name}" already exists in this folder`);
+    }
+  }
+};
+
+export const createEntry = (
+  files: Map<string, WorkspaceFile>,
+  parentId: string | null,
+  rawName: unknown,
+  type: 'file' | 'folder',
+  // New files start from their language's template
+  content?: string
+): WorkspaceFile => {
+  const name = validateName(rawName);
+  validateParent(files, parentId);
+  assertUniqueName(files, parentId, name);
+
+  const language = languageFromFileName(name);
+  const entry: WorkspaceFile =
+    type === 'folder'
+      ? { id: uuidv4(), name, type, parentId }
+      : {
+          id: uuidv4(),
+          name,
+          type,
+          parentId,
+          language,
+          document: new CollabDocument(content ?? getLanguage(language)?.template ?? ''),
+        };
+  files.set(entry.id, entry);
+  return entry;
+};
+
+export const renameEntry = (
+  files: Map<string, WorkspaceFile>,
+  id: string,
+  rawName: unknown
+): WorkspaceFile => {
+  const entry = files.get(id);
+  if (!entry) throw new FileTreeError('File not found');
+  const name = validateName(rawName);
+  assertUniqueName(files, entry.parentId, name, id);
+
+  // A new extension usually means a new language
+  if (entry.type === 'file' && languageFromFileName(name) !== languageFromFileName(entry.name)) {
+    entry.language = languageFromFileName(name);
+  }
+  entry.name = name;
+  return entry;
+};
+
+export const moveEntry = (
+  files: Map<string, WorkspaceFile>,
+  id: string,
+  parentId: string | null
+): WorkspaceFile => {
+  const entry = files.get(id);
+  if (!entry) throw new FileTreeError('File not found');
+  validateParent(files, parentId);
+
+  // A folder can't be moved into itself or one of its descendants
+  for (let cursor = parentId; cursor !== null; cursor = files.get(cursor)?.parentId ?? null) {
+    if (cursor === id) throw new FileTreeError('Cannot move a folder into itself');
+  }
+
+  assertUniqueName(files, parentId, entry.name, id);
+  entry.parentId = parentId;
+  return entry;
+};
+
+// Removes the entry and everything below it; returns the removed ids
+export const deleteEntry = (files: Map<string, WorkspaceFile>, id: string): string[] => {
+  if (!files.has(id)) throw new FileTreeError('File not found');
+
+  const removed: string[] = [];
+  const visit = (entryId: string) => {
+    removed.push(entryId);
+    for (const file of files.values()) {
+      if (file.parentId === entryId) visit(file.id);
+    }
+  };
+  visit(id);
+
+  removed.forEach((entryId) => files.delete(entryId));
+  return removed;
+};
+
+// Slash-separated path from the workspace root, e.g. "src/utils/math.ts"
+export const pathOf = (files: Map<string, WorkspaceFile>, id: string): string => {
+  const parts: string[] = [];
+  for (let entry = files.get(id); entry; entry = entry.parentId ? files.get(entry.parentId) : undefined) {
+    parts.unshift(entry.name);
+  }
+  return parts.join('/');
+};
+
+// Every file's path and current content, in path order — what a run builds from
+export const sourceFiles = (files: Map<string, WorkspaceFile>): SourceFile[] =>
+  Array.from(files.values())
+    .filter((file) => file.type === 'file' && file.document)
+    .map((file) => ({ path: pathOf(files, file.id), content: file.document!.content }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+// First file in path order — where new joiners land
+export const firstFileId = (files: Map<string, WorkspaceFile>): string | null => {
+  const candidates = Array.from(files.values())
+    .filter((file) => file.type === 'file')
+    .map((file) => ({ id: file.id, path: pathOf(files, file.id) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  return candidates[0]?.id ?? null;
+};
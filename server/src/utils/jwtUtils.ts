@@ -1,13 +1,25 @@
 // server/src/utils/jwtUtils.ts
 import jwt, { Secret, SignOptions } from 'jsonwebtoken';
 import { StringValue } from 'ms'; // <-- Import StringValue from 'ms'
+import { v4 as uuidv4 } from 'uuid';
 
 export interface TokenPayload {
   userId: string;
   username: string;
+  // Guests get a token too, so every socket has a verified identity
+  guest?: boolean;
+}
+
+// Invite links carry their own signed token, unrelated to any account
+export interface InvitePayload {
+  purpose: 'invite';
+  roomId: string;
+  inviteId: string;
 }
 
 export interface DecodedToken extends TokenPayload {
+  // Token id, used to revoke a token on logout
+  jti: string;
   iat: number;
   exp: number;
 }
@@ -22,15 +34,33 @@ class JWTUtils {
     this.expiresIn = '7d';
   }
 
-  generateToken(userId: string, username: string): string {
-    const payload: TokenPayload = { userId, username };
+  generateToken(userId: string, username: string, guest = false): string {
+    const payload: TokenPayload = guest ? { userId, username, guest } : { userId, username };
     const options: SignOptions = {
-      expiresIn: this.expiresIn
+      expiresIn: this.expiresIn,
+      jwtid: uuidv4()
     };
 
     return jwt.sign(payload, this.secret, options);
   }
 
+  generateInviteToken(roomId: string, inviteId: string, expiresAt: Date): string {
+    const payload: InvitePayload = { purpose: 'invite', roomId, inviteId };
+    const expiresIn = Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+    return jwt.sign(payload, this.secret, { expiresIn });
+  }
+
+  verifyInviteToken(token: string): InvitePayload | null {
+    try {
+      const decoded = jwt.verify(token, this.secret) as Partial<InvitePayload>;
+      return decoded.purpose === 'invite' && decoded.roomId && decoded.inviteId
+        ? { purpose: 'invite', roomId: decoded.roomId, inviteId: decoded.inviteId }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
   verifyToken(token: string): DecodedToken | null {
     try {
       return jwt.verify(token, this.secret) as DecodedToken;
@@ -0,0 +1,54 @@
+// server/src/utils/permissions.ts
+import type { RoomRole } from '../types';
+
+const ROLE_RANK: Record<RoomRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2
+};
+
+// Roles an owner can hand out; ownership itself isn't transferable here
+export type AssignableRole = Exclude<RoomRole, 'owner'>;
+
+export const hasRole = (role: RoomRole | null | undefined, required: RoomRole): boolean =>
+  !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+
+export const isAssignableRole = (role: unknown): role is AssignableRole =>
+  role === 'editor' || role === 'viewer';
+
+// Live rooms key members by user id; stored ones keep a list
+export type RoomMembers = Map<string, { role: AssignableRole }> | { userId: string; role: AssignableRole }[];
+
+const memberRole = (members: RoomMembers, userId: string): AssignableRole | undefined =>
+  Array.isArray(members) ? members.find((m) => m.userId === userId)?.role : members.get(userId)?.role;
+
+export const isMember = (members: RoomMembers, userId: string): boolean =>
+  memberRole(members, userId) !== undefined;
+
+// Who's asking: the account (or guest) id, and the browser fingerprint if
+// they sent one
+export interface RoleIdentity {
+  userId: string;
+  fingerprint?: string | null;
+}
+
+export const isBanned = (
+  bans: { userId: string; fingerprint?: string | null }[],
+  { userId, fingerprint }: RoleIdentity
+): boolean =>
+  bans.some((ban) => ban.userId === userId || (!!fingerprint && ban.fingerprint === fingerprint));
+
+// null for people banned from the room, by account or by browser
+export const resolveRole = (
+  access: {
+    ownerId: string | null;
+    members: RoomMembers;
+    defaultRole: AssignableRole;
+    bans: { userId: string; fingerprint?: string | null }[];
+  },
+  identity: RoleIdentity
+): RoomRole | null => {
+  if (access.ownerId && access.ownerId === identity.userId) return 'owner';
+  if (isBanned(access.bans, identity)) return null;
+  return memberRole(access.members, identity.userId) ?? access.defaultRole;
+};
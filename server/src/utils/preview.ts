@@ -0,0 +1,53 @@
+// server/src/utils/preview.ts
+import path from 'path';
+import { getLanguage } from '../config/languages';
+import type { WorkspaceFile } from '../types';
+import { pathOf } from './fileTree';
+
+const LINK_TAG = /<link\b[^>]*>/gi;
+const SCRIPT_WITH_SRC = /<script\b([^>]*?)\s+src\s*=\s*(["'])(.*?)\2([^>]*)>\s*<\/script\s*>/gi;
+const HREF_ATTR = /\bhref\s*=\s*(["'])(.*?)\1/i;
+const STYLESHEET_REL = /\brel\s*=\s*(["']?)stylesheet\1/i;
+// http:, data:, //cdn... — left for the browser to fetch
+const EXTERNAL_URL = /^([a-z][a-z0-9+.-]*:|\/\/)/i;
+
+export const isPreviewable = (file: WorkspaceFile | undefined): boolean =>
+  file?.type === 'file' &&
+  (getLanguage(file.language ?? '')?.runner === 'preview' || /\.html?$/i.test(file.name));
+
+/**
+ * Turns an HTML file from the workspace into one self-contained document:
+ * stylesheets and scripts it references by relative path are inlined from
+ * the workspace, so the preview needs nothing from the server to render.
+ * Returns null if the file is gone.
+ */
+export const buildPreview = (files: Map<string, WorkspaceFile>, entryId: string): string | null => {
+  const entry = files.get(entryId);
+  if (!isPreviewable(entry) || !entry?.document) return null;
+
+  const byPath = new Map<string, WorkspaceFile>();
+  files.forEach((file) => {
+    if (file.type === 'file') byPath.set(pathOf(files, file.id), file);
+  });
+  const baseDir = path.posix.dirname(pathOf(files, entryId));
+
+  const contentAt = (ref: string): string | null => {
+    if (EXTERNAL_URL.test(ref)) return null;
+    const clean = ref.split(/[?#]/)[0];
+    const resolved = path.posix.normalize(
+      clean.startsWith('/') ? clean.slice(1) : path.posix.join(baseDir, clean)
+    );
+    return byPath.get(resolved)?.document?.content ?? null;
+  };
+
+  return entry.document.content
+    .replace(LINK_TAG, (tag) => {
+      const href = HREF_ATTR.exec(tag)?.[2];
+      const css = href && STYLESHEET_REL.test(tag) ? contentAt(href) : null;
+      return css === null ? tag : `<style>${css.replace(/<\/style/gi, '<\\/style')}</style>`;
+    })
+    .replace(SCRIPT_WITH_SRC, (tag, before: string, _quote: string, src: string, after: string) => {
+      const js = contentAt(src);
+      return js === null ? tag : `<script${before}${after}>${js.replace(/<\/script/gi, '<\\/script')}</script>`;
+    });
+};
@@ -0,0 +1,45 @@
+// server/src/utils/revisions.ts
+import crypto from 'crypto';
+import type { IRoomFile } from '../models/Room';
+import { RoomRevision, IRoomRevision } from '../models/RoomRevision';
+
+// Automatic snapshots beyond this many per room are pruned, oldest first.
+// Named checkpoints are never pruned.
+const MAX_AUTO_REVISIONS = 100;
+
+export const hashFiles = (files: IRoomFile[]): string => {
+  const canonical = [...files]
+    .sort((a, b) => a.fileId.localeCompare(b.fileId))
+    .map((f) => [f.fileId, f.name, f.type, f.parentId, f.language, f.content]);
+  return crypto.createHash('sha1').update(JSON.stringify(canonical)).digest('hex');
+};
+
+export const createRevision = async (
+  roomId: string,
+  files: IRoomFile[],
+  kind: 'auto' | 'checkpoint',
+  name = '',
+  createdBy = 'system'
+): Promise<IRoomRevision | null> => {
+  const contentHash = hashFiles(files);
+
+  // No point keeping an automatic snapshot identical to the previous one
+  if (kind === 'auto') {
+    const latest = await RoomRevision.findOne({ roomId }).sort({ createdAt: -1 }).select('contentHash');
+    if (latest?.contentHash === contentHash) return null;
+  }
+
+  const revision = await RoomRevision.create({ roomId, kind, name, files, contentHash, createdBy });
+
+  if (kind === 'auto') {
+    const stale = await RoomRevision.find({ roomId, kind: 'auto' })
+      .sort({ createdAt: -1 })
+      .skip(MAX_AUTO_REVISIONS)
+      .select('_id');
+    if (stale.length) {
+      await RoomRevision.deleteMany({ _id: { $in: stale.map((r) => r._id) } });
+    }
+  }
+
+  return revision;
+};
@@ -0,0 +1,91 @@
+// server/src/utils/roomAccess.ts
+import bcrypt from 'bcryptjs';
+import type { Room as IRoom, User } from '../types';
+import { RoomInvite } from '../models/RoomInvite';
+import JWTUtils from './jwtUtils';
+import { isBanned, type AssignableRole } from './permissions';
+
+const jwtUtils = new JWTUtils();
+
+export const MIN_ROOM_PASSWORD_LENGTH = 4;
+
+export const hashRoomPassword = async (password: string): Promise<string> => {
+  const salt = await bcrypt.genSalt(10);
+  return bcrypt.hash(password, salt);
+};
+
+export interface JoinCredentials {
+  password?: unknown;
+  invite?: unknown;
+}
+
+export type AccessResult =
+  // `inviteRole`: joined through an invite, remember them as a member
+  | { status: 'granted'; inviteRole?: AssignableRole }
+  | { status: 'password-required' | 'wrong-password' | 'knock' }
+  | { status: 'denied'; message: string };
+
+// Uses up one redemption of an invite, if it's still good
+const redeemInvite = async (roomId: string, token: string): Promise<AssignableRole | null> => {
+  const payload = jwtUtils.verifyInviteToken(token);
+  if (!payload || payload.roomId !== roomId) return null;
+
+  const invite = await RoomInvite.findOneAndUpdate(
+    {
+      _id: payload.inviteId,
+      roomId,
+      revoked: false,
+      expiresAt: { $gt: new Date() },
+      $or: [{ maxUses: null }, { $expr: { $lt: ['$uses', '$maxUses'] } }]
+    },
+    { $inc: { uses: 1 } },
+    { new: true }
+  );
+  return invite ? invite.role : null;
+};
+
+/**
+ * Decides whether someone may enter a room. The owner always can; banned
+ * people never can, and nobody new can while the room is locked. Members
+ * are let straight in; everyone else needs a valid invite, or the password
+ * (if set) and then the owner's approval (if knock-to-join is on).
+ */
+export const checkRoomAccess = async (
+  roomId: string,
+  room: IRoom,
+  identity: Pick<User, 'userId' | 'fingerprint'>,
+  credentials: JoinCredentials
+): Promise<AccessResult> => {
+  const { userId, fingerprint } = identity;
+  if (room.ownerId === userId) return { status: 'granted' };
+
+  if (isBanned(room.bans, { userId, fingerprint })) return { status: 'denied', message: 'You have been banned from this room' };
+
+  // Locked: nobody new gets in, though someone already inside can open another tab
+  const alreadyInside = Array.from(room.users.values()).some((u) => u.userId === userId);
+  if (room.locked && !alreadyInside) {
+    return { status: 'denied', message: 'This room is locked' };
+  }
+
+  if (room.members.has(userId)) return { status: 'granted' };
+
+  if (typeof credentials.invite === 'string' && credentials.invite) {
+    const inviteRole = await redeemInvite(roomId, credentials.invite);
+    return inviteRole
+      ? { status: 'granted', inviteRole }
+      : { status: 'denied', message: 'This invite link is invalid, used up or has expired' };
+  }
+
+  if (room.passwordHash) {
+    if (typeof credentials.password !== 'string' || !credentials.password) {
+      return { status: 'password-required' };
+    }
+    if (!(await bcrypt.compare(credentials.password, room.passwordHash))) {
+      return { status: 'wrong-password' };
+    }
+  }
+
+  if (room.knockToJoin) return { status: 'knock' };
+
+  return { status: 'granted' };
+};
@@ -0,0 +1,71 @@
+// server/src/utils/runHistory.ts
+import crypto from 'crypto';
+import { RunRecord, IRunRecord } from '../models/RunRecord';
+import type { RunInput, SourceFile } from '../types';
+
+// Runs beyond this many per room are pruned, oldest first
+const MAX_RUNS_PER_ROOM = 200;
+
+export interface FinishedRun {
+  runId: string;
+  fileName: string;
+  language: string;
+  code: string;
+  // Multi-file runs only
+  files?: SourceFile[];
+  entry?: string;
+  runInput: RunInput;
+  // Typed into the program while it ran
+  typedInput: string;
+  stdout: string;
+  stderr: string;
+  compileOutput: string | null;
+  status: { id: number; description: string } | null;
+  time: number | null;
+  memory: number | null;
+  exitCode: number | null;
+  startedBy: string;
+  stoppedBy: string | null;
+  startedAt: number;
+}
+
+export const hashCode = (code: string): string =>
+  crypto.createHash('sha1').update(code).digest('hex');
+
+export const recordRun = async (roomId: string, run: FinishedRun): Promise<IRunRecord> => {
+  const record = await RunRecord.create({
+    roomId,
+    runId: run.runId,
+    fileName: run.fileName,
+    language: run.language,
+    code: run.code,
+    codeHash: hashCode(run.code),
+    files: run.files ?? [],
+    entry: run.entry ?? null,
+    stdin: run.runInput.stdin + run.typedInput,
+    args: run.runInput.args,
+    env: run.runInput.env,
+    limits: run.runInput.limits,
+    commands: run.runInput.commands[run.language] ?? null,
+    stdout: run.stdout,
+    stderr: run.stderr,
+    compileOutput: run.compileOutput ?? '',
+    status: run.status,
+    time: run.time,
+    memory: run.memory,
+    exitCode: run.exitCode,
+    startedBy: run.startedBy,
+    stoppedBy: run.stoppedBy,
+    startedAt: new Date(run.startedAt)
+  });
+
+  const stale = await RunRecord.find({ roomId })
+    .sort({ createdAt: -1 })
+    .skip(MAX_RUNS_PER_ROOM)
+    .select('_id');
+  if (stale.length) {
+    await RunRecord.deleteMany({ _id: { $in: stale.map((r) => r._id) } });
+  }
+
+  return record;
+};
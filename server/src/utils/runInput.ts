@@ -0,0 +1,211 @@
+// server/src/utils/runInput.ts
+import { executorConfig } from '../config/executor';
+import { getLanguage } from '../config/languages';
+import type { ExecutionRequest } from '../executors/types';
+import type { BuildCommands, RunInput, RunLimits, SourceFile } from '../types';
+
+export class RunInputError extends Error {}
+
+export const MAX_STDIN_LENGTH = 64 * 1024;
+export const MAX_ARGS = 32;
+export const MAX_ARG_LENGTH = 1000;
+export const MAX_ENV_VARS = 32;
+export const MAX_ENV_VALUE_LENGTH = 1000;
+export const MAX_COMMAND_LENGTH = 1000;
+export const MAX_BUNDLE_FILES = 200;
+export const MAX_BUNDLE_SIZE = 1024 * 1024;
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+
+const LIMIT_LABELS: Record<keyof RunLimits, string> = {
+  cpuTime: 'CPU time',
+  wallTime: 'Wall time',
+  memoryMb: 'Memory'
+};
+
+// The server's defaults, never above its maximums
+export const defaultRunLimits = (): RunLimits => {
+  const { defaults, max } = executorConfig.limits;
+  return {
+    cpuTime: Math.min(defaults.cpuTime, max.cpuTime),
+    wallTime: Math.min(defaults.wallTime, max.wallTime),
+    memoryMb: Math.min(defaults.memoryMb, max.memoryMb)
+  };
+};
+
+// Limits saved earlier (in a room or a past run), fitted to today's policy
+export const storedRunLimits = (stored: Partial<RunLimits> | null | undefined): RunLimits => {
+  const limits = defaultRunLimits();
+  const { max } = executorConfig.limits;
+  (Object.keys(LIMIT_LABELS) as (keyof RunLimits)[]).forEach((key) => {
+    const value = stored?.[key];
+    if (typeof value === 'number' && value > 0) limits[key] = Math.min(value, max[key]);
+  });
+  return limits;
+};
+
+export const emptyRunInput = (): RunInput => ({
+  stdin: '',
+  args: [],
+  env: {},
+  limits: defaultRunLimits(),
+  commands: {}
+});
+
+// Build/run commands saved earlier, minus languages that no longer exist
+// and entries left entirely blank
+export const storedBuildCommands = (
+  stored: Iterable<[string, Partial<BuildCommands> | null | undefined]> | null | undefined
+): Record<string, BuildCommands> => {
+  const commands: Record<string, BuildCommands> = {};
+  for (const [language, value] of stored ?? []) {
+    const build = value?.build ?? '';
+    const run = value?.run ?? '';
+    if (getLanguage(language) && (build || run)) commands[language] = { build, run };
+  }
+  return commands;
+};
+
+/**
+ * Validates per-language build/run commands: an object keyed by language id
+ * of `{ build, run }` strings. Blank entries are dropped.
+ */
+export const parseBuildCommands = (value: unknown): Record<string, BuildCommands> => {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) throw new RunInputError('Invalid build commands');
+
+  const commands: Record<string, BuildCommands> = {};
+  for (const [language, entry] of Object.entries(value)) {
+    if (getLanguage(language)?.runner !== 'executor') {
+      throw new RunInputError(`Build commands given for unknown language: ${language}`);
+    }
+    const { build = '', run = '' } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof build !== 'string' || typeof run !== 'string') {
+      throw new RunInputError('Build and run commands must be strings');
+    }
+    if (build.length > MAX_COMMAND_LENGTH || run.length > MAX_COMMAND_LENGTH) {
+      throw new RunInputError(`Commands can be at most ${MAX_COMMAND_LENGTH} characters`);
+    }
+    if (build.trim() || run.trim()) commands[language] = { build: build.trim(), run: run.trim() };
+  }
+  return commands;
+};
+
+// Relative, forward slashes, no "." or ".." segments
+const isSafePath = (path: string): boolean =>
+  path.length > 0 &&
+  path.length <= 500 &&
+  !path.startsWith('/') &&
+  !path.includes('\\') &&
+  path.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..');
+
+/**
+ * Validates the files of a multi-file run and the entry point among them.
+ * No files means a single-file run of `code`, so both come back undefined.
+ */
+export const parseSourceBundle = (
+  files: unknown,
+  entry: unknown
+): { files?: SourceFile[]; entry?: string } => {
+  if (files === undefined || files === null) {
+    if (entry !== undefined && entry !== null) throw new RunInputError('entry needs files to pick from');
+    return {};
+  }
+  if (!Array.isArray(files) || files.length === 0) throw new RunInputError('files must be a non-empty list');
+  if (files.length > MAX_BUNDLE_FILES) throw new RunInputError(`At most ${MAX_BUNDLE_FILES} files`);
+
+  const seen = new Set<string>();
+  let size = 0;
+  const bundle = files.map((file): SourceFile => {
+    const { path, content } = (file ?? {}) as Record<string, unknown>;
+    if (typeof path !== 'string' || !isSafePath(path)) throw new RunInputError(`Invalid file path: ${String(path)}`);
+    if (typeof content !== 'string') throw new RunInputError(`Content of ${path} must be a string`);
+    if (seen.has(path)) throw new RunInputError(`Duplicate file path: ${path}`);
+    seen.add(path);
+    size += content.length;
+    return { path, content };
+  });
+  if (size > MAX_BUNDLE_SIZE) {
+    throw new RunInputError(`Files can add up to at most ${MAX_BUNDLE_SIZE / 1024} KB`);
+  }
+
+  if (typeof entry !== 'string' || !seen.has(entry)) throw new RunInputError('entry must be one of the files');
+  return { files: bundle, entry };
+};
+
+/**
+ * Validates requested limits against the server's maximums. Missing ones
+ * get the defaults; anything malformed or too high throws a RunInputError.
+ */
+export const parseRunLimits = (value: unknown): RunLimits => {
+  const limits = defaultRunLimits();
+  if (value === undefined || value === null) return limits;
+  if (typeof value !== 'object' || Array.isArray(value)) throw new RunInputError('Invalid run limits');
+
+  const { max } = executorConfig.limits;
+  (Object.keys(LIMIT_LABELS) as (keyof RunLimits)[]).forEach((key) => {
+    const requested = (value as Record<string, unknown>)[key];
+    if (requested === undefined || requested === null) return;
+    if (typeof requested !== 'number' || !Number.isFinite(requested) || requested <= 0) {
+      throw new RunInputError(`${LIMIT_LABELS[key]} limit must be a positive number`);
+    }
+    if (requested > max[key]) {
+      const unit = key === 'memoryMb' ? ' MB' : 's';
+      throw new RunInputError(`${LIMIT_LABELS[key]} can be at most ${max[key]}${unit}`);
+    }
+    limits[key] = requested;
+  });
+  return limits;
+};
+
+/**
+ * Validates stdin/args/env/limits/commands from a request or socket event. Missing fields
+ * are treated as empty; anything malformed throws a RunInputError.
+ */
+export const parseRunInput = (value: unknown): RunInput => {
+  if (value === undefined || value === null) return emptyRunInput();
+  if (typeof value !== 'object') throw new RunInputError('Invalid run input');
+  const { stdin = '', args = [], env = {}, limits, commands } = value as Record<string, unknown>;
+
+  if (typeof stdin !== 'string') throw new RunInputError('stdin must be a string');
+  if (stdin.length > MAX_STDIN_LENGTH) {
+    throw new RunInputError(`stdin can be at most ${MAX_STDIN_LENGTH / 1024} KB`);
+  }
+
+  if (!Array.isArray(args) || !args.every((arg) => typeof arg === 'string')) {
+    throw new RunInputError('args must be a list of strings');
+  }
+  if (args.length > MAX_ARGS || args.some((arg) => arg.length > MAX_ARG_LENGTH)) {
+    throw new RunInputError(`At most ${MAX_ARGS} arguments of up to ${MAX_ARG_LENGTH} characters`);
+  }
+
+  if (typeof env !== 'object' || env === null || Array.isArray(env)) {
+    throw new RunInputError('env must be an object of strings');
+  }
+  const entries = Object.entries(env);
+  if (entries.length > MAX_ENV_VARS) {
+    throw new RunInputError(`At most ${MAX_ENV_VARS} environment variables`);
+  }
+  for (const [name, val] of entries) {
+    if (!ENV_NAME_PATTERN.test(name)) throw new RunInputError(`Invalid environment variable name: ${name}`);
+    if (typeof val !== 'string' || val.length > MAX_ENV_VALUE_LENGTH) {
+      throw new RunInputError(`Invalid value for environment variable ${name}`);
+    }
+  }
+
+  return {
+    stdin,
+    args: [...args],
+    env: Object.fromEntries(entries) as Record<string, string>,
+    limits: parseRunLimits(limits),
+    commands: parseBuildCommands(commands)
+  };
+};
+
+// What the executor gets: the input, with only this language's commands
+export const executionRequest = (
+  language: string,
+  code: string,
+  { commands, ...input }: RunInput,
+  bundle: { files?: SourceFile[]; entry?: string } = {}
+): ExecutionRequest => ({ language, code, ...input, ...bundle, commands: commands[language] });
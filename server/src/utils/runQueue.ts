@@ -0,0 +1,197 @@
+// server/src/utils/runQueue.ts
+import { v4 as uuidv4 } from 'uuid';
+import type { RunQueueConfig } from '../config/executor';
+import type { RunJob, RunJobKind } from '../types';
+
+export class RunQueueError extends Error {}
+
+export type RunJobOutcome<T> =
+  | { status: 'done'; value: T }
+  | { status: 'cancelled' | 'timed-out' };
+
+export interface RunJobSpec<T> {
+  kind: RunJobKind;
+  // Jobs with the same key share a concurrency limit: a room id, or
+  // something like `api:<ip>` for runs made outside a room
+  queueKey: string;
+  roomId: string | null;
+  userId: string;
+  userName: string;
+  timeoutMs?: number;
+  // Does the work once a slot frees up; should give up when `signal` aborts.
+  // `job` is live, so its status says why it was aborted.
+  task: (signal: AbortSignal, job: RunJob) => Promise<T>;
+}
+
+interface QueueEntry {
+  job: RunJob;
+  task: (signal: AbortSignal, job: RunJob) => Promise<unknown>;
+  timeoutMs: number;
+  controller: AbortController;
+  timer?: NodeJS.Timeout;
+  settle: (outcome: RunJobOutcome<unknown>) => void;
+  fail: (error: unknown) => void;
+}
+
+/**
+ * First-come, first-served queue for code runs, with a cap on how many run
+ * at once overall and per key. Every job ends as done, cancelled or
+ * timed-out; `onChange` hears about each job that changed status, after
+ * which jobsFor() reflects the new queue positions.
+ */
+class RunQueue {
+  // Queued and running jobs, in arrival order
+  private entries: Map<string, QueueEntry> = new Map();
+  private config: RunQueueConfig;
+  private onChange: (job: RunJob) => void;
+
+  constructor(config: RunQueueConfig, onChange: (job: RunJob) => void) {
+    this.config = config;
+    this.onChange = onChange;
+  }
+
+  // Throws a RunQueueError when the key's queue is full or the user already
+  // has the same kind of job waiting or running there
+  enqueue<T>(spec: RunJobSpec<T>): { job: RunJob; finished: Promise<RunJobOutcome<T>> } {
+    const pending = this.jobsFor(spec.queueKey);
+    if (pending.some((job) => job.userId === spec.userId && job.kind === spec.kind)) {
+      throw new RunQueueError(
+        spec.kind === 'tests' ? 'Your test run is already queued' : 'Your run is already queued'
+      );
+    }
+    if (pending.filter((job) => job.status === 'queued').length >= this.config.maxQueuedPerRoom) {
+      throw new RunQueueError('Too many runs are waiting; try again in a moment');
+    }
+
+    const job: RunJob = {
+      jobId: uuidv4(),
+      kind: spec.kind,
+      queueKey: spec.queueKey,
+      roomId: spec.roomId,
+      userId: spec.userId,
+      userName: spec.userName,
+      status: 'queued',
+      position: 0,
+      queuedAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      cancelledBy: null
+    };
+
+    const finished = new Promise<RunJobOutcome<T>>((resolve, reject) => {
+      this.entries.set(job.jobId, {
+        job,
+        task: spec.task,
+        timeoutMs: spec.timeoutMs ?? this.config.jobTimeoutMs,
+        controller: new AbortController(),
+        settle: resolve as (outcome: RunJobOutcome<unknown>) => void,
+        fail: reject
+      });
+    });
+
+    this.pump();
+    // Started straight away, or waiting its turn
+    if (job.status === 'queued') this.onChange(this.snapshot(this.entries.get(job.jobId)!));
+    return { job: { ...job, position: this.position(job.jobId) }, finished };
+  }
+
+  // Works on queued and running jobs alike; null if it has already ended
+  cancel(jobId: string, cancelledBy: string): RunJob | null {
+    const entry = this.entries.get(jobId);
+    if (!entry) return null;
+    entry.job.cancelledBy = cancelledBy;
+    this.finish(entry, { status: 'cancelled' });
+    return { ...entry.job };
+  }
+
+  cancelAll(cancelledBy: string): void {
+    [...this.entries.keys()].forEach((jobId) => this.cancel(jobId, cancelledBy));
+  }
+
+  get(jobId: string): RunJob | undefined {
+    return this.entries.has(jobId) ? this.snapshot(this.entries.get(jobId)!) : undefined;
+  }
+
+  // Running jobs first, then the queue in order
+  jobsFor(queueKey: string): RunJob[] {
+    const entries = [...this.entries.values()].filter((entry) => entry.job.queueKey === queueKey);
+    return [
+      ...entries.filter((entry) => entry.job.status === 'running'),
+      ...entries.filter((entry) => entry.job.status === 'queued')
+    ].map((entry) => this.snapshot(entry));
+  }
+
+  // 1-based place among the key's queued jobs; 0 once running
+  private position(jobId: string): number {
+    const entry = this.entries.get(jobId);
+    if (entry?.job.status !== 'queued') return 0;
+    let ahead = 0;
+    for (const other of this.entries.values()) {
+      if (other === entry) break;
+      if (other.job.queueKey === entry.job.queueKey && other.job.status === 'queued') ahead++;
+    }
+    return ahead + 1;
+  }
+
+  private snapshot(entry: QueueEntry): RunJob {
+    return { ...entry.job, position: this.position(entry.job.jobId) };
+  }
+
+  private running(queueKey?: string): number {
+    let count = 0;
+    this.entries.forEach(({ job }) => {
+      if (job.status === 'running' && (!queueKey || job.queueKey === queueKey)) count++;
+    });
+    return count;
+  }
+
+  // Starts whatever the limits allow, oldest first
+  private pump(): void {
+    for (const entry of this.entries.values()) {
+      if (this.running() >= this.config.globalConcurrency) return;
+      if (entry.job.status !== 'queued') continue;
+      if (this.running(entry.job.queueKey) >= this.config.roomConcurrency) continue;
+      this.start(entry);
+    }
+  }
+
+  private start(entry: QueueEntry): void {
+    const { job } = entry;
+    job.status = 'running';
+    job.startedAt = Date.now();
+    entry.timer = setTimeout(() => this.finish(entry, { status: 'timed-out' }), entry.timeoutMs);
+    this.onChange(this.snapshot(entry));
+
+    let work: Promise<unknown>;
+    try {
+      work = entry.task(entry.controller.signal, job);
+    } catch (error) {
+      work = Promise.reject(error);
+    }
+    work.then(
+      (value) => this.finish(entry, { status: 'done', value }),
+      (error) => this.finish(entry, { status: 'done', value: undefined }, error)
+    );
+  }
+
+  // Whichever comes first wins: the task settling, a cancel or the timeout
+  private finish(entry: QueueEntry, outcome: RunJobOutcome<unknown>, error?: unknown): void {
+    const { job } = entry;
+    if (!this.entries.delete(job.jobId)) return;
+    clearTimeout(entry.timer);
+
+    const wasRunning = job.status === 'running';
+    job.status = outcome.status;
+    job.finishedAt = Date.now();
+    // The task sees the final status when it gets the abort
+    if (wasRunning && outcome.status !== 'done') entry.controller.abort();
+
+    if (error !== undefined) entry.fail(error);
+    else entry.settle(outcome);
+
+    this.onChange({ ...job, position: 0 });
+    this.pump();
+  }
+}
+
+export default RunQueue;
@@ -0,0 +1,131 @@
+// server/src/utils/sessionRecorder.ts
+import type { Types } from 'mongoose';
+import type { IRoomFile } from '../models/Room';
+import { SessionRecording, RecordingChunk, RecordedEvent } from '../models/SessionRecording';
+
+// Buffered events are written out this often, or sooner once a chunk fills up
+const FLUSH_INTERVAL_MS = 5000;
+const MAX_CHUNK_EVENTS = 500;
+
+interface ActiveRecording {
+  recordingId: Promise<Types.ObjectId | null>;
+  startedAt: number;
+  buffer: RecordedEvent[];
+  seq: number;
+  eventCount: number;
+  participants: Set<string>;
+  // Serialises writes so chunks land in order
+  writing: Promise<void>;
+}
+
+/**
+ * Records what happens in a room while people are in it (edits, file tree
+ * changes, runs, chat) so the session can be replayed later.
+ */
+class SessionRecorder {
+  private active: Map<string, ActiveRecording> = new Map();
+  private timer: NodeJS.Timeout;
+
+  constructor() {
+    this.timer = setInterval(() => {
+      this.active.forEach((recording, roomId) => {
+        if (recording.buffer.length) void this.flush(roomId, recording);
+      });
+    }, FLUSH_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  isRecording(roomId: string): boolean {
+    return this.active.has(roomId);
+  }
+
+  start(roomId: string, files: IRoomFile[]): void {
+    if (this.active.has(roomId)) return;
+
+    const startedAt = Date.now();
+    const recordingId = SessionRecording.create({
+      roomId,
+      startedAt: new Date(startedAt),
+      initialFiles: files
+    })
+      .then((doc) => doc._id as Types.ObjectId)
+      .catch((err) => {
+        console.error(`❌ Failed to start recording for ${roomId}:`, err);
+        return null;
+      });
+
+    this.active.set(roomId, {
+      recordingId,
+      startedAt,
+      buffer: [],
+      seq: 0,
+      eventCount: 0,
+      participants: new Set(),
+      writing: Promise.resolve()
+    });
+    console.log(`⏺️  Recording session in ${roomId}`);
+  }
+
+  record(roomId: string, event: Omit<RecordedEvent, 't'>): void {
+    const recording = this.active.get(roomId);
+    if (!recording) return;
+
+    recording.buffer.push({ ...event, t: Date.now() - recording.startedAt });
+    if (event.u) recording.participants.add(event.u);
+    if (recording.buffer.length >= MAX_CHUNK_EVENTS) void this.flush(roomId, recording);
+  }
+
+  addParticipant(roomId: string, userName: string): void {
+    this.active.get(roomId)?.participants.add(userName);
+  }
+
+  async stop(roomId: string): Promise<void> {
+    const recording = this.active.get(roomId);
+    if (!recording) return;
+
+    // Detach it first, so someone joining while the last chunk is written
+    // starts a fresh recording rather than going unrecorded
+    this.active.delete(roomId);
+    await this.flush(roomId, recording, true);
+    console.log(`⏹️  Stopped recording in ${roomId}`);
+  }
+
+  async stopAll(): Promise<void> {
+    await Promise.all(Array.from(this.active.keys()).map((roomId) => this.stop(roomId)));
+  }
+
+  private flush(roomId: string, recording: ActiveRecording, ended = false): Promise<void> {
+    const events = recording.buffer;
+    recording.buffer = [];
+    const seq = events.length ? recording.seq++ : -1;
+    recording.eventCount += events.length;
+    const eventCount = recording.eventCount;
+    const durationMs = Date.now() - recording.startedAt;
+    const participants = Array.from(recording.participants);
+
+    recording.writing = recording.writing.then(async () => {
+      const recordingId = await recording.recordingId;
+      if (!recordingId) return;
+
+      try {
+        if (seq >= 0) {
+          await RecordingChunk.create({ recordingId, seq, events });
+        }
+        await SessionRecording.updateOne(
+          { _id: recordingId },
+          {
+            eventCount,
+            durationMs,
+            participants,
+            ...(ended ? { endedAt: new Date() } : {})
+          }
+        );
+      } catch (err) {
+        console.error(`❌ Failed to write recording for ${roomId}:`, err);
+      }
+    });
+    return recording.writing;
+  }
+}
+
+export default SessionRecorder;
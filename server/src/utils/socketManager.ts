@@ -1,22 +1,165 @@
 // server/src/utils/socketManager.ts
 import { Server, Socket } from 'socket.io';
-import type { Room as IRoom, User, ChatMessage, CursorPosition } from '../types';
-import { Room as RoomModel } from '../models/Room';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Room as IRoom,
+  User,
+  ChatMessage,
+  CursorPosition,
+  WorkspaceFile,
+  SaveStatus,
+  RoomRole,
+  MuteState,
+  TestRunSummary,
+  RunInput,
+  SourceFile,
+  RunJob
+} from '../types';
+import { Room as RoomModel, IRoom as IRoomDocument, IRoomFile } from '../models/Room';
+import { CollabDocument, DocumentTooLargeError, RevisionOutOfRangeError } from './collabDocument';
+import { TextOperation } from './textOperation';
+import {
+  FileTreeError,
+  pathOf,
+  createEntry,
+  renameEntry,
+  moveEntry,
+  deleteEntry,
+  defaultFileName,
+  firstFileId,
+  sourceFiles
+} from './fileTree';
+import { createRevision } from './revisions';
+import { recordRun } from './runHistory';
+import {
+  chatPayload,
+  deleteStoredMessage,
+  editStoredMessage,
+  findChatMessage,
+  findMentions,
+  loadChatPage,
+  MAX_CHAT_MESSAGE_LENGTH,
+  MAX_REACTIONS_PER_MESSAGE,
+  replyRef,
+  saveChatMessage,
+  storedChatPayload,
+  toggleStoredReaction
+} from './chatHistory';
+import { buildPreview, isPreviewable } from './preview';
+import SqlPlayground, { formatSqlResult } from './sqlPlayground';
+import { RunRecord } from '../models/RunRecord';
+import SessionRecorder from './sessionRecorder';
+import { hasRole, isAssignableRole, resolveRole, AssignableRole } from './permissions';
+import {
+  emptyRunInput,
+  executionRequest,
+  parseRunInput,
+  parseSourceBundle,
+  RunInputError,
+  storedBuildCommands,
+  storedRunLimits
+} from './runInput';
+import {
+  ExecutionStatus,
+  getExecutor,
+  startExecution,
+  type ExecutionResult,
+  type RunningProcess
+} from '../executors';
+import { executorConfig } from '../config/executor';
+import { getLanguage } from '../config/languages';
+import RunQueue, { RunQueueError, type RunJobSpec } from './runQueue';
+
+// Write to Mongo once edits pause for SAVE_DEBOUNCE_MS, but never leave a
+// room dirty for longer than SAVE_MAX_DELAY_MS while people keep typing
+const SAVE_DEBOUNCE_MS = 2000;
+const SAVE_MAX_DELAY_MS = 10000;
+
+// Saves also drop an automatic history snapshot at most this often
+const AUTO_SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+// Every file is saved into the room's Mongo document, which can't grow past
+// 16 MB. Even at three UTF-8 bytes a character this leaves room for the rest
+const MAX_ROOM_CONTENT_LENGTH = 4 * 1024 * 1024;
+
+type Identity = Pick<User, 'userId' | 'userName' | 'guest' | 'fingerprint'>;
+
+const NOT_MUTED: MuteState = { chat: false, edit: false };
+
+const MAX_SQL_SEED_LENGTH = 256 * 1024;
+
+// A reaction is one emoji, possibly with modifiers (skin tone, ZWJ sequences)
+const MAX_EMOJI_LENGTH = 16;
+const EMOJI_PATTERN = /^(?=.*\p{Extended_Pictographic})(?:\p{Extended_Pictographic}|\p{Emoji_Component}|\u200d|\ufe0f)+$/u;
+
+// The web preview rebuilds once edits pause this long
+const PREVIEW_DEBOUNCE_MS = 300;
+
+// How much of a live run's output is kept for people who join mid-run
+const MAX_TRANSCRIPT_LENGTH = 256 * 1024;
+const MAX_STDIN_CHUNK_LENGTH = 4096;
+
+// `compile` is what the compiler printed before the program ran
+type RunStream = 'stdout' | 'stderr' | 'stdin' | 'compile';
+
+// A program running in a room, streamed to everyone in it
+interface LiveRun {
+  runId: string;
+  source: RunSource;
+  startedBy: string;
+  startedAt: number;
+  process: RunningProcess;
+  transcript: { stream: RunStream; data: string }[];
+  transcriptLength: number;
+  stoppedBy?: string;
+  timedOut?: boolean;
+  // Hands the run's queue slot back
+  onFinish: () => void;
+}
+
+// What a queued live run will execute, captured when Run was pressed (or
+// taken from the run history, for a re-run)
+interface RunSource {
+  code: string;
+  language: string;
+  fileName: string;
+  // Every file in the workspace, and the run file's path among them; left
+  // out for re-runs of runs recorded before multi-file runs existed
+  files?: SourceFile[];
+  entry?: string;
+  runInput: RunInput;
+}
+
+// Someone waiting for the owner to let them into a knock-to-join room
+interface KnockRequest {
+  socket: Socket;
+  identity: Identity;
+  avatar?: string;
+  requestedAt: Date;
+}
 
 class SocketManager {
   private rooms: Map<string, IRoom> = new Map();
+  private knocks: Map<string, Map<string, KnockRequest>> = new Map();
+  private saveTimers: Map<string, NodeJS.Timeout> = new Map();
+  // The write each room is waiting on, while one is running
+  private saves: Map<string, Promise<void>> = new Map();
+  private previewTimers: Map<string, NodeJS.Timeout> = new Map();
+  private recorder = new SessionRecorder();
+  // At most one live run per room
+  private runs: Map<string, LiveRun> = new Map();
+  private runQueue: RunQueue;
+  private sql = new SqlPlayground(executorConfig.sql);
   private io: Server;
 
   constructor(io: Server) {
     this.io = io;
+    this.runQueue = new RunQueue(executorConfig.queue, (job) => this.runJobChanged(job));
     console.log('🔌 SocketManager initialized with empty rooms map');
   }
 
-  async joinRoom(roomId: string, socket: Socket, userName: string, avatar?: string): Promise<void> {
-    console.log(`🔧 Joining room: ${roomId} for user: ${userName} (socket: ${socket.id})`);
-
-    socket.join(roomId);
-
+  // The live room, loading it from Mongo first if nobody has it open
+  async loadRoom(roomId: string): Promise<IRoom | undefined> {
     // Check if room exists in memory
     let room = this.rooms.get(roomId);
 
@@ -33,32 +176,146 @@ class SocketManager {
       // Create in-memory room from DB data
       room = {
         users: new Map(),
-        code: dbRoom.code || '',
-        language: dbRoom.language || 'javascript',
-        createdAt: dbRoom.createdAt
+        files: this.loadFiles(dbRoom),
+        lastRun: dbRoom.lastRun?.output
+          ? { output: dbRoom.lastRun.output, language: dbRoom.lastRun.language }
+          : undefined,
+        runInput: dbRoom.runInput
+          ? {
+              stdin: dbRoom.runInput.stdin ?? '',
+              args: [...(dbRoom.runInput.args ?? [])],
+              env: Object.fromEntries(dbRoom.runInput.env ?? []),
+              limits: storedRunLimits(dbRoom.runInput.limits),
+              commands: storedBuildCommands(dbRoom.runInput.commands)
+            }
+          : emptyRunInput(),
+        sqlSeed: dbRoom.sqlSeed ?? '',
+        createdBy: dbRoom.createdBy,
+        createdAt: dbRoom.createdAt,
+        ownerId: dbRoom.ownerId ?? null,
+        members: new Map(
+          (dbRoom.members ?? []).map((m) => [m.userId, { userName: m.userName, role: m.role }])
+        ),
+        defaultRole: dbRoom.defaultRole ?? 'editor',
+        passwordHash: dbRoom.passwordHash ?? null,
+        knockToJoin: !!dbRoom.knockToJoin,
+        bans: (dbRoom.bans ?? []).map((b) => ({
+          userId: b.userId,
+          userName: b.userName,
+          fingerprint: b.fingerprint ?? null,
+          bannedBy: b.bannedBy,
+          bannedAt: b.bannedAt
+        })),
+        mutes: new Map((dbRoom.mutes ?? []).map((m) => [m.userId, { chat: m.chat, edit: m.edit }])),
+        locked: !!dbRoom.locked,
+        dirty: false,
+        saving: false,
+        lastSavedAt: dbRoom.lastModified
       };
       this.rooms.set(roomId, room);
     }
+    return room;
+  }
+
+  // False when they couldn't be let in (the room is gone, or they're banned)
+  async joinRoom(roomId: string, socket: Socket, identity: Identity, avatar?: string): Promise<boolean> {
+    const { userName } = identity;
+    console.log(`🔧 Joining room: ${roomId} for user: ${userName} (socket: ${socket.id})`);
+
+    socket.join(roomId);
+
+    const room = await this.loadRoom(roomId);
+    if (!room) return false; // Let caller handle error
+
+    // Rooms from before roles existed are claimed by the account that created them
+    if (!room.ownerId && !identity.guest && identity.userName === room.createdBy) {
+      room.ownerId = identity.userId;
+      this.markDirty(roomId);
+    }
+
+    // Banned people are turned away by checkRoomAccess; this is the backstop
+    const role = resolveRole(room, identity);
+    if (!role) {
+      socket.leave(roomId);
+      socket.emit('join-error', 'You have been banned from this room');
+      return false;
+    }
 
     // Add user to room
     const user: User = {
       socketId: socket.id,
-      userName,
+      ...identity,
+      role,
       joinedAt: new Date(),
-      avatar
+      avatar,
+      activeFileId: firstFileId(room.files)
     };
 
     room.users.set(socket.id, user);
     console.log(`👤 Added user to room ${roomId}: ${userName} (${socket.id})`);
 
+    // A recorded session lasts for as long as anyone is in the room
+    if (!this.recorder.isRecording(roomId)) {
+      this.recorder.start(roomId, this.serializeFiles(room));
+    }
+    this.recorder.addParticipant(roomId, userName);
+
     // Send current state to joining user
-    socket.emit('code-update', {
-      code: room.code,
-      language: room.language
+    socket.emit('files-update', this.listFiles(room));
+    this.sendSnapshot(socket, room, user.activeFileId);
+    socket.emit('save-status', this.saveStatusPayload(room));
+    socket.emit('room-access', this.accessPayload(room));
+    socket.emit('run-input', room.runInput);
+    if (room.lastRun) {
+      socket.emit('run-output', room.lastRun);
+    }
+    if (room.lastTestRun) {
+      socket.emit('test-results', room.lastTestRun);
+    }
+    if (room.previewFileId) {
+      socket.emit('preview-update', this.previewPayload(room));
+    }
+    if (room.sqlSeed) {
+      socket.emit('sql-seed', room.sqlSeed);
+    }
+    if (room.lastSqlResult) {
+      socket.emit('sql-result', room.lastSqlResult);
+    }
+    // The latest stretch of chat; older pages come from the REST API
+    loadChatPage(roomId)
+      .then((page) => socket.emit('chat-history', page))
+      .catch((err) => console.error(`❌ Failed to load chat for ${roomId}:`, err));
+    const jobs = this.runQueue.jobsFor(roomId);
+    if (jobs.length) {
+      socket.emit('run-queue', jobs.map((job) => this.jobPayload(job)));
+    }
+    // Joined mid-run: catch up on what has been printed so far
+    const run = this.runs.get(roomId);
+    if (run) {
+      socket.emit('run-started', this.runPayload(run));
+      run.transcript.forEach(({ stream, data }) => {
+        socket.emit('run-data', { runId: run.runId, stream, data });
+      });
+    }
+
+    // ...and where everybody else's cursor currently is
+    room.users.forEach((other) => {
+      if (other.socketId !== socket.id && other.cursor) {
+        socket.emit('cursor-update', this.cursorPayload(other));
+      }
     });
 
     // Broadcast updated user list
     this.broadcastUsers(roomId);
+
+    // Owners get whoever is already knocking, and the ban list
+    if (user.role === 'owner') {
+      this.knocks.get(roomId)?.forEach((request) => {
+        socket.emit('knock-request', this.knockPayload(request));
+      });
+      socket.emit('bans-update', this.bansPayload(room));
+    }
+    return true;
   }
 
   leaveRoom(roomId: string, socketId: string): void {
@@ -69,6 +326,12 @@ class SocketManager {
     room.users.delete(socketId);
     this.broadcastUsers(roomId);
 
+    // Nobody left to keep editing — don't wait for the debounce
+    if (room.users.size === 0) {
+      void this.flushRoom(roomId);
+      void this.recorder.stop(roomId);
+    }
+
     // Keep room alive for reconnection; don't delete when empty
     // if (room.users.size === 0) {
     //   console.log(`🗑️  Deleting empty room: ${roomId}`);
@@ -76,29 +339,1248 @@ class SocketManager {
     // }
   }
 
-  public updateCode(roomId: string, code: string, userId: string, senderSocketId: string) {
+  // The room is being deleted: everyone in it (or knocking) is sent away, its
+  // jobs are cancelled and nothing of it stays in memory to be saved back.
+  // Settles once its recording has been written, so that can be deleted too.
+  async closeRoom(roomId: string, reason: string): Promise<void> {
+    this.knocks.get(roomId)?.forEach((request) => request.socket.emit('join-error', reason));
+    this.knocks.delete(roomId);
+
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+    this.rooms.delete(roomId);
+    [this.saveTimers, this.previewTimers].forEach((timers) => {
+      clearTimeout(timers.get(roomId));
+      timers.delete(roomId);
+    });
+
+    this.runQueue.jobsFor(roomId).forEach((job) => this.runQueue.cancel(job.jobId, 'the owner'));
+    this.sql.close(roomId);
+
+    room.users.forEach((user) => {
+      const userSocket = this.io.sockets.sockets.get(user.socketId);
+      if (!userSocket) return;
+      userSocket.leave(roomId);
+      userSocket.leave(`${roomId}-call`);
+      userSocket.emit('kicked', reason);
+    });
+
+    await this.recorder.stop(roomId);
+    console.log(`🗑️  Closed room ${roomId}`);
+  }
+
+  public applyOperation(
+    roomId: string,
+    socket: Socket,
+    fileId: string,
+    revision: number,
+    operation: unknown
+  ) {
     const room = this.getRoom(roomId);
-    if (room) {
-        // Find the user by the ID of the socket that sent the message
-        const user = Array.from(room.users.values()).find(u => u.socketId === senderSocketId); // <-- FIXED
-        if (user) {
-            room.code = code;
-            // Broadcast the change to everyone in the room
-            this.io.to(roomId).emit('code-update', { roomId, code, userId: user.socketId });
+    const user = room?.users.get(socket.id);
+    if (!room || !user) {
+      // Usually a socket that reconnected and hasn't rejoined yet; its edit is
+      // dropped, and rejoining hands it a fresh snapshot
+      socket.emit('rejoin-required', { roomId });
+      return;
+    }
+
+    if (!this.requireEditAccess(socket, room, user)) {
+      // Undo whatever the client applied locally
+      this.sendSnapshot(socket, room, fileId);
+      return;
+    }
+
+    const file = room.files.get(fileId);
+    if (!file?.document) {
+      // File was deleted under the client's feet
+      this.sendSnapshot(socket, room, user.activeFileId);
+      return;
+    }
+
+    try {
+      const op = TextOperation.fromJSON(operation);
+      const elsewhere = this.contentLength(room) - file.document.content.length;
+      const applied = file.document.receiveOperation(revision, op, MAX_ROOM_CONTENT_LENGTH - elsewhere);
+      const newRevision = file.document.revision;
+
+      socket.emit('code-ack', { roomId, fileId, revision: newRevision });
+      this.markDirty(roomId);
+      this.recorder.record(roomId, { k: 'op', f: fileId, o: applied.toJSON(), u: user.userName });
+      // Only people looking at this file need the edit; others get a snapshot when they open it
+      room.users.forEach((other) => {
+        if (other.socketId !== socket.id && other.activeFileId === fileId) {
+          this.io.to(other.socketId).emit('code-operation', {
+            roomId,
+            fileId,
+            revision: newRevision,
+            operation: applied.toJSON(),
+            userId: socket.id
+          });
         }
+      });
+    } catch (err) {
+      if (err instanceof DocumentTooLargeError) {
+        socket.emit(
+          'file-error',
+          `The room's files can add up to at most ${MAX_ROOM_CONTENT_LENGTH / (1024 * 1024)}M characters`
+        );
+      } else if (!(err instanceof RevisionOutOfRangeError)) {
+        console.error(`❌ Rejected operation in ${roomId} from ${socket.id}:`, err);
+      }
+      // Client is out of sync — hand it the authoritative document again
+      this.sendSnapshot(socket, room, fileId);
     }
-}
+  }
+
+  // Characters across every file in the room
+  private contentLength(room: IRoom): number {
+    let length = 0;
+    room.files.forEach((file) => {
+      length += file.document?.content.length ?? 0;
+    });
+    return length;
+  }
+
+  private sendSnapshot(socket: Socket, room: IRoom, fileId: string | null | undefined): void {
+    const file = fileId ? room.files.get(fileId) : undefined;
+    if (!file?.document) {
+      socket.emit('code-update', { fileId: null, code: '', revision: 0 });
+      return;
+    }
+
+    socket.emit('code-update', {
+      fileId: file.id,
+      code: file.document.content,
+      revision: file.document.revision,
+      language: file.language
+    });
+  }
+
+  // ---------------- Workspace files ----------------
+
+  openFile(roomId: string, socket: Socket, fileId: string): void {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    if (!room || !user) return;
+
+    if (room.files.get(fileId)?.type !== 'file') {
+      socket.emit('file-error', 'File not found');
+      return;
+    }
+
+    user.activeFileId = fileId;
+    user.cursor = undefined;
+    this.sendSnapshot(socket, room, fileId);
+    this.broadcastUsers(roomId);
+  }
+
+  createFile(
+    roomId: string,
+    socket: Socket,
+    parentId: string | null,
+    name: unknown,
+    type: 'file' | 'folder'
+  ): void {
+    this.changeFiles(roomId, socket, (room) => {
+      const entry = createEntry(room.files, parentId, name, type);
+      // Whoever creates a file most likely wants to start typing in it
+      if (entry.type === 'file') this.openFile(roomId, socket, entry.id);
+    });
+  }
+
+  renameFile(roomId: string, socket: Socket, fileId: string, name: unknown): void {
+    this.changeFiles(roomId, socket, (room) => {
+      renameEntry(room.files, fileId, name);
+    });
+  }
+
+  moveFile(roomId: string, socket: Socket, fileId: string, parentId: string | null): void {
+    this.changeFiles(roomId, socket, (room) => {
+      moveEntry(room.files, fileId, parentId);
+    });
+  }
+
+  deleteFile(roomId: string, socket: Socket, fileId: string): void {
+    this.changeFiles(roomId, socket, (room) => {
+      const removed = new Set(deleteEntry(room.files, fileId));
+
+      // Anyone who had a deleted file open lands on another one
+      const fallback = firstFileId(room.files);
+      room.users.forEach((user) => {
+        if (user.activeFileId && removed.has(user.activeFileId)) {
+          user.activeFileId = fallback;
+          user.cursor = undefined;
+          const userSocket = this.io.sockets.sockets.get(user.socketId);
+          if (userSocket) this.sendSnapshot(userSocket, room, fallback);
+        }
+      });
+      this.broadcastUsers(roomId);
+    });
+  }
+
+  setFileLanguage(roomId: string, socket: Socket, fileId: string, language: string): void {
+    this.changeFiles(roomId, socket, (room) => {
+      const file = room.files.get(fileId);
+      if (file?.type !== 'file') throw new FileTreeError('File not found');
+      if (!getLanguage(language)) throw new FileTreeError(`Unknown language: ${language}`);
+      file.language = language;
+    });
+  }
+
+  // Runs a tree mutation, then tells everyone and schedules a save
+  private changeFiles(roomId: string, socket: Socket, mutate: (room: IRoom) => void): void {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    if (!room || !user || !this.requireEditAccess(socket, room, user)) return;
+
+    try {
+      mutate(room);
+    } catch (err) {
+      if (err instanceof FileTreeError) {
+        socket.emit('file-error', err.message);
+        return;
+      }
+      throw err;
+    }
+
+    this.io.to(roomId).emit('files-update', this.listFiles(room));
+    this.markDirty(roomId);
+    this.recorder.record(roomId, {
+      k: 'files',
+      u: room.users.get(socket.id)?.userName,
+      w: this.listFiles(room).map(({ id, ...meta }) => ({ fileId: id, ...meta }))
+    });
+  }
+
+  // Current contents of every file, in the shape stored in Mongo
+  getFiles(roomId: string): IRoomFile[] | undefined {
+    const room = this.getRoom(roomId);
+    return room ? this.serializeFiles(room) : undefined;
+  }
 
-  public updateLanguage(roomId: string, language: string, senderSocketId: string) {
+  // Swaps the whole workspace for `files` (restoring a revision) and resyncs everyone
+  restoreFiles(roomId: string, files: IRoomFile[]): void {
+    const room = this.getRoom(roomId);
+    if (!room) return;
+
+    const restored = new Map<string, WorkspaceFile>();
+    files.forEach((file) => {
+      if (file.type === 'folder') {
+        restored.set(file.fileId, { id: file.fileId, name: file.name, type: 'folder', parentId: file.parentId ?? null });
+        return;
+      }
+      // Reuse the live document so its revision keeps increasing; clients
+      // with edits in flight will be told to resync
+      const document = room.files.get(file.fileId)?.document ?? new CollabDocument();
+      document.reset(file.content || '');
+      restored.set(file.fileId, {
+        id: file.fileId,
+        name: file.name,
+        type: 'file',
+        parentId: file.parentId ?? null,
+        language: file.language,
+        document
+      });
+    });
+    room.files = restored;
+
+    this.io.to(roomId).emit('files-update', this.listFiles(room));
+    room.users.forEach((user) => {
+      if (!user.activeFileId || room.files.get(user.activeFileId)?.type !== 'file') {
+        user.activeFileId = firstFileId(room.files);
+      }
+      user.cursor = undefined;
+      const userSocket = this.io.sockets.sockets.get(user.socketId);
+      if (userSocket) this.sendSnapshot(userSocket, room, user.activeFileId);
+    });
+    this.broadcastUsers(roomId);
+    this.markDirty(roomId);
+    this.recorder.record(roomId, { k: 'reset', w: files });
+  }
+
+  listFiles(room: IRoom) {
+    return Array.from(room.files.values()).map((file) => ({
+      id: file.id,
+      name: file.name,
+      type: file.type,
+      parentId: file.parentId,
+      language: file.language
+    }));
+  }
+
+  // ---------------- Last run output ----------------
+
+  setLastRun(roomId: string, output: string, language: string): void {
+    const room = this.getRoom(roomId);
+    if (!room) return;
+
+    room.lastRun = { output, language };
+    this.io.to(roomId).emit('run-output', { output, language });
+    this.markDirty(roomId);
+    this.recorder.record(roomId, { k: 'run', x: output, l: language });
+  }
+
+  // ---------------- Live runs ----------------
+
+  // Queues the file the user has open, with the room's run input; once it
+  // gets a slot, the output streams to everyone in the room
+  startRun(roomId: string, socket: Socket): void {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    if (!room || !user || !this.requireEditAccess(socket, room, user)) return;
+
+    const file = user.activeFileId ? room.files.get(user.activeFileId) : undefined;
+    if (file?.type !== 'file' || !file.document) {
+      socket.emit('run-error', 'Open a file to run it');
+      return;
+    }
+    const code = file.document.content;
+    const language = file.language ?? 'plaintext';
+    if (!code.trim()) {
+      socket.emit('run-error', 'Nothing to run');
+      return;
+    }
+    if (getLanguage(language)?.runner === 'sql') {
+      this.queueSqlRun(roomId, socket, user, code, file.name);
+      return;
+    }
+    if (!getExecutor().supportsLanguage(language)) {
+      socket.emit('run-error', `Running ${language} is not supported`);
+      return;
+    }
+
+    // The whole workspace goes along, so the file can use the others
+    let bundle;
+    try {
+      bundle = parseSourceBundle(sourceFiles(room.files), pathOf(room.files, file.id));
+    } catch (err) {
+      if (err instanceof RunInputError) {
+        socket.emit('run-error', err.message);
+        return;
+      }
+      throw err;
+    }
+
+    this.queueRun(roomId, socket, user, {
+      code,
+      language,
+      fileName: file.name,
+      ...bundle,
+      runInput: {
+        ...room.runInput,
+        args: [...room.runInput.args],
+        env: { ...room.runInput.env },
+        limits: { ...room.runInput.limits },
+        commands: { ...room.runInput.commands }
+      }
+    });
+  }
+
+  // Runs a past run's exact code and input again, whatever the file says now
+  async rerun(roomId: string, socket: Socket, runId: string): Promise<void> {
+    const record = await RunRecord.findOne({ roomId, runId });
+    // Looked up first, so check access afterwards in case they left meanwhile
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    if (!room || !user || !this.requireEditAccess(socket, room, user)) return;
+
+    if (!record) {
+      socket.emit('run-error', 'That run is no longer in the history');
+      return;
+    }
+    if (getLanguage(record.language)?.runner === 'sql') {
+      this.queueSqlRun(roomId, socket, user, record.code, record.fileName);
+      return;
+    }
+    if (!getExecutor().supportsLanguage(record.language)) {
+      socket.emit('run-error', `Running ${record.language} is not supported`);
+      return;
+    }
+    this.queueRun(roomId, socket, user, {
+      code: record.code,
+      language: record.language,
+      fileName: record.fileName,
+      files: record.files?.length ? record.files.map(({ path, content }) => ({ path, content })) : undefined,
+      entry: record.entry ?? undefined,
+      runInput: {
+        stdin: record.stdin,
+        args: [...record.args],
+        env: Object.fromEntries(record.env ?? []),
+        limits: storedRunLimits(record.limits),
+        commands: record.commands ? { [record.language]: record.commands } : {}
+      }
+    });
+  }
+
+  private queueRun(roomId: string, socket: Socket, user: User, source: RunSource): void {
+    this.enqueueRoomJob(socket, {
+      kind: 'run',
+      queueKey: roomId,
+      roomId,
+      userId: user.userId,
+      userName: user.userName,
+      // A compile, then a run that may sit waiting for someone to type
+      timeoutMs: executorConfig.docker.timeoutMs + executorConfig.docker.interactiveTimeoutMs,
+      task: (signal, job) => this.beginRun(roomId, job, source, signal)
+    });
+  }
+
+  // Queue errors (already queued, queue full) go back to whoever asked, and
+  // so does a task that fails once it's running
+  private enqueueRoomJob<T>(socket: Socket, spec: RunJobSpec<T>): void {
+    try {
+      this.runQueue.enqueue(spec).finished.catch((err) => {
+        console.error(`❌ ${spec.kind} job in ${spec.queueKey} failed:`, err);
+        socket.emit('run-error', 'The run failed on the server');
+      });
+    } catch (err) {
+      if (err instanceof RunQueueError) {
+        socket.emit('run-error', err.message);
+        return;
+      }
+      throw err;
+    }
+  }
+
+  // Someone typed into the running program
+  writeRunInput(roomId: string, socket: Socket, data: string): void {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    const run = this.runs.get(roomId);
+    if (!room || !user || !run || !this.requireEditAccess(socket, room, user)) return;
+
+    const chunk = data.slice(0, MAX_STDIN_CHUNK_LENGTH);
+    run.process.write(chunk);
+    this.appendTranscript(run, 'stdin', chunk);
+    // The typist already echoed it locally
+    socket.to(roomId).emit('run-data', { runId: run.runId, stream: 'stdin', data: chunk });
+  }
+
+  // Any editor can stop the live run, whoever started it
+  stopRun(roomId: string, socket: Socket): void {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    const run = this.runs.get(roomId);
+    if (!room || !user || !run || !this.requireEditAccess(socket, room, user)) return;
+
+    this.runQueue.cancel(run.runId, user.userName);
+  }
+
+  // Takes a job out of the room's queue, or stops it if it has started.
+  // People can cancel their own jobs; the owner can cancel anyone's.
+  cancelRunJob(roomId: string, socket: Socket, jobId: string): void {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    const job = this.runQueue.get(jobId);
+    if (!room || !user || job?.roomId !== roomId) return;
+    if (job.userId !== user.userId && !this.requireRole(socket, user, 'owner')) return;
+
+    this.runQueue.cancel(jobId, user.userName);
+  }
+
+  // REST runs (test runs, /api/run) wait in the same queue as live runs
+  queueJob<T>(spec: RunJobSpec<T>) {
+    return this.runQueue.enqueue(spec);
+  }
+
+  cancelJob(jobId: string, cancelledBy: string): RunJob | null {
+    return this.runQueue.cancel(jobId, cancelledBy);
+  }
+
+  stopAllRuns(): void {
+    this.runQueue.cancelAll('the server');
+    this.sql.closeAll();
+  }
+
+  // Starts a live run once the queue gives it a slot; settles when it's over
+  private beginRun(roomId: string, job: RunJob, source: RunSource, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const runId = job.jobId;
+      const output = (stream: RunStream) => (data: string) => {
+        const current = this.runs.get(roomId);
+        if (current?.runId !== runId) return;
+        this.appendTranscript(current, stream, data);
+        this.io.to(roomId).emit('run-data', { runId, stream, data });
+      };
+
+      const running = startExecution(
+        getExecutor(),
+        executionRequest(source.language, source.code, source.runInput, {
+          files: source.files,
+          entry: source.entry
+        }),
+        { onStdout: output('stdout'), onStderr: output('stderr'), onCompileOutput: output('compile') }
+      );
+      const run: LiveRun = {
+        runId,
+        source,
+        startedBy: job.userName,
+        startedAt: Date.now(),
+        process: running,
+        transcript: [],
+        transcriptLength: 0,
+        onFinish: resolve
+      };
+      this.runs.set(roomId, run);
+      this.io.to(roomId).emit('run-started', this.runPayload(run));
+
+      // Stopped or out of time: don't wait for the backend to notice;
+      // whatever it reports later is ignored
+      signal.addEventListener('abort', () => {
+        if (job.status === 'timed-out') run.timedOut = true;
+        else run.stoppedBy = job.cancelledBy ?? job.userName;
+        running.kill();
+        this.finishRun(roomId, runId, null);
+      });
+
+      running.done.then(
+        (result) => this.finishRun(roomId, runId, result),
+        (err) => {
+          output('stderr')(`\n${err instanceof Error ? err.message : 'Run failed'}\n`);
+          this.finishRun(roomId, runId, null);
+        }
+      );
+    });
+  }
+
+  private finishRun(roomId: string, runId: string, result: ExecutionResult | null): void {
+    const run = this.runs.get(roomId);
+    if (run?.runId !== runId) return;
+    this.runs.delete(roomId);
+
+    const { source } = run;
+    const output = run.transcript.map((chunk) => chunk.data).join('');
     const room = this.getRoom(roomId);
     if (room) {
-        const user = Array.from(room.users.values()).find(u => u.socketId === senderSocketId); // <-- FIXED
-        if (user) {
-            room.language = language;
-            this.io.to(roomId).emit('language-update', language);
+      room.lastRun = { output, language: source.language };
+      this.markDirty(roomId);
+    }
+    this.recorder.record(roomId, { k: 'run', x: output, l: source.language });
+
+    let status = result?.status ?? { ...ExecutionStatus.INTERNAL_ERROR };
+    if (run.timedOut) status = { ...ExecutionStatus.TIME_LIMIT_EXCEEDED };
+    const exit = {
+      runId,
+      status: run.stoppedBy ? null : status,
+      time: result?.time ?? (Date.now() - run.startedAt) / 1000,
+      // Peak kilobytes, if the backend measures it
+      memory: result?.memory ?? null,
+      exitCode: run.stoppedBy || run.timedOut ? null : (result?.exit_code ?? null),
+      stoppedBy: run.stoppedBy ?? null
+    };
+    this.io.to(roomId).emit('run-exit', exit);
+    run.onFinish();
+
+    const printed = (stream: RunStream) =>
+      run.transcript
+        .filter((chunk) => chunk.stream === stream)
+        .map((chunk) => chunk.data)
+        .join('');
+    recordRun(roomId, {
+      ...source,
+      ...exit,
+      typedInput: printed('stdin'),
+      stdout: printed('stdout'),
+      stderr: printed('stderr'),
+      compileOutput: printed('compile') || null,
+      startedBy: run.startedBy,
+      startedAt: run.startedAt
+    })
+      .then(() => this.io.to(roomId).emit('run-history-update'))
+      .catch((err) => console.error(`❌ Failed to record run in ${roomId}:`, err));
+  }
+
+  // The room sees its whole queue after every change, plus the job that
+  // changed, so people hear when theirs is cancelled or times out
+  private runJobChanged(job: RunJob): void {
+    if (!job.roomId) return;
+    this.io.to(job.roomId).emit('run-job', this.jobPayload(job));
+    this.io
+      .to(job.roomId)
+      .emit('run-queue', this.runQueue.jobsFor(job.roomId).map((queued) => this.jobPayload(queued)));
+  }
+
+  private jobPayload(job: RunJob) {
+    return {
+      jobId: job.jobId,
+      kind: job.kind,
+      userId: job.userId,
+      userName: job.userName,
+      status: job.status,
+      position: job.position,
+      queuedAt: new Date(job.queuedAt).toISOString(),
+      startedAt: job.startedAt ? new Date(job.startedAt).toISOString() : null,
+      cancelledBy: job.cancelledBy
+    };
+  }
+
+  // Oldest output goes first once the transcript gets too long
+  private appendTranscript(run: LiveRun, stream: RunStream, data: string): void {
+    run.transcript.push({ stream, data });
+    run.transcriptLength += data.length;
+    while (run.transcriptLength > MAX_TRANSCRIPT_LENGTH && run.transcript.length > 1) {
+      run.transcriptLength -= run.transcript.shift()!.data.length;
+    }
+  }
+
+  private runPayload(run: LiveRun) {
+    return {
+      runId: run.runId,
+      language: run.source.language,
+      fileName: run.source.fileName,
+      // Path of the file that ran, for placing compile errors
+      entry: run.source.entry ?? run.source.fileName,
+      startedBy: run.startedBy,
+      startedAt: new Date(run.startedAt).toISOString()
+    };
+  }
+
+  setTestResults(roomId: string, summary: TestRunSummary): void {
+    const room = this.getRoom(roomId);
+    if (room) room.lastTestRun = summary;
+    this.io.to(roomId).emit('test-results', summary);
+  }
+
+  // Stdin, args and env are part of the room, so a re-run uses the same inputs
+  setRunInput(roomId: string, socket: Socket, value: unknown): void {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    if (!room || !user || !this.requireEditAccess(socket, room, user)) return;
+
+    try {
+      room.runInput = parseRunInput(value);
+    } catch (err) {
+      if (err instanceof RunInputError) {
+        socket.emit('run-input-error', err.message);
+        return;
+      }
+      throw err;
+    }
+    socket.to(roomId).emit('run-input', room.runInput);
+    this.markDirty(roomId);
+  }
+
+  // ---------------- SQL rooms ----------------
+
+  // SQL goes to the room's own SQLite database rather than an executor, but
+  // waits in the same queue as every other run
+  private queueSqlRun(roomId: string, socket: Socket, user: User, code: string, fileName: string): void {
+    this.enqueueRoomJob(socket, {
+      kind: 'run',
+      queueKey: roomId,
+      roomId,
+      userId: user.userId,
+      userName: user.userName,
+      task: async (signal, job) => {
+        const room = this.getRoom(roomId);
+        if (!room) return;
+        const startedAt = Date.now();
+        const result = await this.sql.run(roomId, room.sqlSeed, code);
+        // Cancelled or timed out while the query ran
+        if (signal.aborted) return;
+
+        const output = formatSqlResult(result);
+        room.lastSqlResult = { ...result, runId: job.jobId, ranBy: job.userName };
+        room.lastRun = { output, language: 'sql' };
+        this.markDirty(roomId);
+        this.io.to(roomId).emit('sql-result', room.lastSqlResult);
+        this.recorder.record(roomId, { k: 'run', x: output, l: 'sql' });
+
+        recordRun(roomId, {
+          runId: job.jobId,
+          fileName,
+          language: 'sql',
+          code,
+          runInput: emptyRunInput(),
+          typedInput: '',
+          stdout: result.statements.length ? formatSqlResult({ ...result, error: null }) : '',
+          stderr: result.error ?? '',
+          compileOutput: null,
+          status: result.error
+            ? { id: ExecutionStatus.RUNTIME_ERROR.id, description: 'SQL Error' }
+            : { ...ExecutionStatus.ACCEPTED },
+          time: result.time,
+          memory: null,
+          exitCode: null,
+          startedBy: job.userName,
+          stoppedBy: null,
+          startedAt
+        })
+          .then(() => this.io.to(roomId).emit('run-history-update'))
+          .catch((err) => console.error(`❌ Failed to record run in ${roomId}:`, err));
+      }
+    });
+  }
+
+  // The owner's schema/seed script; it takes effect on the next reset
+  setSqlSeed(roomId: string, socket: Socket, seed: unknown): void {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    if (!room || !user || !this.requireRole(socket, user, 'owner')) return;
+
+    if (typeof seed !== 'string' || seed.length > MAX_SQL_SEED_LENGTH) {
+      socket.emit('run-error', `The seed script can be at most ${MAX_SQL_SEED_LENGTH / 1024} KB`);
+      return;
+    }
+    room.sqlSeed = seed;
+    this.io.to(roomId).emit('sql-seed', seed);
+    this.markDirty(roomId);
+  }
+
+  // Throws away the room's changes to its database and runs the seed again
+  async resetSqlDatabase(roomId: string, socket: Socket): Promise<void> {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    if (!room || !user || !this.requireEditAccess(socket, room, user)) return;
+
+    const error = await this.sql.reset(roomId, room.sqlSeed);
+    if (error) {
+      socket.emit('run-error', `The seed script failed: ${error}`);
+      return;
+    }
+    room.lastSqlResult = undefined;
+    this.io.to(roomId).emit('sql-reset', { resetBy: user.userName });
+  }
+
+  // ---------------- Web preview ----------------
+
+  // Opens (or, with null, closes) the room's preview of an HTML file; it's
+  // shared, so everyone sees the same page
+  setPreview(roomId: string, socket: Socket, fileId: string | null): void {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    if (!room || !user || !this.requireRole(socket, user, 'editor')) return;
+
+    if (fileId !== null && !isPreviewable(room.files.get(fileId))) {
+      socket.emit('run-error', 'Only HTML files can be previewed');
+      return;
+    }
+    room.previewFileId = fileId ?? undefined;
+    this.sendPreview(roomId);
+  }
+
+  // Called on every content change; rebuilds the preview once edits settle
+  private schedulePreview(roomId: string): void {
+    if (!this.getRoom(roomId)?.previewFileId) return;
+    clearTimeout(this.previewTimers.get(roomId));
+    this.previewTimers.set(
+      roomId,
+      setTimeout(() => this.sendPreview(roomId), PREVIEW_DEBOUNCE_MS)
+    );
+  }
+
+  private sendPreview(roomId: string): void {
+    clearTimeout(this.previewTimers.get(roomId));
+    this.previewTimers.delete(roomId);
+    const room = this.getRoom(roomId);
+    if (room) this.io.to(roomId).emit('preview-update', this.previewPayload(room));
+  }
+
+  // null once the preview is closed or its file has been deleted
+  private previewPayload(room: IRoom) {
+    const fileId = room.previewFileId;
+    const html = fileId ? buildPreview(room.files, fileId) : null;
+    if (!fileId || html === null) {
+      room.previewFileId = undefined;
+      return null;
+    }
+    return { fileId, path: pathOf(room.files, fileId), html };
+  }
+
+  // ---------------- Roles ----------------
+
+  hasRole(roomId: string, socketId: string, required: RoomRole): boolean {
+    return hasRole(this.getRoom(roomId)?.users.get(socketId)?.role, required);
+  }
+
+  // Tells the client why nothing happened
+  private requireRole(socket: Socket, user: User, required: RoomRole): boolean {
+    if (hasRole(user.role, required)) return true;
+    socket.emit('permission-error', `You need ${required} access to do that`);
+    return false;
+  }
+
+  // Editing needs the editor role and not being muted from editing
+  private requireEditAccess(socket: Socket, room: IRoom, user: User): boolean {
+    if (!this.requireRole(socket, user, 'editor')) return false;
+    if (room.mutes.get(user.userId)?.edit) {
+      socket.emit('permission-error', 'You have been muted from editing');
+      return false;
+    }
+    return true;
+  }
+
+  canEdit(roomId: string, socketId: string): boolean {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socketId);
+    return !!room && !!user && hasRole(user.role, 'editor') && !room.mutes.get(user.userId)?.edit;
+  }
+
+  // Only people in the room who aren't muted can chat
+  canChat(roomId: string, socket: Socket): boolean {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    if (!room || !user) return false;
+    if (room.mutes.get(user.userId)?.chat) {
+      socket.emit('permission-error', 'You have been muted in chat');
+      return false;
+    }
+    return true;
+  }
+
+  // Owner only: give someone (by account id) editor or viewer access, live
+  setMemberRole(roomId: string, socket: Socket, userId: string, role: unknown): void {
+    const room = this.getRoom(roomId);
+    const owner = room?.users.get(socket.id);
+    if (!room || !owner || !this.requireRole(socket, owner, 'owner')) return;
+
+    if (!isAssignableRole(role)) {
+      socket.emit('permission-error', 'Invalid role');
+      return;
+    }
+    if (userId === room.ownerId) {
+      socket.emit('permission-error', "The owner's role can't be changed");
+      return;
+    }
+
+    const targets = Array.from(room.users.values()).filter((u) => u.userId === userId);
+    const userName = targets[0]?.userName ?? room.members.get(userId)?.userName;
+    if (!userName) {
+      socket.emit('permission-error', 'User not found');
+      return;
+    }
+
+    room.members.set(userId, { userName, role });
+    targets.forEach((target) => {
+      target.role = role;
+    });
+    this.broadcastUsers(roomId);
+    this.markDirty(roomId);
+  }
+
+  // Owner only: the role everyone without an explicit one gets, e.g. 'viewer'
+  // for a workshop where only the instructor types
+  setDefaultRole(roomId: string, socket: Socket, role: unknown): void {
+    const room = this.getRoom(roomId);
+    const owner = room?.users.get(socket.id);
+    if (!room || !owner || !this.requireRole(socket, owner, 'owner')) return;
+
+    if (!isAssignableRole(role)) {
+      socket.emit('permission-error', 'Invalid role');
+      return;
+    }
+
+    room.defaultRole = role;
+    room.users.forEach((user) => {
+      user.role = resolveRole(room, user) ?? user.role;
+    });
+    this.io.to(roomId).emit('room-access', this.accessPayload(room));
+    this.broadcastUsers(roomId);
+    this.markDirty(roomId);
+  }
+
+  // Someone joined through an invite: they're a member from now on
+  addMember(roomId: string, userId: string, userName: string, role: AssignableRole): void {
+    const room = this.getRoom(roomId);
+    if (!room || room.ownerId === userId || room.members.has(userId)) return;
+    room.members.set(userId, { userName, role });
+    this.markDirty(roomId);
+  }
+
+  // Password / knock-to-join changed through the REST API
+  setAccess(roomId: string, access: { passwordHash?: string | null; knockToJoin?: boolean }): void {
+    const room = this.getRoom(roomId);
+    if (!room) return;
+
+    if (access.passwordHash !== undefined) room.passwordHash = access.passwordHash;
+    if (access.knockToJoin !== undefined) room.knockToJoin = access.knockToJoin;
+
+    // Turning knocking off lets everyone who was waiting in
+    if (!room.knockToJoin) {
+      Array.from(this.knocks.get(roomId)?.keys() ?? []).forEach((socketId) => {
+        void this.resolveKnock(roomId, socketId, true);
+      });
+    }
+  }
+
+  private accessPayload(room: IRoom) {
+    return { ownerId: room.ownerId, defaultRole: room.defaultRole, locked: room.locked };
+  }
+
+  // ---------------- Moderation (owner only) ----------------
+
+  kickUser(roomId: string, socket: Socket, userId: string): void {
+    const target = this.moderationTarget(roomId, socket, userId);
+    if (!target) return;
+    const { room, owner, userName } = target;
+
+    this.removeFromRoom(roomId, room, userId, 'You were removed from the room by the owner');
+    this.systemMessage(roomId, `${userName} was removed from the room by ${owner.userName}`);
+  }
+
+  // Banned for as long as the room exists, by account and by browser
+  banUser(roomId: string, socket: Socket, userId: string): void {
+    const target = this.moderationTarget(roomId, socket, userId);
+    if (!target) return;
+    const { room, owner, userName } = target;
+
+    const fingerprint =
+      Array.from(room.users.values()).find((u) => u.userId === userId && u.fingerprint)?.fingerprint ?? null;
+    room.bans = room.bans.filter((ban) => ban.userId !== userId);
+    room.bans.push({ userId, userName, fingerprint, bannedBy: owner.userName, bannedAt: new Date() });
+    room.members.delete(userId);
+
+    this.removeFromRoom(roomId, room, userId, 'You have been banned from this room');
+    this.systemMessage(roomId, `${userName} was banned by ${owner.userName}`);
+    this.emitToOwners(roomId, 'bans-update', this.bansPayload(room));
+    this.markDirty(roomId);
+  }
+
+  unbanUser(roomId: string, socket: Socket, userId: string): void {
+    const room = this.getRoom(roomId);
+    const owner = room?.users.get(socket.id);
+    if (!room || !owner || !this.requireRole(socket, owner, 'owner')) return;
+
+    const ban = room.bans.find((b) => b.userId === userId);
+    if (!ban) return;
+    room.bans = room.bans.filter((b) => b !== ban);
+
+    this.systemMessage(roomId, `${ban.userName} was unbanned by ${owner.userName}`);
+    this.emitToOwners(roomId, 'bans-update', this.bansPayload(room));
+    this.markDirty(roomId);
+  }
+
+  muteUser(roomId: string, socket: Socket, userId: string, mute: Partial<MuteState>): void {
+    const target = this.moderationTarget(roomId, socket, userId);
+    if (!target) return;
+    const { room, owner, userName } = target;
+
+    const before = room.mutes.get(userId) ?? NOT_MUTED;
+    const after: MuteState = {
+      chat: typeof mute.chat === 'boolean' ? mute.chat : before.chat,
+      edit: typeof mute.edit === 'boolean' ? mute.edit : before.edit
+    };
+    if (after.chat || after.edit) room.mutes.set(userId, after);
+    else room.mutes.delete(userId);
+
+    const changes: string[] = [];
+    if (after.chat !== before.chat) changes.push(after.chat ? 'muted in chat' : 'unmuted in chat');
+    if (after.edit !== before.edit) changes.push(after.edit ? 'muted from editing' : 'allowed to edit again');
+    if (!changes.length) return;
+
+    this.broadcastUsers(roomId);
+    this.systemMessage(roomId, `${userName} was ${changes.join(' and ')} by ${owner.userName}`);
+    this.markDirty(roomId);
+  }
+
+  setLocked(roomId: string, socket: Socket, locked: boolean): void {
+    const room = this.getRoom(roomId);
+    const owner = room?.users.get(socket.id);
+    if (!room || !owner || !this.requireRole(socket, owner, 'owner')) return;
+    if (room.locked === locked) return;
+
+    room.locked = locked;
+    // Nobody waiting in the knock queue is getting in now
+    if (locked) {
+      Array.from(this.knocks.get(roomId)?.keys() ?? []).forEach((socketId) => {
+        void this.resolveKnock(roomId, socketId, false);
+      });
+    }
+
+    this.io.to(roomId).emit('room-access', this.accessPayload(room));
+    this.systemMessage(
+      roomId,
+      locked ? `${owner.userName} locked the room` : `${owner.userName} unlocked the room`
+    );
+    this.markDirty(roomId);
+  }
+
+  // Owner acting on someone else who is in the room or a known member
+  private moderationTarget(roomId: string, socket: Socket, userId: string) {
+    const room = this.getRoom(roomId);
+    const owner = room?.users.get(socket.id);
+    if (!room || !owner || !this.requireRole(socket, owner, 'owner')) return null;
+
+    if (userId === room.ownerId || userId === owner.userId) {
+      socket.emit('permission-error', "You can't do that to the room owner");
+      return null;
+    }
+    const userName =
+      Array.from(room.users.values()).find((u) => u.userId === userId)?.userName ??
+      room.members.get(userId)?.userName;
+    if (!userName) {
+      socket.emit('permission-error', 'User not found');
+      return null;
+    }
+    return { room, owner, userName };
+  }
+
+  // Every tab the user has open in the room is taken out of it
+  private removeFromRoom(roomId: string, room: IRoom, userId: string, reason: string): void {
+    Array.from(room.users.values())
+      .filter((u) => u.userId === userId)
+      .forEach((user) => {
+        this.leaveRoom(roomId, user.socketId);
+        const userSocket = this.io.sockets.sockets.get(user.socketId);
+        if (!userSocket) return;
+        userSocket.leave(roomId);
+        userSocket.leave(`${roomId}-call`);
+        this.io.to(`${roomId}-call`).emit('user-left-call', user.socketId);
+        userSocket.emit('kicked', reason);
+      });
+  }
+
+  private systemMessage(roomId: string, message: string): void {
+    this.broadcastMessage(roomId, {
+      id: uuidv4(),
+      message,
+      userName: 'System',
+      timestamp: new Date(),
+      userId: 'system',
+      system: true
+    });
+  }
+
+  private bansPayload(room: IRoom) {
+    return room.bans.map((ban) => ({
+      userId: ban.userId,
+      userName: ban.userName,
+      bannedBy: ban.bannedBy,
+      bannedAt: ban.bannedAt.toISOString()
+    }));
+  }
+
+  // ---------------- Waiting room (knock to join) ----------------
+
+  knock(roomId: string, socket: Socket, identity: Identity, avatar?: string): void {
+    const room = this.getRoom(roomId);
+    if (!room) return;
+
+    const owners = Array.from(room.users.values()).filter((u) => u.role === 'owner');
+    if (!owners.length) {
+      socket.emit('join-error', "The room owner isn't here to let you in. Try again later.");
+      return;
+    }
+
+    const request: KnockRequest = { socket, identity, avatar, requestedAt: new Date() };
+    if (!this.knocks.has(roomId)) this.knocks.set(roomId, new Map());
+    this.knocks.get(roomId)!.set(socket.id, request);
+
+    socket.emit('knock-pending');
+    owners.forEach((owner) => {
+      this.io.to(owner.socketId).emit('knock-request', this.knockPayload(request));
+    });
+  }
+
+  // Owner's answer to a knock
+  answerKnock(roomId: string, ownerSocket: Socket, socketId: string, admit: boolean): void {
+    const owner = this.getRoom(roomId)?.users.get(ownerSocket.id);
+    if (!owner || !this.requireRole(ownerSocket, owner, 'owner')) return;
+    void this.resolveKnock(roomId, socketId, admit);
+  }
+
+  // The person knocking gave up or went away
+  cancelKnocks(socketId: string): void {
+    this.knocks.forEach((requests, roomId) => {
+      if (!requests.delete(socketId)) return;
+      this.emitToOwners(roomId, 'knock-resolved', { socketId });
+    });
+  }
+
+  private async resolveKnock(roomId: string, socketId: string, admit: boolean): Promise<void> {
+    const request = this.knocks.get(roomId)?.get(socketId);
+    if (!request) return;
+    this.knocks.get(roomId)!.delete(socketId);
+    this.emitToOwners(roomId, 'knock-resolved', { socketId });
+
+    if (!admit) {
+      request.socket.emit('join-error', 'The owner declined your request to join');
+      return;
+    }
+    if (await this.joinRoom(roomId, request.socket, request.identity, request.avatar)) {
+      request.socket.emit('join-success');
+    }
+  }
+
+  private knockPayload(request: KnockRequest) {
+    return {
+      socketId: request.socket.id,
+      userId: request.identity.userId,
+      userName: request.identity.userName,
+      guest: request.identity.guest,
+      avatar: request.avatar,
+      requestedAt: request.requestedAt.toISOString()
+    };
+  }
+
+  private emitToOwners(roomId: string, event: string, payload: unknown): void {
+    this.getRoom(roomId)?.users.forEach((user) => {
+      if (user.role === 'owner') this.io.to(user.socketId).emit(event, payload);
+    });
+  }
+
+  // ---------------- Persistence ----------------
+
+  markDirty(roomId: string): void {
+    const room = this.getRoom(roomId);
+    if (!room) return;
+    this.schedulePreview(roomId);
+
+    if (!room.dirty) {
+      room.dirty = true;
+      room.dirtySince = Date.now();
+      this.broadcastSaveStatus(roomId);
+    }
+
+    const existing = this.saveTimers.get(roomId);
+    if (existing) clearTimeout(existing);
+
+    const waited = Date.now() - (room.dirtySince ?? Date.now());
+    const delay = Math.max(0, Math.min(SAVE_DEBOUNCE_MS, SAVE_MAX_DELAY_MS - waited));
+    this.saveTimers.set(
+      roomId,
+      setTimeout(() => void this.flushRoom(roomId), delay)
+    );
+  }
+
+  // Writes the in-memory room back to its Mongo document if anything changed
+  async flushRoom(roomId: string): Promise<void> {
+    const room = this.getRoom(roomId);
+    if (!room) return;
+
+    const timer = this.saveTimers.get(roomId);
+    if (timer) {
+      clearTimeout(timer);
+      this.saveTimers.delete(roomId);
+    }
+
+    const inFlight = this.saves.get(roomId);
+    if (inFlight) {
+      // Let the running write land, then save whatever changed meanwhile
+      await inFlight;
+      return this.flushRoom(roomId);
+    }
+    if (!room.dirty) return;
+
+    const save = this.writeRoom(roomId, room).finally(() => this.saves.delete(roomId));
+    this.saves.set(roomId, save);
+    await save;
+  }
+
+  private async writeRoom(roomId: string, room: IRoom): Promise<void> {
+    // Anything that changes from here on marks the room dirty again
+    room.dirty = false;
+    room.dirtySince = undefined;
+    room.saving = true;
+    this.broadcastSaveStatus(roomId);
+
+    try {
+      const savedAt = new Date();
+      const files = this.serializeFiles(room);
+      await RoomModel.updateOne(
+        { roomId },
+        {
+          files,
+          lastRun: room.lastRun ?? { output: '', language: '' },
+          runInput: room.runInput,
+          sqlSeed: room.sqlSeed,
+          ownerId: room.ownerId,
+          members: Array.from(room.members, ([userId, member]) => ({ userId, ...member })),
+          defaultRole: room.defaultRole,
+          bans: room.bans,
+          mutes: Array.from(room.mutes, ([userId, mute]) => ({ userId, ...mute })),
+          locked: room.locked,
+          lastModified: savedAt
         }
+      );
+      room.lastSavedAt = savedAt;
+      console.log(`💾 Saved room ${roomId}`);
+
+      if (!room.lastAutoSnapshotAt || savedAt.getTime() - room.lastAutoSnapshotAt >= AUTO_SNAPSHOT_INTERVAL_MS) {
+        room.lastAutoSnapshotAt = savedAt.getTime();
+        createRevision(roomId, files, 'auto').catch((err) =>
+          console.error(`❌ Failed to snapshot room ${roomId}:`, err)
+        );
+      }
+    } catch (err) {
+      console.error(`❌ Failed to save room ${roomId}:`, err);
+      room.saving = false;
+      this.markDirty(roomId);
+      return;
     }
-}
+
+    room.saving = false;
+    // Edits made while we were writing need another round
+    if (room.dirty) this.markDirty(roomId);
+    this.broadcastSaveStatus(roomId);
+  }
+
+  async stopAllRecordings(): Promise<void> {
+    await this.recorder.stopAll();
+  }
+
+  async flushAllRooms(): Promise<void> {
+    const dirty = Array.from(this.rooms.entries())
+      .filter(([roomId, room]) => room.dirty || this.saves.has(roomId))
+      .map(([roomId]) => roomId);
+    console.log(`💾 Flushing ${dirty.length} unsaved room(s)`);
+    await Promise.all(dirty.map((roomId) => this.flushRoom(roomId)));
+  }
+
+  private saveStatusPayload(room: IRoom): { status: SaveStatus; savedAt: string | null } {
+    return {
+      status: room.saving ? 'saving' : room.dirty ? 'unsaved' : 'saved',
+      savedAt: room.lastSavedAt ? room.lastSavedAt.toISOString() : null
+    };
+  }
+
+  private broadcastSaveStatus(roomId: string): void {
+    const room = this.getRoom(roomId);
+    if (!room) return;
+    this.io.to(roomId).emit('save-status', this.saveStatusPayload(room));
+  }
+
+  private serializeFiles(room: IRoom): IRoomFile[] {
+    return Array.from(room.files.values()).map((file) => ({
+      fileId: file.id,
+      name: file.name,
+      type: file.type,
+      parentId: file.parentId,
+      content: file.document?.content ?? '',
+      language: file.language ?? 'plaintext'
+    }));
+  }
+
+  private loadFiles(dbRoom: IRoomDocument): Map<string, WorkspaceFile> {
+    const files = new Map<string, WorkspaceFile>();
+
+    if (!dbRoom.files?.length) {
+      // Pre-workspace room: its single buffer becomes the first file
+      const language = dbRoom.language || 'javascript';
+      // A brand-new room gets the language's starter template
+      const entry = createEntry(files, null, defaultFileName(language), 'file', dbRoom.code || undefined);
+      entry.language = language;
+      return files;
+    }
+
+    dbRoom.files.forEach((file) => {
+      files.set(
+        file.fileId,
+        file.type === 'folder'
+          ? { id: file.fileId, name: file.name, type: 'folder', parentId: file.parentId ?? null }
+          : {
+              id: file.fileId,
+              name: file.name,
+              type: 'file',
+              parentId: file.parentId ?? null,
+              language: file.language,
+              document: new CollabDocument(file.content || '')
+            }
+      );
+    });
+    return files;
+  }
 
   broadcastUsers(roomId: string): void {
     const room = this.rooms.get(roomId);
@@ -106,9 +1588,14 @@ class SocketManager {
 
     const users = Array.from(room.users.values()).map(user => ({
       socketId: user.socketId,
+      userId: user.userId,
       userName: user.userName,
+      guest: user.guest,
+      role: user.role,
+      muted: room.mutes.get(user.userId) ?? NOT_MUTED,
       joinedAt: user.joinedAt,
       avatar: user.avatar,
+      activeFileId: user.activeFileId ?? null,
     }));
 
     console.log(`📢 Broadcasting users for ${roomId}: ${users.length} online`);
@@ -116,18 +1603,168 @@ class SocketManager {
   }
 
   broadcastMessage(roomId: string, message: ChatMessage): void {
-    this.io.to(roomId).emit('new-message', {
-      ...message,
-      timestamp: message.timestamp.toISOString()
+    this.recorder.record(roomId, { k: 'chat', u: message.userName, m: message.message });
+    this.io.to(roomId).emit('new-message', chatPayload(message));
+    saveChatMessage(roomId, message).catch((err) =>
+      console.error(`❌ Failed to save chat message in ${roomId}:`, err)
+    );
+  }
+
+  // ---------------- Chat ----------------
+
+  // Something typed by someone in the room, maybe answering an earlier message
+  async sendChatMessage(
+    roomId: string,
+    socket: Socket,
+    data: { message?: unknown; avatar?: unknown; replyTo?: unknown }
+  ): Promise<void> {
+    const user = this.getRoom(roomId)?.users.get(socket.id);
+    if (!user || !this.canChat(roomId, socket)) return;
+    const text = this.validChatText(socket, data.message);
+    if (text === null) return;
+
+    let replyTo;
+    if (data.replyTo !== undefined && data.replyTo !== null) {
+      const parent = typeof data.replyTo === 'string' ? await findChatMessage(roomId, data.replyTo) : null;
+      if (!parent) {
+        socket.emit('chat-error', 'The message you replied to is gone');
+        return;
+      }
+      replyTo = replyRef(parent);
+    }
+
+    socket.to(roomId).emit('chat-typing', { userId: user.userId, userName: user.userName, typing: false });
+    this.broadcastMessage(roomId, {
+      id: uuidv4(),
+      message: text,
+      userName: user.userName,
+      timestamp: new Date(),
+      userId: user.userId,
+      avatar: typeof data.avatar === 'string' ? data.avatar : user.avatar,
+      replyTo,
+      mentions: this.mentionsIn(roomId, socket, text)
     });
   }
 
-  broadcastCursorPosition(roomId: string, socketId: string, userName: string, position: CursorPosition): void {
-    this.io.to(roomId).emit('cursor-update', {
-      userId: socketId,
-      position,
-      userName
+  // Authors can reword their own messages
+  async editChatMessage(roomId: string, socket: Socket, messageId: unknown, message: unknown): Promise<void> {
+    const user = this.getRoom(roomId)?.users.get(socket.id);
+    if (!user || !this.canChat(roomId, socket)) return;
+    const text = this.validChatText(socket, message);
+    if (text === null) return;
+    if (typeof messageId !== 'string') return this.chatMessageMissed(socket, roomId, messageId);
+
+    const mentions = this.mentionsIn(roomId, socket, text);
+    const record = await editStoredMessage(roomId, messageId, user.userId, text, mentions);
+    if (!record) {
+      return this.chatMessageMissed(socket, roomId, messageId, () =>
+        socket.emit('permission-error', 'You can only edit your own messages')
+      );
+    }
+    this.io.to(roomId).emit('message-update', storedChatPayload(record));
+  }
+
+  // Authors can delete their own messages; the owner can delete anyone's
+  async deleteChatMessage(roomId: string, socket: Socket, messageId: unknown): Promise<void> {
+    const user = this.getRoom(roomId)?.users.get(socket.id);
+    if (!user) return;
+    if (typeof messageId !== 'string') return this.chatMessageMissed(socket, roomId, messageId);
+
+    const record = await deleteStoredMessage(
+      roomId,
+      messageId,
+      user.role === 'owner' ? undefined : user.userId
+    );
+    if (!record) {
+      return this.chatMessageMissed(socket, roomId, messageId, () =>
+        socket.emit('permission-error', 'Only the owner can delete other people’s messages')
+      );
+    }
+    this.io.to(roomId).emit('message-update', storedChatPayload(record));
+  }
+
+  // Adds the emoji from this person, or takes it back if it was theirs already
+  async toggleChatReaction(roomId: string, socket: Socket, messageId: unknown, emoji: unknown): Promise<void> {
+    const user = this.getRoom(roomId)?.users.get(socket.id);
+    if (!user || !this.canChat(roomId, socket)) return;
+    if (typeof emoji !== 'string' || emoji.length > MAX_EMOJI_LENGTH || !EMOJI_PATTERN.test(emoji)) {
+      socket.emit('chat-error', 'Reactions have to be an emoji');
+      return;
+    }
+    if (typeof messageId !== 'string') return this.chatMessageMissed(socket, roomId, messageId);
+
+    const record = await toggleStoredReaction(roomId, messageId, {
+      emoji,
+      userId: user.userId,
+      userName: user.userName
     });
+    if (!record) {
+      return this.chatMessageMissed(socket, roomId, messageId, () =>
+        socket.emit('chat-error', 'That message has all the reactions it can take')
+      );
+    }
+    this.io.to(roomId).emit('message-update', storedChatPayload(record));
+  }
+
+  // "Alice is typing…": relayed to the others, who drop it after a few seconds
+  // unless it's repeated
+  setChatTyping(roomId: string, socket: Socket, typing: boolean): void {
+    const room = this.getRoom(roomId);
+    const user = room?.users.get(socket.id);
+    if (!room || !user || room.mutes.get(user.userId)?.chat) return;
+    socket.to(roomId).emit('chat-typing', { userId: user.userId, userName: user.userName, typing });
+  }
+
+  // Explains a chat update that matched nothing: the message is gone, or it's
+  // there and `refused` says why it couldn't be changed
+  private async chatMessageMissed(
+    socket: Socket,
+    roomId: string,
+    messageId: unknown,
+    refused?: () => void
+  ): Promise<void> {
+    const record = typeof messageId === 'string' ? await findChatMessage(roomId, messageId) : null;
+    if (!record || record.deleted || !refused) {
+      socket.emit('chat-error', 'That message is gone');
+      return;
+    }
+    refused();
+  }
+
+  private validChatText(socket: Socket, message: unknown): string | null {
+    if (typeof message !== 'string' || !message.trim()) return null;
+    if (message.length > MAX_CHAT_MESSAGE_LENGTH) {
+      socket.emit('chat-error', `Messages can be at most ${MAX_CHAT_MESSAGE_LENGTH} characters`);
+      return null;
+    }
+    return message;
+  }
+
+  // Who else in the room the text @mentions
+  private mentionsIn(roomId: string, socket: Socket, text: string): string[] {
+    const room = this.getRoom(roomId);
+    const sender = room?.users.get(socket.id);
+    if (!room || !sender) return [];
+    const others = Array.from(room.users.values()).filter((u) => u.userId !== sender.userId);
+    return findMentions(text, others);
+  }
+
+  broadcastCursorPosition(roomId: string, socket: Socket, position: CursorPosition): void {
+    const user = this.rooms.get(roomId)?.users.get(socket.id);
+    if (!user) return;
+
+    user.cursor = position;
+    socket.to(roomId).emit('cursor-update', this.cursorPayload(user));
+  }
+
+  private cursorPayload(user: User) {
+    return {
+      userId: user.socketId,
+      userName: user.userName,
+      avatar: user.avatar,
+      fileId: user.activeFileId,
+      position: user.cursor
+    };
   }
 
   getRoom(roomId: string): IRoom | undefined {
@@ -0,0 +1,161 @@
+// server/src/utils/sqlPlayground.ts
+import path from 'path';
+import { Worker } from 'worker_threads';
+import type { SqlConfig } from '../config/executor';
+import type { SqlRunResult } from '../types';
+import type { SqlWorkerReady, SqlWorkerRequest, SqlWorkerResponse } from './sqlWorker';
+
+// Under ts-node the worker is a .ts file too, and needs ts-node to load
+const WORKER_EXTENSION = path.extname(__filename);
+const WORKER_FILE = path.join(__dirname, `sqlWorker${WORKER_EXTENSION}`);
+const WORKER_EXEC_ARGV = WORKER_EXTENSION === '.ts' ? ['-r', 'ts-node/register'] : undefined;
+
+type WorkerPayload =
+  | { type: 'reset'; seed: string }
+  | { type: 'exec'; sql: string; maxRows: number };
+
+interface RoomDatabase {
+  worker: Worker;
+  // Settles once SQLite has loaded; requests aren't timed before that
+  ready: Promise<boolean>;
+  pending: Map<number, (response: SqlWorkerResponse) => void>;
+}
+
+/**
+ * One SQLite database per SQL room, built from the room's seed script the
+ * first time someone runs a query. Each lives in its own worker thread;
+ * a query that runs past the timeout gets the worker terminated, and the
+ * next run starts again from the seed.
+ */
+class SqlPlayground {
+  private databases: Map<string, RoomDatabase> = new Map();
+  private config: SqlConfig;
+  private nextRequestId = 1;
+
+  constructor(config: SqlConfig) {
+    this.config = config;
+  }
+
+  async run(roomId: string, seed: string, sql: string): Promise<SqlRunResult> {
+    const startedAt = Date.now();
+    const fresh = !this.databases.has(roomId);
+    if (fresh) {
+      const seeded = await this.send(roomId, { type: 'reset', seed });
+      if (seeded.error) {
+        return { statements: [], error: `The seed script failed: ${seeded.error}`, time: 0 };
+      }
+    }
+
+    const { statements, error } = await this.send(roomId, {
+      type: 'exec',
+      sql,
+      maxRows: this.config.maxRows
+    });
+    return { statements, error, time: (Date.now() - startedAt) / 1000 };
+  }
+
+  // Throws away whatever the room did to its database and runs the seed again
+  async reset(roomId: string, seed: string): Promise<string | null> {
+    const { error } = await this.send(roomId, { type: 'reset', seed });
+    return error;
+  }
+
+  close(roomId: string): void {
+    void this.databases.get(roomId)?.worker.terminate();
+    this.databases.delete(roomId);
+  }
+
+  closeAll(): void {
+    [...this.databases.keys()].forEach((roomId) => this.close(roomId));
+  }
+
+  private async send(roomId: string, payload: WorkerPayload): Promise<SqlWorkerResponse> {
+    const database = this.database(roomId);
+    const id = this.nextRequestId++;
+    if (!(await database.ready)) {
+      return { id, statements: [], error: 'The SQL engine failed to start' };
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        if (this.databases.get(roomId) === database) this.close(roomId);
+        resolve({
+          id,
+          statements: [],
+          error: `Query ran for more than ${this.config.timeoutMs / 1000}s and was stopped; the database has been reset to the seed`
+        });
+      }, this.config.timeoutMs);
+
+      database.pending.set(id, (response) => {
+        clearTimeout(timer);
+        resolve(response);
+      });
+      const request: SqlWorkerRequest = { id, ...payload };
+      database.worker.postMessage(request);
+    });
+  }
+
+  private database(roomId: string): RoomDatabase {
+    const existing = this.databases.get(roomId);
+    if (existing) return existing;
+
+    const worker = new Worker(WORKER_FILE, { execArgv: WORKER_EXEC_ARGV });
+    let started: (ok: boolean) => void = () => undefined;
+    const database: RoomDatabase = {
+      worker,
+      ready: new Promise((resolve) => {
+        started = resolve;
+      }),
+      pending: new Map()
+    };
+    worker.on('message', (response: SqlWorkerResponse | SqlWorkerReady) => {
+      if (response === 'ready') {
+        started(true);
+        return;
+      }
+      database.pending.get(response.id)?.(response);
+      database.pending.delete(response.id);
+    });
+    // A dead worker fails whatever was waiting on it; the next run reseeds
+    const stopped = (error: string) => {
+      started(false);
+      database.pending.forEach((done, id) => done({ id, statements: [], error }));
+      database.pending.clear();
+      if (this.databases.get(roomId) === database) this.databases.delete(roomId);
+    };
+    worker.on('error', (err) => {
+      console.error(`❌ SQL worker for room ${roomId} crashed:`, err);
+      stopped(err.message);
+    });
+    // Also covers a worker that exits before SQLite finished loading
+    worker.on('exit', () => stopped('The SQL engine stopped'));
+    // Keep an idle database from holding the process open on shutdown
+    worker.unref();
+
+    this.databases.set(roomId, database);
+    return database;
+  }
+}
+
+// Plain-text rendering of a SQL run, for run history and replays where
+// there's no table to draw
+export const formatSqlResult = ({ statements, error }: SqlRunResult): string => {
+  const blocks = statements.map(({ columns, rows, rowsModified, truncated }) => {
+    if (!columns.length) return `${rowsModified} row${rowsModified === 1 ? '' : 's'} affected`;
+    const text = (value: unknown) => (value === null ? 'NULL' : String(value));
+    const widths = columns.map((column, i) =>
+      Math.max(column.length, ...rows.map((row) => text(row[i]).length))
+    );
+    const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join(' | ');
+    return [
+      line(columns),
+      widths.map((w) => '-'.repeat(w)).join('-+-'),
+      ...rows.map((row) => line(row.map(text))),
+      `(${rows.length}${truncated ? '+' : ''} row${rows.length === 1 ? '' : 's'})`
+    ].join('\n');
+  });
+  if (error) blocks.push(`Error: ${error}`);
+  return blocks.join('\n\n');
+};
+
+export default SqlPlayground;
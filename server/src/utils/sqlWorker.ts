@@ -0,0 +1,78 @@
+// server/src/utils/sqlWorker.ts
+// Runs in a worker thread and holds one room's SQLite database, so a
+// runaway query can be killed without taking the server down with it.
+import { parentPort } from 'worker_threads';
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import type { SqlCell, SqlStatementResult } from '../types';
+
+export type SqlWorkerRequest =
+  | { id: number; type: 'reset'; seed: string }
+  | { id: number; type: 'exec'; sql: string; maxRows: number };
+
+export interface SqlWorkerResponse {
+  id: number;
+  statements: SqlStatementResult[];
+  error: string | null;
+}
+
+// Sent once, when SQLite has loaded and requests can be timed fairly
+export type SqlWorkerReady = 'ready';
+
+const cell = (value: SqlValue): SqlCell =>
+  value instanceof Uint8Array ? `<blob ${value.length} bytes>` : value;
+
+let db: Database | null = null;
+const ready = initSqlJs();
+void ready.then(() => {
+  const message: SqlWorkerReady = 'ready';
+  parentPort?.postMessage(message);
+});
+
+// Fills `statements` as it goes, so a failing statement keeps the results
+// of the ones before it
+const exec = (database: Database, sql: string, maxRows: number, statements: SqlStatementResult[]): void => {
+  for (const statement of database.iterateStatements(sql)) {
+    try {
+      const columns = statement.getColumnNames();
+      const rows: SqlCell[][] = [];
+      let truncated = false;
+      while (statement.step()) {
+        if (rows.length >= maxRows) {
+          truncated = true;
+          break;
+        }
+        rows.push(statement.get().map(cell));
+      }
+      statements.push({
+        columns,
+        rows,
+        rowsModified: columns.length ? 0 : database.getRowsModified(),
+        truncated
+      });
+    } finally {
+      statement.free();
+    }
+  }
+};
+
+parentPort?.on('message', async (request: SqlWorkerRequest) => {
+  const SQL = await ready;
+  const statements: SqlStatementResult[] = [];
+  let error: string | null = null;
+
+  try {
+    if (request.type === 'reset') {
+      db?.close();
+      db = new SQL.Database();
+      db.exec(request.seed);
+    } else {
+      db ??= new SQL.Database();
+      exec(db, request.sql, request.maxRows, statements);
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const response: SqlWorkerResponse = { id: request.id, statements, error };
+  parentPort?.postMessage(response);
+});
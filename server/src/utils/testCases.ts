@@ -0,0 +1,78 @@
+// server/src/utils/testCases.ts
+import type { ComparisonMode, ITestCase } from '../models/TestCase';
+import { ExecutionStatus, type ExecutionResult } from '../executors';
+import type { TestCaseResult } from '../types';
+
+// Line endings and trailing whitespace don't count
+const normalize = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+
+// Token by token; numbers within `tolerance` (absolute or relative) are equal
+const floatsMatch = (actual: string, expected: string, tolerance: number): boolean => {
+  const a = actual.trim().split(/\s+/).filter(Boolean);
+  const e = expected.trim().split(/\s+/).filter(Boolean);
+  if (a.length !== e.length) return false;
+
+  return e.every((token, i) => {
+    if (token === a[i]) return true;
+    const x = Number(a[i]);
+    const y = Number(token);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return false;
+    const diff = Math.abs(x - y);
+    return diff <= tolerance || diff <= tolerance * Math.abs(y);
+  });
+};
+
+export const outputMatches = (
+  actual: string,
+  expected: string,
+  mode: ComparisonMode,
+  tolerance: number
+): boolean => {
+  switch (mode) {
+    case 'exact':
+      return actual === expected;
+    case 'float':
+      return floatsMatch(actual, expected, tolerance);
+    case 'trimmed':
+    default:
+      return normalize(actual) === normalize(expected);
+  }
+};
+
+// Turns an execution into a verdict; a clean run still has to print the right thing
+export const judge = (testCase: ITestCase, result: ExecutionResult): TestCaseResult => {
+  let status = result.status ?? { ...ExecutionStatus.INTERNAL_ERROR };
+  if (status.id === ExecutionStatus.ACCEPTED.id) {
+    const matches = outputMatches(
+      result.stdout ?? '',
+      testCase.expectedOutput,
+      testCase.comparison,
+      testCase.tolerance
+    );
+    status = matches ? { ...ExecutionStatus.ACCEPTED } : { ...ExecutionStatus.WRONG_ANSWER };
+  }
+
+  const verdict: TestCaseResult = {
+    caseId: String(testCase._id),
+    name: testCase.name,
+    hidden: testCase.hidden,
+    passed: status.id === ExecutionStatus.ACCEPTED.id,
+    status,
+    time: result.time ?? null,
+    memory: result.memory ?? null
+  };
+  if (!testCase.hidden) {
+    verdict.input = testCase.input;
+    verdict.expectedOutput = testCase.expectedOutput;
+    verdict.stdout = result.stdout;
+    verdict.stderr = result.stderr;
+    verdict.compileOutput = result.compile_output;
+  }
+  return verdict;
+};